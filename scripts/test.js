@@ -0,0 +1,40 @@
+/* eslint-disable no-console */
+const esbuild = require("esbuild");
+const fs = require("node:fs/promises");
+const path = require("node:path");
+const { spawnSync } = require("node:child_process");
+
+const testDir = "src/test";
+const outDir = "out/test";
+
+async function run() {
+  const entryPoints = (await fs.readdir(testDir))
+    .filter((file) => file.endsWith(".test.ts"))
+    .map((file) => path.join(testDir, file));
+
+  await fs.rm(outDir, { recursive: true, force: true });
+  await esbuild.build({
+    entryPoints,
+    bundle: true,
+    format: "cjs",
+    platform: "node",
+    target: "node18",
+    outdir: outDir,
+    alias: { vscode: "./src/test/vscodeStub.ts" },
+    sourcemap: true,
+    logLevel: "warning"
+  });
+
+  const files = entryPoints.map((entry) =>
+    path.join(outDir, path.basename(entry).replace(/\.ts$/, ".js"))
+  );
+  const result = spawnSync(process.execPath, ["--enable-source-maps", "--test", ...files], {
+    stdio: "inherit"
+  });
+  process.exitCode = result.status ?? 1;
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,294 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { PolicySeverity } from "./commandPolicy";
+import { InputMode } from "./keySequences";
+
+const LOG_FILE_NAME = "broadcast-audit.jsonl";
+const ROTATED_LOG_FILE_NAME = "broadcast-audit.1.jsonl";
+const MAX_RECENT_ENTRIES = 1000;
+
+export type BroadcastSource =
+  | "panel"
+  | "command"
+  | "polling"
+  | "chain"
+  | "replication"
+  | "upload";
+
+/** `started` is written before the first send; the final outcome follows as its own entry. */
+export type AuditOutcome = "started" | "sent" | "canceled" | "blocked" | "failed";
+
+export type AuditSkipReason =
+  | "busy"
+  | "notReady"
+  | "policyBlocked"
+  | "interrupted"
+  | "aborted";
+
+export interface AuditTargetRecord {
+  name: string;
+  pid?: number;
+  command: string;
+  item?: string;
+}
+
+export interface AuditSkipRecord {
+  name: string;
+  pid?: number;
+  reason: AuditSkipReason;
+}
+
+export interface AuditPolicyRecord {
+  name: string;
+  severity?: PolicySeverity;
+  rules: string[];
+}
+
+export interface AuditEntry {
+  timestamp: string;
+  source: BroadcastSource;
+  command: string;
+  inputMode: InputMode;
+  outcome: AuditOutcome;
+  runId?: number;
+  error?: string;
+  targets: AuditTargetRecord[];
+  skipped: AuditSkipRecord[];
+  policy: AuditPolicyRecord[];
+}
+
+export interface AuditFilter {
+  text?: string;
+  source?: BroadcastSource;
+  outcome?: AuditOutcome;
+}
+
+/**
+ * Append-only JSONL log of broadcasts, kept in workspace storage (or global
+ * storage when no folder is open). Writes are serialized so lines never
+ * interleave. Once the file grows past `auditLogMaxSizeMB` it is renamed to
+ * `broadcast-audit.1.jsonl`, replacing the previous rotation.
+ */
+export class BroadcastAuditLog implements vscode.Disposable {
+  private readonly appendEmitter = new vscode.EventEmitter<AuditEntry>();
+  private writeQueue: Promise<void> = Promise.resolve();
+  private recentEntries?: Promise<AuditEntry[]>;
+
+  public readonly onDidAppend = this.appendEmitter.event;
+  public readonly filePath: string;
+  private readonly rotatedFilePath: string;
+
+  constructor(storageUri: vscode.Uri) {
+    this.filePath = path.join(storageUri.fsPath, LOG_FILE_NAME);
+    this.rotatedFilePath = path.join(storageUri.fsPath, ROTATED_LOG_FILE_NAME);
+  }
+
+  public dispose(): void {
+    this.appendEmitter.dispose();
+  }
+
+  public append(entry: AuditEntry): Promise<void> {
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.appendFile(this.filePath, `${JSON.stringify(entry)}\n`, "utf8");
+        await this.rotateIfNeeded();
+        if (this.recentEntries) {
+          const recent = await this.recentEntries;
+          recent.push(entry);
+          recent.splice(0, Math.max(0, recent.length - MAX_RECENT_ENTRIES));
+        }
+        this.appendEmitter.fire(entry);
+      })
+      .catch((error: unknown) => {
+        void vscode.window.showWarningMessage(
+          vscode.l10n.t(
+            "Failed to write the broadcast audit log: {0}",
+            error instanceof Error ? error.message : String(error)
+          )
+        );
+      });
+    return this.writeQueue;
+  }
+
+  /** Every entry in the rotated and current file, oldest first. */
+  public async read(): Promise<AuditEntry[]> {
+    return [
+      ...(await readEntries(this.rotatedFilePath)),
+      ...(await readEntries(this.filePath))
+    ];
+  }
+
+  /**
+   * The newest entries (oldest first). The file is read once; later appends
+   * are added in memory so viewers do not re-read the log on every broadcast.
+   */
+  public async recent(): Promise<AuditEntry[]> {
+    if (!this.recentEntries) {
+      this.recentEntries = this.writeQueue.then(async () =>
+        (await this.read()).slice(-MAX_RECENT_ENTRIES)
+      );
+    }
+    return [...(await this.recentEntries)];
+  }
+
+  public async export(filter: AuditFilter = {}): Promise<void> {
+    const entries = filterAuditEntries(await this.read(), filter);
+    if (entries.length === 0) {
+      void vscode.window.showInformationMessage(vscode.l10n.t("The audit log has no matching entries."));
+      return;
+    }
+
+    const target = await vscode.window.showSaveDialog({
+      title: vscode.l10n.t("Export Broadcast Audit Log"),
+      defaultUri: vscode.Uri.file(
+        path.join(
+          vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? path.dirname(this.filePath),
+          "broadcast-audit.jsonl"
+        )
+      ),
+      filters: {
+        "JSON Lines": ["jsonl"],
+        CSV: ["csv"]
+      }
+    });
+    if (!target) {
+      return;
+    }
+
+    const content = target.fsPath.toLowerCase().endsWith(".csv")
+      ? formatAuditCsv(entries)
+      : entries.map((entry) => JSON.stringify(entry)).join("\n") + "\n";
+    await vscode.workspace.fs.writeFile(target, Buffer.from(content, "utf8"));
+    void vscode.window.showInformationMessage(
+      vscode.l10n.t("Exported {0} audit entries to {1}.", String(entries.length), target.fsPath)
+    );
+  }
+
+  private async rotateIfNeeded(): Promise<void> {
+    const maxSizeMb = vscode.workspace
+      .getConfiguration("cursorTerminalNexus")
+      .get<number>("auditLogMaxSizeMB", 10);
+    const { size } = await fs.promises.stat(this.filePath);
+    if (size > Math.max(1, maxSizeMb) * 1024 * 1024) {
+      await fs.promises.rename(this.filePath, this.rotatedFilePath);
+    }
+  }
+}
+
+async function readEntries(filePath: string): Promise<AuditEntry[]> {
+  let content: string;
+  try {
+    content = await fs.promises.readFile(filePath, "utf8");
+  } catch {
+    return [];
+  }
+
+  const entries: AuditEntry[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as AuditEntry);
+    } catch {
+      // Skip lines cut short by a crash mid-write.
+    }
+  }
+  return entries;
+}
+
+export function filterAuditEntries(entries: AuditEntry[], filter: AuditFilter): AuditEntry[] {
+  const text = filter.text?.trim().toLowerCase() ?? "";
+  return entries.filter((entry) => {
+    if (filter.source && entry.source !== filter.source) {
+      return false;
+    }
+    if (filter.outcome && entry.outcome !== filter.outcome) {
+      return false;
+    }
+    if (!text) {
+      return true;
+    }
+    return (
+      entry.command.toLowerCase().includes(text) ||
+      entry.targets.some(
+        (target) =>
+          target.name.toLowerCase().includes(text) || target.command.toLowerCase().includes(text)
+      ) ||
+      entry.skipped.some((skipped) => skipped.name.toLowerCase().includes(text))
+    );
+  });
+}
+
+export function isBroadcastSource(value: unknown): value is BroadcastSource {
+  return (
+    value === "panel" ||
+    value === "command" ||
+    value === "polling" ||
+    value === "chain" ||
+    value === "replication" ||
+    value === "upload"
+  );
+}
+
+export function isAuditOutcome(value: unknown): value is AuditOutcome {
+  return (
+    value === "started" ||
+    value === "sent" ||
+    value === "canceled" ||
+    value === "blocked" ||
+    value === "failed"
+  );
+}
+
+/** One row per target or skipped terminal, so spreadsheets can filter by host. */
+export function formatAuditCsv(entries: AuditEntry[]): string {
+  const rows = [
+    ["timestamp", "source", "outcome", "template", "terminal", "pid", "status", "command", "policy"]
+  ];
+  for (const entry of entries) {
+    const policyFor = (name: string) =>
+      entry.policy
+        .filter((record) => record.name === name)
+        .map((record) => `${record.severity ?? ""}:${record.rules.join("|")}`)
+        .join(" ");
+    for (const target of entry.targets) {
+      rows.push([
+        entry.timestamp,
+        entry.source,
+        entry.outcome,
+        entry.command,
+        target.name,
+        target.pid === undefined ? "" : String(target.pid),
+        "sent",
+        target.command,
+        policyFor(target.name)
+      ]);
+    }
+    for (const skipped of entry.skipped) {
+      rows.push([
+        entry.timestamp,
+        entry.source,
+        entry.outcome,
+        entry.command,
+        skipped.name,
+        skipped.pid === undefined ? "" : String(skipped.pid),
+        `skipped:${skipped.reason}`,
+        "",
+        policyFor(skipped.name)
+      ]);
+    }
+    if (entry.targets.length === 0 && entry.skipped.length === 0) {
+      rows.push([entry.timestamp, entry.source, entry.outcome, entry.command, "", "", "", "", ""]);
+    }
+  }
+  return rows.map((row) => row.map(toCsvField).join(",")).join("\n") + "\n";
+}
+
+/** Quotes the field, and prefixes `'` so spreadsheets do not run `=cmd|...` as a formula. */
+function toCsvField(raw: string): string {
+  const value = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
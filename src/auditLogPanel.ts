@@ -0,0 +1,419 @@
+import * as vscode from "vscode";
+import {
+  AuditFilter,
+  BroadcastAuditLog,
+  filterAuditEntries,
+  isAuditOutcome,
+  isBroadcastSource
+} from "./auditLog";
+
+const MAX_VISIBLE_ENTRIES = 500;
+
+type AuditViewMessage =
+  | { type: "requestState" }
+  | { type: "setFilter"; text?: string; source?: string; outcome?: string }
+  | { type: "export" };
+
+export class AuditLogPanel implements vscode.Disposable {
+  public static readonly viewType = "cursorTerminalNexus.auditLog";
+  public static readonly showCommand = "cursorTerminalNexus.showAuditLog";
+  public static readonly exportCommand = "cursorTerminalNexus.exportAuditLog";
+
+  private readonly disposables: vscode.Disposable[] = [];
+  private panel?: vscode.WebviewPanel;
+  private filter: AuditFilter = {};
+
+  constructor(private readonly auditLog: BroadcastAuditLog) {
+    this.disposables.push(
+      this.auditLog.onDidAppend(() => {
+        void this.postState();
+      })
+    );
+  }
+
+  public dispose(): void {
+    this.panel?.dispose();
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+  }
+
+  public show(): void {
+    if (this.panel) {
+      this.panel.reveal();
+      void this.postState();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      AuditLogPanel.viewType,
+      vscode.l10n.t("Broadcast Audit Log"),
+      vscode.ViewColumn.Active,
+      { enableScripts: true, retainContextWhenHidden: true }
+    );
+    this.panel = panel;
+    panel.webview.html = this.getWebviewHtml(panel.webview);
+    panel.webview.onDidReceiveMessage(
+      (message: AuditViewMessage) => {
+        this.handleMessage(message);
+      },
+      undefined,
+      this.disposables
+    );
+    panel.onDidDispose(
+      () => {
+        if (this.panel === panel) {
+          this.panel = undefined;
+        }
+      },
+      undefined,
+      this.disposables
+    );
+  }
+
+  public exportEntries(): Promise<void> {
+    return this.auditLog.export(this.panel ? this.filter : {});
+  }
+
+  private handleMessage(message: AuditViewMessage): void {
+    switch (message.type) {
+      case "requestState":
+        void this.postState();
+        return;
+      case "setFilter":
+        this.filter = {
+          text: message.text?.trim() || undefined,
+          source: isBroadcastSource(message.source) ? message.source : undefined,
+          outcome: isAuditOutcome(message.outcome) ? message.outcome : undefined
+        };
+        void this.postState();
+        return;
+      case "export":
+        void this.auditLog.export(this.filter);
+        return;
+      default:
+        return;
+    }
+  }
+
+  private async postState(): Promise<void> {
+    if (!this.panel) {
+      return;
+    }
+
+    const matching = filterAuditEntries(await this.auditLog.recent(), this.filter).reverse();
+    await this.panel.webview.postMessage({
+      type: "state",
+      total: matching.length,
+      entries: matching.slice(0, MAX_VISIBLE_ENTRIES),
+      logPath: this.auditLog.filePath
+    });
+  }
+
+  private getWebviewHtml(webview: vscode.Webview): string {
+    const nonce = getNonce();
+    const csp = `default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';`;
+    const i18n = {
+      title: vscode.l10n.t("Broadcast Audit Log"),
+      search: vscode.l10n.t("Filter by command or terminal"),
+      allSources: vscode.l10n.t("All sources"),
+      allOutcomes: vscode.l10n.t("All outcomes"),
+      sourcePanel: vscode.l10n.t("Control panel"),
+      sourceCommand: vscode.l10n.t("Command"),
+      sourcePolling: vscode.l10n.t("Polling"),
+      sourceChain: vscode.l10n.t("Chain"),
+      sourceReplication: vscode.l10n.t("Replication"),
+      sourceUpload: vscode.l10n.t("Upload"),
+      outcomeStarted: vscode.l10n.t("Started"),
+      outcomeSent: vscode.l10n.t("Sent"),
+      outcomeCanceled: vscode.l10n.t("Canceled"),
+      outcomeBlocked: vscode.l10n.t("Blocked"),
+      outcomeFailed: vscode.l10n.t("Failed"),
+      skipBusy: vscode.l10n.t("skipped: busy"),
+      skipNotReady: vscode.l10n.t("skipped: not ready"),
+      skipPolicyBlocked: vscode.l10n.t("skipped: blocked by policy"),
+      skipInterrupted: vscode.l10n.t("skipped: interrupted"),
+      skipAborted: vscode.l10n.t("skipped: rollout aborted"),
+      policy: vscode.l10n.t("Policy"),
+      export: vscode.l10n.t("Export..."),
+      empty: vscode.l10n.t("The audit log has no matching entries."),
+      showing: vscode.l10n.t("Showing {0} of {1} entries · {2}")
+    };
+    const i18nJson = JSON.stringify(i18n);
+
+    return `<!DOCTYPE html>
+<html lang="${vscode.env.language}">
+<head>
+  <meta charset="UTF-8" />
+  <meta http-equiv="Content-Security-Policy" content="${csp}">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>${i18n.title}</title>
+  <style>
+    :root {
+      color-scheme: light dark;
+      --muted: var(--vscode-descriptionForeground);
+      --border: var(--vscode-panel-border);
+      --bg-soft: color-mix(in srgb, var(--vscode-editor-background) 90%, var(--vscode-foreground) 10%);
+    }
+    body {
+      margin: 0;
+      padding: 12px;
+      font-family: var(--vscode-font-family);
+      color: var(--vscode-foreground);
+      background: var(--vscode-editor-background);
+      font-size: 12px;
+      line-height: 1.45;
+    }
+    .row {
+      display: flex;
+      gap: 6px;
+      align-items: center;
+      flex-wrap: wrap;
+      margin-bottom: 8px;
+    }
+    .sub {
+      color: var(--muted);
+      font-size: 11px;
+    }
+    input, select, button {
+      border: 1px solid var(--border);
+      border-radius: 6px;
+      font-size: 12px;
+    }
+    input, select {
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      padding: 3px 6px;
+    }
+    input {
+      flex: 1;
+      min-width: 160px;
+    }
+    button {
+      background: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+      cursor: pointer;
+      padding: 2px 8px;
+    }
+    .entry {
+      border: 1px solid var(--border);
+      border-radius: 8px;
+      padding: 8px;
+      margin-bottom: 8px;
+      background: var(--bg-soft);
+    }
+    .entry-header {
+      display: flex;
+      gap: 10px;
+      align-items: center;
+      flex-wrap: wrap;
+      margin-bottom: 4px;
+    }
+    .outcome {
+      border-radius: 999px;
+      padding: 0 8px;
+      border: 1px solid var(--border);
+    }
+    .outcome.sent {
+      color: var(--vscode-terminal-ansiGreen, #3fb950);
+    }
+    .outcome.canceled, .outcome.started {
+      color: var(--muted);
+    }
+    .outcome.blocked, .outcome.failed, .error {
+      color: var(--vscode-errorForeground, #f85149);
+    }
+    .skipped {
+      color: var(--vscode-terminal-ansiYellow, #d29922);
+    }
+    pre {
+      margin: 0 0 4px;
+      font-family: var(--vscode-editor-font-family, monospace);
+      font-size: 11px;
+      white-space: pre-wrap;
+      word-break: break-word;
+    }
+    ul {
+      margin: 0;
+      padding-left: 18px;
+    }
+  </style>
+</head>
+<body>
+  <div class="row">
+    <input id="searchInput" type="text" placeholder="${i18n.search}" />
+    <select id="sourceSelect">
+      <option value="">${i18n.allSources}</option>
+      <option value="panel">${i18n.sourcePanel}</option>
+      <option value="command">${i18n.sourceCommand}</option>
+      <option value="polling">${i18n.sourcePolling}</option>
+      <option value="chain">${i18n.sourceChain}</option>
+      <option value="replication">${i18n.sourceReplication}</option>
+      <option value="upload">${i18n.sourceUpload}</option>
+    </select>
+    <select id="outcomeSelect">
+      <option value="">${i18n.allOutcomes}</option>
+      <option value="started">${i18n.outcomeStarted}</option>
+      <option value="sent">${i18n.outcomeSent}</option>
+      <option value="canceled">${i18n.outcomeCanceled}</option>
+      <option value="blocked">${i18n.outcomeBlocked}</option>
+      <option value="failed">${i18n.outcomeFailed}</option>
+    </select>
+    <button id="exportBtn">${i18n.export}</button>
+  </div>
+  <div id="summary" class="row sub"></div>
+  <div id="entries"></div>
+
+  <script nonce="${nonce}">
+    const i18n = ${i18nJson};
+    const vscode = acquireVsCodeApi();
+
+    const searchInput = document.getElementById("searchInput");
+    const sourceSelect = document.getElementById("sourceSelect");
+    const outcomeSelect = document.getElementById("outcomeSelect");
+    const summary = document.getElementById("summary");
+    const entriesEl = document.getElementById("entries");
+
+    const sourceLabels = {
+      panel: i18n.sourcePanel,
+      command: i18n.sourceCommand,
+      polling: i18n.sourcePolling,
+      chain: i18n.sourceChain,
+      replication: i18n.sourceReplication,
+      upload: i18n.sourceUpload
+    };
+    const outcomeLabels = {
+      started: i18n.outcomeStarted,
+      sent: i18n.outcomeSent,
+      canceled: i18n.outcomeCanceled,
+      blocked: i18n.outcomeBlocked,
+      failed: i18n.outcomeFailed
+    };
+    const skipLabels = {
+      busy: i18n.skipBusy,
+      notReady: i18n.skipNotReady,
+      policyBlocked: i18n.skipPolicyBlocked,
+      interrupted: i18n.skipInterrupted,
+      aborted: i18n.skipAborted
+    };
+
+    let filterTimer;
+
+    function format(message, ...args) {
+      return message.replace(/\\{(\\d+)\\}/g, (_, index) => String(args[Number(index)] ?? ""));
+    }
+
+    function element(tag, className, text) {
+      const node = document.createElement(tag);
+      if (className) {
+        node.className = className;
+      }
+      if (text !== undefined) {
+        node.textContent = text;
+      }
+      return node;
+    }
+
+    function terminalLabel(record) {
+      return record.name + (typeof record.pid === "number" ? " (" + record.pid + ")" : "");
+    }
+
+    function renderEntry(entry) {
+      const wrapper = element("div", "entry");
+
+      const header = element("div", "entry-header");
+      header.appendChild(element("span", "", new Date(entry.timestamp).toLocaleString()));
+      header.appendChild(element("span", "outcome " + entry.outcome, outcomeLabels[entry.outcome] || entry.outcome));
+      header.appendChild(element("span", "sub", sourceLabels[entry.source] || entry.source));
+      header.appendChild(element("span", "sub", entry.inputMode));
+      if (typeof entry.runId === "number") {
+        header.appendChild(element("span", "sub", "#" + entry.runId));
+      }
+      wrapper.appendChild(header);
+
+      wrapper.appendChild(element("pre", "", entry.command));
+      if (entry.error) {
+        wrapper.appendChild(element("div", "error", entry.error));
+      }
+
+      const list = element("ul");
+      entry.targets.forEach((target) => {
+        const suffix = target.command !== entry.command ? " → " + target.command : "";
+        const itemText = target.item !== undefined ? " · " + target.item : "";
+        list.appendChild(element("li", "", terminalLabel(target) + itemText + suffix));
+      });
+      entry.skipped.forEach((skipped) => {
+        list.appendChild(
+          element("li", "skipped", terminalLabel(skipped) + " · " + (skipLabels[skipped.reason] || skipped.reason))
+        );
+      });
+      entry.policy.forEach((record) => {
+        list.appendChild(
+          element(
+            "li",
+            "sub",
+            i18n.policy + " · " + record.name + ": " + (record.severity || "-") + " (" + record.rules.join(", ") + ")"
+          )
+        );
+      });
+      if (list.childElementCount > 0) {
+        wrapper.appendChild(list);
+      }
+      return wrapper;
+    }
+
+    function render(state) {
+      entriesEl.innerHTML = "";
+      summary.textContent = format(i18n.showing, state.entries.length, state.total, state.logPath);
+      if (state.entries.length === 0) {
+        entriesEl.appendChild(element("div", "sub", i18n.empty));
+        return;
+      }
+      state.entries.forEach((entry) => {
+        entriesEl.appendChild(renderEntry(entry));
+      });
+    }
+
+    function postFilter() {
+      vscode.postMessage({
+        type: "setFilter",
+        text: searchInput.value,
+        source: sourceSelect.value,
+        outcome: outcomeSelect.value
+      });
+    }
+
+    searchInput.addEventListener("input", () => {
+      clearTimeout(filterTimer);
+      filterTimer = setTimeout(postFilter, 200);
+    });
+    sourceSelect.addEventListener("change", postFilter);
+    outcomeSelect.addEventListener("change", postFilter);
+    document.getElementById("exportBtn").addEventListener("click", () => {
+      vscode.postMessage({ type: "export" });
+    });
+
+    window.addEventListener("message", (event) => {
+      const message = event.data;
+      if (!message || message.type !== "state") {
+        return;
+      }
+      render(message);
+    });
+
+    vscode.postMessage({ type: "requestState" });
+  </script>
+</body>
+</html>`;
+  }
+}
+
+function getNonce(): string {
+  const characters =
+    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  let nonce = "";
+  for (let i = 0; i < 24; i += 1) {
+    nonce += characters.charAt(Math.floor(Math.random() * characters.length));
+  }
+  return nonce;
+}
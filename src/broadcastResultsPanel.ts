@@ -0,0 +1,638 @@
+import * as vscode from "vscode";
+import {
+  BroadcastAttemptRecord,
+  BroadcastRun,
+  BroadcastRunTracker,
+  CanaryReport,
+  RunAbort,
+  BroadcastTargetOutcome,
+  BroadcastTargetStatus,
+  formatRunSummary,
+  getTargetDurationMs,
+  getTargetExitCode,
+  getTargetOutcome,
+  summarizeRun
+} from "./broadcastRuns";
+
+const STATUS_BAR_VISIBLE_MS = 15000;
+
+type ResultsViewMessage =
+  | { type: "requestState" }
+  | { type: "selectRun"; runId: number }
+  | { type: "focusTerminal"; runId: number; position: number };
+
+export class BroadcastResultsPanel implements vscode.Disposable {
+  public static readonly viewType = "cursorTerminalNexus.broadcastResults";
+  public static readonly showCommand = "cursorTerminalNexus.showBroadcastResults";
+
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly statusBarItem: vscode.StatusBarItem;
+  private panel?: vscode.WebviewPanel;
+  private selectedRunId?: number;
+  private statusBarTimer?: NodeJS.Timeout;
+
+  constructor(private readonly runTracker: BroadcastRunTracker) {
+    this.statusBarItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      100
+    );
+    this.disposables.push(
+      this.statusBarItem,
+      this.runTracker.onDidChangeRuns(() => {
+        void this.postState();
+      }),
+      this.runTracker.onDidFinishRun((run) => {
+        if (run.notify) {
+          this.showFinishedNotification(run);
+        }
+      })
+    );
+  }
+
+  public dispose(): void {
+    if (this.statusBarTimer) {
+      clearTimeout(this.statusBarTimer);
+      this.statusBarTimer = undefined;
+    }
+    this.panel?.dispose();
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+  }
+
+  public show(runId?: number): void {
+    this.selectedRunId = runId;
+
+    if (this.panel) {
+      this.panel.reveal();
+      void this.postState();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      BroadcastResultsPanel.viewType,
+      vscode.l10n.t("Broadcast Results"),
+      vscode.ViewColumn.Active,
+      { enableScripts: true, retainContextWhenHidden: true }
+    );
+    this.panel = panel;
+    panel.webview.html = this.getWebviewHtml(panel.webview);
+    panel.webview.onDidReceiveMessage(
+      (message: ResultsViewMessage) => {
+        this.handleMessage(message);
+      },
+      undefined,
+      this.disposables
+    );
+    panel.onDidDispose(
+      () => {
+        if (this.panel === panel) {
+          this.panel = undefined;
+        }
+      },
+      undefined,
+      this.disposables
+    );
+  }
+
+  private handleMessage(message: ResultsViewMessage): void {
+    switch (message.type) {
+      case "requestState":
+        void this.postState();
+        return;
+      case "selectRun":
+        this.selectedRunId = message.runId;
+        void this.postState();
+        return;
+      case "focusTerminal": {
+        const target = this.runTracker.getRun(message.runId)?.targets[message.position];
+        if (target && vscode.window.terminals.includes(target.terminal)) {
+          target.terminal.show(false);
+        }
+        return;
+      }
+      default:
+        return;
+    }
+  }
+
+  private showFinishedNotification(run: BroadcastRun): void {
+    this.statusBarItem.text = vscode.l10n.t(
+      "$(checklist) Broadcast finished: {0} terminal(s)",
+      String(run.targets.length)
+    );
+    this.statusBarItem.tooltip = vscode.l10n.t("Open broadcast results");
+    this.statusBarItem.command = {
+      title: vscode.l10n.t("Broadcast Results"),
+      command: BroadcastResultsPanel.showCommand,
+      arguments: [run.id]
+    };
+    this.statusBarItem.show();
+
+    if (this.statusBarTimer) {
+      clearTimeout(this.statusBarTimer);
+    }
+    this.statusBarTimer = setTimeout(() => {
+      this.statusBarTimer = undefined;
+      this.statusBarItem.hide();
+    }, STATUS_BAR_VISIBLE_MS);
+  }
+
+  private async postState(): Promise<void> {
+    if (!this.panel) {
+      return;
+    }
+
+    const runs = this.runTracker.getRuns();
+    const selected =
+      runs.find((run) => run.id === this.selectedRunId) ?? runs[0];
+    await this.panel.webview.postMessage({
+      type: "state",
+      runs: runs.map((run) => ({
+        id: run.id,
+        command: run.command,
+        createdAt: run.createdAt,
+        finishedAt: run.finishedAt,
+        targetCount: run.targets.length
+      })),
+      selectedRun: selected ? serializeRun(selected) : undefined
+    });
+  }
+
+  private getWebviewHtml(webview: vscode.Webview): string {
+    const nonce = getNonce();
+    const csp = `default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';`;
+    const i18n = {
+      title: vscode.l10n.t("Broadcast Results"),
+      run: vscode.l10n.t("Broadcast"),
+      noRuns: vscode.l10n.t("No broadcast recorded yet."),
+      duration: vscode.l10n.t("Duration"),
+      completedAt: vscode.l10n.t("Completed At"),
+      noOutput: vscode.l10n.t("(no output captured)"),
+      truncated: vscode.l10n.t("Output truncated, showing the latest part."),
+      inProgress: vscode.l10n.t("In progress"),
+      finished: vscode.l10n.t("Finished"),
+      focus: vscode.l10n.t("Show Terminal"),
+      statusPending: vscode.l10n.t("Pending"),
+      statusRunning: vscode.l10n.t("Running"),
+      statusCompleted: vscode.l10n.t("Completed"),
+      statusNoExecution: vscode.l10n.t("No shell integration"),
+      statusClosed: vscode.l10n.t("Closed"),
+      exitCode: vscode.l10n.t("Exit code"),
+      execution: vscode.l10n.t("Execution"),
+      outcomeSucceeded: vscode.l10n.t("Succeeded"),
+      outcomeFailed: vscode.l10n.t("Failed"),
+      outcomeNotStarted: vscode.l10n.t("Not started"),
+      canaryVerifying: vscode.l10n.t("Canary {0}: waiting for success before sending to the rest"),
+      canaryPassed: vscode.l10n.t("Canary {0} passed; sent to the rest"),
+      canaryFailed: vscode.l10n.t("Canary {0} failed"),
+      aborted: vscode.l10n.t("Aborted: {0} Not sent to: {1}"),
+      skipped: vscode.l10n.t("Skipped, closed before their turn: {0}"),
+      attempt: vscode.l10n.t("Attempt {0}"),
+      retryScheduled: vscode.l10n.t("Retrying at {0}")
+    };
+    const i18nJson = JSON.stringify(i18n);
+
+    return `<!DOCTYPE html>
+<html lang="${vscode.env.language}">
+<head>
+  <meta charset="UTF-8" />
+  <meta http-equiv="Content-Security-Policy" content="${csp}">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>${i18n.title}</title>
+  <style>
+    :root {
+      color-scheme: light dark;
+      --muted: var(--vscode-descriptionForeground);
+      --border: var(--vscode-panel-border);
+      --bg-soft: color-mix(in srgb, var(--vscode-editor-background) 90%, var(--vscode-foreground) 10%);
+    }
+    body {
+      margin: 0;
+      padding: 12px;
+      font-family: var(--vscode-font-family);
+      color: var(--vscode-foreground);
+      background: var(--vscode-editor-background);
+      font-size: 12px;
+      line-height: 1.45;
+    }
+    .row {
+      display: flex;
+      gap: 6px;
+      align-items: center;
+      flex-wrap: wrap;
+      margin-bottom: 8px;
+    }
+    .label {
+      color: var(--muted);
+    }
+    .sub {
+      color: var(--muted);
+      font-size: 11px;
+    }
+    select, button {
+      border: 1px solid var(--border);
+      border-radius: 6px;
+      font-size: 12px;
+    }
+    select {
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      padding: 3px 6px;
+      max-width: 100%;
+    }
+    button {
+      background: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+      cursor: pointer;
+      padding: 2px 8px;
+    }
+    .aborted {
+      color: var(--vscode-errorForeground, #f85149);
+    }
+    .result {
+      border: 1px solid var(--border);
+      border-radius: 8px;
+      padding: 8px;
+      margin-bottom: 10px;
+      background: var(--bg-soft);
+    }
+    .result-header {
+      display: flex;
+      gap: 10px;
+      align-items: center;
+      flex-wrap: wrap;
+      margin-bottom: 6px;
+    }
+    .result-name {
+      font-weight: 600;
+    }
+    .result-status {
+      border-radius: 999px;
+      padding: 0 8px;
+      border: 1px solid var(--border);
+    }
+    .result-status.running, .result-status.pending {
+      color: var(--vscode-terminal-ansiYellow, #d29922);
+    }
+    .result-status.completed {
+      color: var(--vscode-terminal-ansiGreen, #3fb950);
+    }
+    .result-status.noExecution, .result-status.closed {
+      color: var(--muted);
+    }
+    .result-status.failed {
+      color: var(--vscode-errorForeground, #f85149);
+    }
+    details {
+      margin-top: 6px;
+    }
+    summary {
+      cursor: pointer;
+      color: var(--muted);
+      font-size: 11px;
+      margin-bottom: 4px;
+    }
+    pre {
+      margin: 0;
+      padding: 6px;
+      max-height: 260px;
+      overflow: auto;
+      border: 1px solid var(--border);
+      border-radius: 6px;
+      background: var(--vscode-editor-background);
+      font-family: var(--vscode-editor-font-family, monospace);
+      font-size: 11px;
+      white-space: pre-wrap;
+      word-break: break-word;
+    }
+  </style>
+</head>
+<body>
+  <div class="row">
+    <span class="label">${i18n.run}</span>
+    <select id="runSelect"></select>
+    <span id="runStatus" class="sub"></span>
+  </div>
+  <div id="runCommand" class="row sub"></div>
+  <div id="runCanary" class="row sub"></div>
+  <div id="runAborted" class="row aborted"></div>
+  <div id="runSkipped" class="row sub"></div>
+  <div id="results"></div>
+
+  <script nonce="${nonce}">
+    const i18n = ${i18nJson};
+    const vscode = acquireVsCodeApi();
+
+    const runSelect = document.getElementById("runSelect");
+    const runStatus = document.getElementById("runStatus");
+    const runCommand = document.getElementById("runCommand");
+    const runCanary = document.getElementById("runCanary");
+    const runAborted = document.getElementById("runAborted");
+    const runSkipped = document.getElementById("runSkipped");
+    const results = document.getElementById("results");
+
+    let state = { runs: [], selectedRun: undefined };
+
+    function post(message) {
+      vscode.postMessage(message);
+    }
+
+    function format(message, ...args) {
+      return message.replace(/\\{(\\d+)\\}/g, (_, index) => String(args[Number(index)] ?? ""));
+    }
+
+    function renderGate(run) {
+      const canary = run ? run.canary : undefined;
+      const aborted = run ? run.aborted : undefined;
+      runCanary.textContent = "";
+      if (canary) {
+        const names = canary.terminals.join(", ");
+        const message =
+          canary.status === "verifying"
+            ? i18n.canaryVerifying
+            : canary.status === "passed"
+              ? i18n.canaryPassed
+              : i18n.canaryFailed;
+        runCanary.textContent = format(message, names);
+      }
+      runAborted.textContent = aborted
+        ? format(i18n.aborted, aborted.reason, aborted.terminals.join(", "))
+        : "";
+      runSkipped.textContent =
+        run && run.skipped && run.skipped.length > 0
+          ? format(i18n.skipped, run.skipped.join(", "))
+          : "";
+    }
+
+    function formatTime(value) {
+      return typeof value === "number" ? new Date(value).toLocaleTimeString() : "-";
+    }
+
+    function formatDuration(value) {
+      if (typeof value !== "number") {
+        return "-";
+      }
+      return value < 1000 ? value + " ms" : (value / 1000).toFixed(1) + " s";
+    }
+
+    function statusLabel(status) {
+      if (status === "pending") {
+        return i18n.statusPending;
+      }
+      if (status === "running") {
+        return i18n.statusRunning;
+      }
+      if (status === "completed") {
+        return i18n.statusCompleted;
+      }
+      if (status === "noExecution") {
+        return i18n.statusNoExecution;
+      }
+      return i18n.statusClosed;
+    }
+
+    function outcomeLabel(target) {
+      if (target.outcome === "succeeded") {
+        return { className: "completed", text: i18n.outcomeSucceeded };
+      }
+      if (target.outcome === "failed") {
+        return { className: "failed", text: i18n.outcomeFailed };
+      }
+      if (target.outcome === "notStarted") {
+        return { className: "noExecution", text: i18n.outcomeNotStarted };
+      }
+      return { className: target.status, text: statusLabel(target.status) };
+    }
+
+    function renderRunSelect() {
+      runSelect.innerHTML = "";
+      state.runs.forEach((run) => {
+        const option = document.createElement("option");
+        option.value = String(run.id);
+        option.textContent =
+          "#" + run.id + " " + formatTime(run.createdAt) + " (" + run.targetCount + ") " +
+          run.command.split("\\n")[0].slice(0, 60);
+        runSelect.appendChild(option);
+      });
+      if (state.selectedRun) {
+        runSelect.value = String(state.selectedRun.id);
+      }
+    }
+
+    function renderTarget(run, target) {
+      const wrapper = document.createElement("div");
+      wrapper.className = "result";
+
+      const header = document.createElement("div");
+      header.className = "result-header";
+
+      const name = document.createElement("span");
+      name.className = "result-name";
+      name.textContent =
+        target.index + ". " + target.name + (target.item !== undefined ? " · " + target.item : "");
+
+      const outcome = outcomeLabel(target);
+      const status = document.createElement("span");
+      status.className = "result-status " + outcome.className;
+      status.textContent = outcome.text;
+
+      const exitCode = document.createElement("span");
+      exitCode.className = "sub";
+      exitCode.textContent =
+        i18n.exitCode + ": " + (typeof target.exitCode === "number" ? target.exitCode : "-");
+
+      const duration = document.createElement("span");
+      duration.className = "sub";
+      duration.textContent = i18n.duration + ": " + formatDuration(target.durationMs);
+
+      const completedAt = document.createElement("span");
+      completedAt.className = "sub";
+      completedAt.textContent = i18n.completedAt + ": " + formatTime(target.endedAt);
+
+      const focus = document.createElement("button");
+      focus.textContent = i18n.focus;
+      focus.addEventListener("click", () => {
+        post({ type: "focusTerminal", runId: run.id, position: target.position });
+      });
+
+      header.appendChild(name);
+      header.appendChild(status);
+      header.appendChild(exitCode);
+      if (target.attempt > 1) {
+        const attempt = document.createElement("span");
+        attempt.className = "sub";
+        attempt.textContent = format(i18n.attempt, target.attempt);
+        header.appendChild(attempt);
+      }
+      if (typeof target.retryAt === "number") {
+        const retry = document.createElement("span");
+        retry.className = "sub";
+        retry.textContent = format(i18n.retryScheduled, formatTime(target.retryAt));
+        header.appendChild(retry);
+      }
+      header.appendChild(duration);
+      header.appendChild(completedAt);
+      header.appendChild(focus);
+      wrapper.appendChild(header);
+
+      if (target.commandLines.length > 0) {
+        const execution = document.createElement("div");
+        execution.className = "sub";
+        execution.textContent = i18n.execution + ": " + target.commandLines.join(" ; ");
+        wrapper.appendChild(execution);
+      }
+
+      if (target.outputTruncated) {
+        const note = document.createElement("div");
+        note.className = "sub";
+        note.textContent = i18n.truncated;
+        wrapper.appendChild(note);
+      }
+
+      const output = document.createElement("pre");
+      output.textContent = target.output || i18n.noOutput;
+      wrapper.appendChild(output);
+
+      target.previousAttempts
+        .slice()
+        .reverse()
+        .forEach((previous) => {
+          const details = document.createElement("details");
+          const summary = document.createElement("summary");
+          summary.textContent =
+            format(i18n.attempt, previous.attempt) +
+            " · " +
+            i18n.exitCode +
+            ": " +
+            (typeof previous.exitCode === "number" ? previous.exitCode : "-") +
+            " · " +
+            i18n.completedAt +
+            ": " +
+            formatTime(previous.endedAt);
+          const previousOutput = document.createElement("pre");
+          previousOutput.textContent = previous.output || i18n.noOutput;
+          details.appendChild(summary);
+          details.appendChild(previousOutput);
+          wrapper.appendChild(details);
+        });
+      return wrapper;
+    }
+
+    function render() {
+      renderRunSelect();
+      results.innerHTML = "";
+      const run = state.selectedRun;
+      if (!run) {
+        runStatus.textContent = "";
+        runCommand.textContent = "";
+        renderGate(undefined);
+        const empty = document.createElement("div");
+        empty.className = "sub";
+        empty.textContent = i18n.noRuns;
+        results.appendChild(empty);
+        return;
+      }
+
+      runStatus.textContent =
+        (typeof run.finishedAt === "number"
+          ? i18n.finished + " " + formatTime(run.finishedAt)
+          : i18n.inProgress) +
+        " · " +
+        run.summary;
+      runCommand.textContent = run.command;
+      renderGate(run);
+      run.targets.forEach((target) => {
+        results.appendChild(renderTarget(run, target));
+      });
+    }
+
+    runSelect.addEventListener("change", () => {
+      post({ type: "selectRun", runId: Number(runSelect.value) });
+    });
+
+    window.addEventListener("message", (event) => {
+      const message = event.data;
+      if (!message || message.type !== "state") {
+        return;
+      }
+      state = message;
+      render();
+    });
+
+    post({ type: "requestState" });
+  </script>
+</body>
+</html>`;
+  }
+}
+
+interface SerializedTarget {
+  position: number;
+  index: number;
+  name: string;
+  item?: string;
+  command: string;
+  status: BroadcastTargetStatus;
+  output: string;
+  outputTruncated: boolean;
+  outcome: BroadcastTargetOutcome;
+  exitCode?: number;
+  commandLines: string[];
+  durationMs?: number;
+  endedAt?: number;
+  attempt: number;
+  retryAt?: number;
+  previousAttempts: BroadcastAttemptRecord[];
+}
+
+function serializeRun(run: BroadcastRun): {
+  id: number;
+  command: string;
+  createdAt: number;
+  finishedAt?: number;
+  summary: string;
+  canary?: CanaryReport;
+  aborted?: RunAbort;
+  skipped?: string[];
+  targets: SerializedTarget[];
+} {
+  return {
+    id: run.id,
+    command: run.command,
+    createdAt: run.createdAt,
+    finishedAt: run.finishedAt,
+    summary: formatRunSummary(summarizeRun(run)),
+    canary: run.canary,
+    aborted: run.aborted,
+    skipped: run.skipped,
+    targets: run.targets.map((target, position) => ({
+      position,
+      index: target.index,
+      name: target.name,
+      item: target.item,
+      command: target.command,
+      status: target.status,
+      output: target.output,
+      outputTruncated: target.outputTruncated,
+      outcome: getTargetOutcome(target),
+      exitCode: getTargetExitCode(target),
+      commandLines: target.executions.map((item) => item.commandLine),
+      durationMs: getTargetDurationMs(target),
+      endedAt: target.endedAt,
+      attempt: target.attempt,
+      retryAt: target.retryAt,
+      previousAttempts: target.previousAttempts
+    }))
+  };
+}
+
+function getNonce(): string {
+  const characters =
+    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  let nonce = "";
+  for (let i = 0; i < 24; i += 1) {
+    nonce += characters.charAt(Math.floor(Math.random() * characters.length));
+  }
+  return nonce;
+}
@@ -0,0 +1,569 @@
+import * as vscode from "vscode";
+import { sanitizeTerminalData } from "./terminalStateManager";
+
+const MAX_RUNS = 20;
+const MAX_OUTPUT_CHARS = 64_000;
+const EXECUTION_START_TIMEOUT_MS = 3000;
+const CHANGE_THROTTLE_MS = 200;
+const MAX_ATTEMPT_OUTPUT_CHARS = 4_000;
+
+export type BroadcastTargetStatus =
+  | "pending"
+  | "running"
+  | "completed"
+  | "noExecution"
+  | "closed";
+
+export type BroadcastTargetOutcome =
+  | "pending"
+  | "succeeded"
+  | "failed"
+  | "notStarted"
+  | "unknown";
+
+export interface BroadcastExecutionRecord {
+  commandLine: string;
+  startedAt: number;
+  endedAt?: number;
+  exitCode?: number;
+}
+
+/** A failed attempt kept when the target is retried; only the tail of its output is kept. */
+export interface BroadcastAttemptRecord {
+  attempt: number;
+  exitCode?: number;
+  output: string;
+  startedAt?: number;
+  endedAt?: number;
+}
+
+export interface BroadcastTargetResult {
+  terminal: vscode.Terminal;
+  name: string;
+  index: number;
+  command: string;
+  item?: string;
+  sentAt: number;
+  status: BroadcastTargetStatus;
+  output: string;
+  outputTruncated: boolean;
+  expectedExecutions: number;
+  executions: BroadcastExecutionRecord[];
+  startedAt?: number;
+  endedAt?: number;
+  attempt: number;
+  previousAttempts: BroadcastAttemptRecord[];
+  /** Set while a retry is scheduled; the target does not count as settled meanwhile. */
+  retryAt?: number;
+}
+
+export type CanaryStatus = "verifying" | "passed" | "failed";
+
+export interface CanaryReport {
+  terminals: string[];
+  status: CanaryStatus;
+}
+
+/** Why a gated rollout stopped early and which terminals were never sent to. */
+export interface RunAbort {
+  reason: string;
+  terminals: string[];
+}
+
+export interface BroadcastRun {
+  id: number;
+  command: string;
+  createdAt: number;
+  notify: boolean;
+  sealed: boolean;
+  finishedAt?: number;
+  targets: BroadcastTargetResult[];
+  canary?: CanaryReport;
+  aborted?: RunAbort;
+  /** Terminals a rolling rollout skipped because they closed before their turn. */
+  skipped?: string[];
+}
+
+export interface BroadcastRunSummary {
+  sent: number;
+  succeeded: number;
+  failed: number;
+  notStarted: number;
+  unknown: number;
+  pending: number;
+  aborted: number;
+  skipped: number;
+  retried: number;
+}
+
+interface ActiveTarget {
+  run: BroadcastRun;
+  target: BroadcastTargetResult;
+  execution?: vscode.TerminalShellExecution;
+  startTimer?: NodeJS.Timeout;
+}
+
+export class BroadcastRunTracker implements vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly runs: BroadcastRun[] = [];
+  private readonly activeTargets = new Map<vscode.Terminal, ActiveTarget>();
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  private readonly finishEmitter = new vscode.EventEmitter<BroadcastRun>();
+  private readonly settleEmitter = new vscode.EventEmitter<BroadcastTargetResult>();
+  private nextRunId = 1;
+  private changeTimer?: NodeJS.Timeout;
+
+  public readonly onDidChangeRuns = this.changeEmitter.event;
+  public readonly onDidFinishRun = this.finishEmitter.event;
+  /**
+   * Fires synchronously when a target settles, before its run can finish, so a
+   * listener may still schedule a retry for it.
+   */
+  public readonly onDidSettleTarget = this.settleEmitter.event;
+
+  constructor() {
+    this.disposables.push(
+      vscode.window.onDidStartTerminalShellExecution((event) => {
+        this.handleExecutionStart(event.terminal, event.execution);
+      }),
+      vscode.window.onDidEndTerminalShellExecution((event) => {
+        this.handleExecutionEnd(event.terminal, event.execution, event.exitCode);
+      }),
+      vscode.window.onDidCloseTerminal((terminal) => {
+        this.handleTerminalClosed(terminal);
+      })
+    );
+  }
+
+  public dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    for (const active of this.activeTargets.values()) {
+      clearTimer(active.startTimer);
+    }
+    this.activeTargets.clear();
+    clearTimer(this.changeTimer);
+    this.changeEmitter.dispose();
+    this.finishEmitter.dispose();
+    this.settleEmitter.dispose();
+  }
+
+  public getRuns(): readonly BroadcastRun[] {
+    return this.runs;
+  }
+
+  public getRun(id: number): BroadcastRun | undefined {
+    return this.runs.find((run) => run.id === id);
+  }
+
+  public getLatestTarget(terminal: vscode.Terminal): BroadcastTargetResult | undefined {
+    for (const run of this.runs) {
+      const target = findLastTarget(run, terminal);
+      if (target) {
+        return target;
+      }
+    }
+    return undefined;
+  }
+
+  public whenFinished(run: BroadcastRun): Promise<BroadcastRun> {
+    if (run.finishedAt !== undefined) {
+      return Promise.resolve(run);
+    }
+    return new Promise((resolve) => {
+      const subscription = this.finishEmitter.event((finished) => {
+        if (finished === run) {
+          subscription.dispose();
+          resolve(run);
+        }
+      });
+    });
+  }
+
+  public beginRun(command: string, notify: boolean): BroadcastRun {
+    const run: BroadcastRun = {
+      id: this.nextRunId++,
+      command,
+      createdAt: Date.now(),
+      notify,
+      sealed: false,
+      targets: []
+    };
+    this.runs.unshift(run);
+    this.runs.splice(MAX_RUNS);
+    this.scheduleChange();
+    return run;
+  }
+
+  /**
+   * Registers a target before its text is sent so that the shell execution the
+   * send triggers is attributed to this run. A pasted multi-line payload runs
+   * as a single execution.
+   */
+  public addTarget(
+    run: BroadcastRun,
+    terminal: vscode.Terminal,
+    index: number,
+    command: string,
+    item?: string,
+    pasted = false
+  ): BroadcastTargetResult {
+    const target: BroadcastTargetResult = {
+      terminal,
+      name: terminal.name,
+      index,
+      command,
+      item,
+      sentAt: Date.now(),
+      status: "pending",
+      output: "",
+      outputTruncated: false,
+      expectedExecutions: pasted ? 1 : countCommandLines(command),
+      executions: [],
+      attempt: 1,
+      previousAttempts: []
+    };
+    run.targets.push(target);
+    this.trackTarget(run, target);
+    return target;
+  }
+
+  public scheduleRetry(target: BroadcastTargetResult, at: number): void {
+    target.retryAt = at;
+    this.scheduleChange();
+  }
+
+  public cancelRetry(run: BroadcastRun, target: BroadcastTargetResult): void {
+    target.retryAt = undefined;
+    this.checkRunFinished(run);
+    this.scheduleChange();
+  }
+
+  /** Archives the failed attempt and tracks the target again before it is resent. */
+  public retryTarget(run: BroadcastRun, target: BroadcastTargetResult): void {
+    target.previousAttempts.push({
+      attempt: target.attempt,
+      exitCode: getTargetExitCode(target),
+      output: target.output.slice(-MAX_ATTEMPT_OUTPUT_CHARS),
+      startedAt: target.startedAt,
+      endedAt: target.endedAt
+    });
+    target.attempt += 1;
+    target.retryAt = undefined;
+    target.sentAt = Date.now();
+    target.status = "pending";
+    target.output = "";
+    target.outputTruncated = false;
+    target.executions = [];
+    target.startedAt = undefined;
+    target.endedAt = undefined;
+    this.trackTarget(run, target);
+  }
+
+  public setCanary(run: BroadcastRun, canary: CanaryReport): void {
+    run.canary = canary;
+    this.scheduleChange();
+  }
+
+  public abortRun(run: BroadcastRun, aborted: RunAbort): void {
+    run.aborted = aborted;
+    this.scheduleChange();
+  }
+
+  public skipTarget(run: BroadcastRun, terminal: vscode.Terminal): void {
+    run.skipped = [...(run.skipped ?? []), terminal.name];
+    this.scheduleChange();
+  }
+
+  public sealRun(run: BroadcastRun): void {
+    run.sealed = true;
+    this.checkRunFinished(run);
+    this.scheduleChange();
+  }
+
+  private trackTarget(run: BroadcastRun, target: BroadcastTargetResult): void {
+    const previous = this.activeTargets.get(target.terminal);
+    if (previous) {
+      this.settleTarget(previous);
+    }
+    const active: ActiveTarget = { run, target };
+    this.activeTargets.set(target.terminal, active);
+    this.scheduleStartTimeout(active);
+    this.scheduleChange();
+  }
+
+  private handleExecutionStart(
+    terminal: vscode.Terminal,
+    execution: vscode.TerminalShellExecution
+  ): void {
+    const active = this.activeTargets.get(terminal);
+    if (!active || active.execution) {
+      return;
+    }
+
+    clearTimer(active.startTimer);
+    active.startTimer = undefined;
+    active.execution = execution;
+
+    const now = Date.now();
+    const { target } = active;
+    target.status = "running";
+    target.startedAt ??= now;
+    target.executions.push({
+      commandLine: execution.commandLine.value,
+      startedAt: now
+    });
+    this.scheduleChange();
+
+    void this.captureOutput(target, execution);
+  }
+
+  private handleExecutionEnd(
+    terminal: vscode.Terminal,
+    execution: vscode.TerminalShellExecution,
+    exitCode: number | undefined
+  ): void {
+    const active = this.activeTargets.get(terminal);
+    if (!active || active.execution !== execution) {
+      return;
+    }
+
+    const now = Date.now();
+    const { target } = active;
+    active.execution = undefined;
+    target.endedAt = now;
+    const record = target.executions[target.executions.length - 1];
+    if (record) {
+      record.endedAt = now;
+      record.exitCode = exitCode;
+    }
+
+    if (target.executions.length >= target.expectedExecutions) {
+      this.completeTarget(active, "completed");
+    } else {
+      // Multi-line payloads start one execution per submitted line.
+      this.scheduleStartTimeout(active);
+    }
+    this.scheduleChange();
+  }
+
+  private handleTerminalClosed(terminal: vscode.Terminal): void {
+    const active = this.activeTargets.get(terminal);
+    if (!active) {
+      return;
+    }
+    this.completeTarget(active, "closed");
+    this.scheduleChange();
+  }
+
+  private async captureOutput(
+    target: BroadcastTargetResult,
+    execution: vscode.TerminalShellExecution
+  ): Promise<void> {
+    try {
+      for await (const chunk of execution.read()) {
+        appendOutput(target, sanitizeTerminalData(chunk));
+        this.scheduleChange();
+      }
+    } catch {
+      // Ignore stream errors. The end event still settles the target.
+    }
+  }
+
+  private scheduleStartTimeout(active: ActiveTarget): void {
+    clearTimer(active.startTimer);
+    active.startTimer = setTimeout(() => {
+      active.startTimer = undefined;
+      if (this.activeTargets.get(active.target.terminal) !== active || active.execution) {
+        return;
+      }
+      this.settleTarget(active);
+      this.scheduleChange();
+    }, EXECUTION_START_TIMEOUT_MS);
+  }
+
+  private settleTarget(active: ActiveTarget): void {
+    this.completeTarget(
+      active,
+      active.target.executions.length > 0 ? "completed" : "noExecution"
+    );
+  }
+
+  private completeTarget(active: ActiveTarget, status: BroadcastTargetStatus): void {
+    clearTimer(active.startTimer);
+    active.startTimer = undefined;
+    active.execution = undefined;
+    if (active.target.status === "pending" || active.target.status === "running") {
+      active.target.status = status;
+    }
+    if (this.activeTargets.get(active.target.terminal) === active) {
+      this.activeTargets.delete(active.target.terminal);
+    }
+    this.settleEmitter.fire(active.target);
+    this.checkRunFinished(active.run);
+  }
+
+  private checkRunFinished(run: BroadcastRun): void {
+    if (!run.sealed || run.finishedAt !== undefined) {
+      return;
+    }
+    const settled = run.targets.every(isTargetSettled);
+    if (!settled) {
+      return;
+    }
+    run.finishedAt = Date.now();
+    this.finishEmitter.fire(run);
+  }
+
+  private scheduleChange(): void {
+    if (this.changeTimer) {
+      return;
+    }
+    this.changeTimer = setTimeout(() => {
+      this.changeTimer = undefined;
+      this.changeEmitter.fire();
+    }, CHANGE_THROTTLE_MS);
+  }
+}
+
+export function findLastTarget(
+  run: BroadcastRun,
+  terminal: vscode.Terminal
+): BroadcastTargetResult | undefined {
+  for (let index = run.targets.length - 1; index >= 0; index -= 1) {
+    if (run.targets[index].terminal === terminal) {
+      return run.targets[index];
+    }
+  }
+  return undefined;
+}
+
+export function isTargetSettled(target: BroadcastTargetResult): boolean {
+  return (
+    target.retryAt === undefined && target.status !== "pending" && target.status !== "running"
+  );
+}
+
+export function getTargetDurationMs(target: BroadcastTargetResult): number | undefined {
+  if (target.startedAt === undefined || target.endedAt === undefined) {
+    return undefined;
+  }
+  return Math.max(0, target.endedAt - target.startedAt);
+}
+
+export function getTargetOutcome(target: BroadcastTargetResult): BroadcastTargetOutcome {
+  if (!isTargetSettled(target)) {
+    return "pending";
+  }
+  if (target.executions.length === 0) {
+    return target.status === "noExecution" ? "notStarted" : "unknown";
+  }
+  if (target.executions.some((item) => item.exitCode !== undefined && item.exitCode !== 0)) {
+    return "failed";
+  }
+  if (target.executions.every((item) => item.exitCode === 0)) {
+    return "succeeded";
+  }
+  return "unknown";
+}
+
+export function getTargetExitCode(target: BroadcastTargetResult): number | undefined {
+  const failed = target.executions.find(
+    (item) => item.exitCode !== undefined && item.exitCode !== 0
+  );
+  return failed?.exitCode ?? target.executions[target.executions.length - 1]?.exitCode;
+}
+
+export function summarizeRun(run: BroadcastRun): BroadcastRunSummary {
+  const summary: BroadcastRunSummary = {
+    sent: run.targets.length,
+    succeeded: 0,
+    failed: 0,
+    notStarted: 0,
+    unknown: 0,
+    pending: 0,
+    aborted: run.aborted?.terminals.length ?? 0,
+    skipped: run.skipped?.length ?? 0,
+    retried: run.targets.filter((target) => target.attempt > 1).length
+  };
+  for (const target of run.targets) {
+    switch (getTargetOutcome(target)) {
+      case "succeeded":
+        summary.succeeded += 1;
+        break;
+      case "failed":
+        summary.failed += 1;
+        break;
+      case "notStarted":
+        summary.notStarted += 1;
+        break;
+      case "pending":
+        summary.pending += 1;
+        break;
+      default:
+        summary.unknown += 1;
+        break;
+    }
+  }
+  return summary;
+}
+
+export function formatRunSummary(summary: BroadcastRunSummary): string {
+  let text = formatSentSummary(summary);
+  if (summary.retried > 0) {
+    text = vscode.l10n.t("{0}, {1} retried", text, String(summary.retried));
+  }
+  if (summary.skipped > 0) {
+    text = vscode.l10n.t("{0}, {1} skipped", text, String(summary.skipped));
+  }
+  return summary.aborted > 0
+    ? vscode.l10n.t("{0}, {1} aborted", text, String(summary.aborted))
+    : text;
+}
+
+function formatSentSummary(summary: BroadcastRunSummary): string {
+  if (summary.notStarted > 0) {
+    return vscode.l10n.t(
+      "{0} sent, {1} succeeded, {2} failed, {3} not started",
+      String(summary.sent),
+      String(summary.succeeded),
+      String(summary.failed),
+      String(summary.notStarted)
+    );
+  }
+  return vscode.l10n.t(
+    "{0} sent, {1} succeeded, {2} failed",
+    String(summary.sent),
+    String(summary.succeeded),
+    String(summary.failed)
+  );
+}
+
+function appendOutput(target: BroadcastTargetResult, text: string): void {
+  if (!text) {
+    return;
+  }
+  const combined = target.output + text;
+  if (combined.length > MAX_OUTPUT_CHARS) {
+    target.output = combined.slice(-MAX_OUTPUT_CHARS);
+    target.outputTruncated = true;
+    return;
+  }
+  target.output = combined;
+}
+
+function countCommandLines(command: string): number {
+  const lines = command
+    .replace(/\r\n/g, "\n")
+    .replace(/\r/g, "\n")
+    .split("\n")
+    .filter((line) => line.trim().length > 0);
+  return Math.max(1, lines.length);
+}
+
+function clearTimer(timer: NodeJS.Timeout | undefined): void {
+  if (timer) {
+    clearTimeout(timer);
+  }
+}
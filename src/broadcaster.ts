@@ -1,78 +1,307 @@
 import * as vscode from "vscode";
+import {
+  AuditOutcome,
+  AuditSkipReason,
+  BroadcastAuditLog,
+  BroadcastSource
+} from "./auditLog";
+import {
+  BroadcastRun,
+  BroadcastRunTracker,
+  BroadcastTargetResult,
+  CanaryReport,
+  findLastTarget,
+  getTargetExitCode,
+  getTargetOutcome,
+  isTargetSettled
+} from "./broadcastRuns";
+import { CommandPolicyStore, formatPolicyHits, PolicyDecision } from "./commandPolicy";
+import { InputMode, parseInputPrefix, translateKeySequence } from "./keySequences";
+import {
+  CompiledTemplate,
+  compileTemplate,
+  literalTemplate,
+  PlaceholderContext,
+  renderTemplate
+} from "./placeholders";
+import {
+  compileRetryPolicy,
+  CompiledRetryPolicy,
+  getRetryDelayMs,
+  isRetryEnabled,
+  RetryPolicy,
+  shouldRetryTarget
+} from "./retryPolicy";
+import { ShellTypeRegistry } from "./shellTypes";
+import { InventoryHostRegistry } from "./sshInventory";
+import { inferGroupId } from "./terminalGroups";
+import { TerminalManager } from "./terminalManager";
 import { isReadyState, TerminalState, TerminalStateManager } from "./terminalStateManager";
 
+const ITEM_QUEUE_PROBE_MS = 200;
+const ROLLING_PROBE_MS = 1000;
+const BRACKETED_PASTE_START = "\u001b[200~";
+const BRACKETED_PASTE_END = "\u001b[201~";
+const CTRL_C = "\u0003";
+const ESCAPE = "\u001b";
+
+/**
+ * How a multi-line payload reaches the terminal. `lineByLine` submits every
+ * line separately; `bracketedPaste` wraps the whole text in ESC[200~ ... ESC[201~
+ * and submits once, so CLIs and heredocs receive it as a single input.
+ */
+export type PayloadMode = "lineByLine" | "bracketedPaste";
+
 export interface BroadcastOptions {
   requireConfirmBeforeBroadcast: boolean;
   enableSensitiveCommandGuard: boolean;
-  sensitiveKeywords: string[];
   waveThreshold: number;
   waveDelayMs: number;
+  dispatchConcurrency: number;
+  submitWithFocus: boolean;
+  payloadMode: PayloadMode | "auto";
+  cliPayloadModes: Record<string, PayloadMode>;
+  cliInterruptKey: "escape" | "ctrlC";
+  canaryCount: number;
+  canaryTimeoutMs: number;
+  canarySuccessPattern: string;
+  rollingWindow: number;
+  rollingStopOnFailure: boolean;
+  rollingMaxFailures: number;
+  retry: RetryPolicy;
 }
 
 export interface AutomatedBroadcastBehavior {
   readyOnly?: boolean;
+  inputMode?: InputMode;
+  source?: BroadcastSource;
+  /** Applies the configured retry policy; interactive broadcasts always do. */
+  retry?: boolean;
+  /** Per-terminal command text replacing the shared command, with the same placeholders. */
+  commands?: Map<vscode.Terminal, string>;
+}
+
+export type ItemDistributionMode = "one-to-one" | "round-robin";
+
+/**
+ * Values for the `{item}` placeholder. `one-to-one` hands each terminal one
+ * value and lets whichever terminal becomes ready first take the next queued
+ * value; `round-robin` assigns values to terminals up front (1, N+1, 2N+1...)
+ * and sends each terminal's next value once it is ready again.
+ */
+export interface BroadcastItems {
+  values: string[];
+  mode: ItemDistributionMode;
+}
+
+/**
+ * Sends to canary terminals first and fans out to the rest only once every
+ * canary exits with code 0 or its output matches the success pattern. Marked
+ * terminals are the canaries when any are among the targets, otherwise the
+ * first `canaryCount` targets are.
+ */
+export interface CanaryRequest {
+  marked?: vscode.Terminal[];
+  successPattern?: string;
 }
 
 export interface InteractiveBroadcastBehavior {
   skipBusyFilter?: boolean;
   waitUntilReadyMs?: number;
   allowForceAfterReadyTimeout?: boolean;
+  items?: BroadcastItems;
+  payloadMode?: PayloadMode;
+  inputMode?: InputMode;
+  source?: BroadcastSource;
+  canary?: CanaryRequest;
+  /** Rolling mode: at most this many terminals run the command at once. */
+  rollingWindow?: number;
+  /** Sends the text as written: no `keys:` prefix, placeholders or trimming. */
+  raw?: boolean;
+}
+
+export interface DryRunTarget {
+  terminal: vscode.Terminal;
+  index: number;
+  state: string;
+  busy: boolean;
+  item?: string;
+  command?: string;
+  error?: string;
+  policy: PolicyDecision;
+}
+
+export interface BroadcastDryRun {
+  command: string;
+  targets: DryRunTarget[];
+  queuedItems: number;
+}
+
+interface AuditDraft {
+  timestamp: string;
+  source: BroadcastSource;
+  command: string;
+  inputMode: InputMode;
+  skipped: Array<{ terminal: vscode.Terminal; reason: AuditSkipReason }>;
+  policy: Array<{ terminal: vscode.Terminal; decision: PolicyDecision }>;
+  outcome?: AuditOutcome;
+}
+
+interface DispatchContext {
+  run: BroadcastRun;
+  terminals: vscode.Terminal[];
+  template: CompiledTemplate;
+  options: BroadcastOptions;
+  inputMode: InputMode;
+  audit: AuditDraft;
+  templates?: Map<vscode.Terminal, CompiledTemplate>;
+}
+
+/** Targets sent right away, and the rest held back for a canary check or a rolling window. */
+interface RolloutPlan {
+  first: DispatchTarget[];
+  rest: DispatchTarget[];
+  canary?: { pattern?: RegExp };
+  rollingWindow?: number;
+}
+
+interface DispatchTarget {
+  terminal: vscode.Terminal;
+  item?: string;
+}
+
+interface ItemDispatchPlan {
+  initial: DispatchTarget[];
+  perTerminal: Map<vscode.Terminal, string[]>;
+  shared: string[];
 }
 
 export class Broadcaster {
-  constructor(private readonly terminalStateManager: TerminalStateManager) {}
+  private readonly sendQueues = new Map<vscode.Terminal, Promise<void>>();
+  private readonly interruptMarks = new WeakMap<vscode.Terminal, number>();
+  private readonly runEpochs = new WeakMap<BroadcastRun, number>();
+  private interruptEpoch = 0;
+
+  constructor(
+    private readonly terminalStateManager: TerminalStateManager,
+    private readonly terminalManager: TerminalManager,
+    private readonly runTracker: BroadcastRunTracker,
+    private readonly shellTypes: ShellTypeRegistry,
+    private readonly commandPolicy: CommandPolicyStore,
+    private readonly auditLog: BroadcastAuditLog,
+    private readonly inventoryHosts: InventoryHostRegistry
+  ) {}
 
   public async broadcast(
     terminals: vscode.Terminal[],
     command: string,
     options: BroadcastOptions,
     behavior: InteractiveBroadcastBehavior = {}
-  ): Promise<number> {
-    const text = command.trim();
-    if (!text || terminals.length === 0) {
-      return 0;
+  ): Promise<BroadcastRun | undefined> {
+    const input = behavior.raw
+      ? { text: command, keys: false }
+      : parseInputPrefix(command.trim());
+    const text = input.text;
+    const inputMode: InputMode = input.keys ? "keys" : behavior.inputMode ?? "text";
+    if (!text.trim() || terminals.length === 0) {
+      return undefined;
+    }
+
+    const audit = createAuditDraft(behavior.source ?? "panel", text, inputMode);
+    let template: CompiledTemplate;
+    let canaryPattern: RegExp | undefined;
+    let retry: CompiledRetryPolicy | undefined;
+    try {
+      template = behavior.raw ? literalTemplate(text) : compileTemplate(text);
+      if (template.usesItem && !behavior.items?.values.length) {
+        throw new Error(vscode.l10n.t("The {item} placeholder needs a value list."));
+      }
+      if (inputMode === "keys") {
+        translateKeySequence(text);
+      }
+      canaryPattern = compileCanaryPattern(
+        behavior.canary?.successPattern ?? options.canarySuccessPattern
+      );
+      retry = isRetryEnabled(options.retry) ? compileRetryPolicy(options.retry) : undefined;
+    } catch (error) {
+      void vscode.window.showErrorMessage(
+        vscode.l10n.t("Broadcast canceled: {0}", toErrorMessage(error))
+      );
+      this.finishAudit(audit, "failed", undefined, error);
+      return undefined;
     }
 
     const deduped = [...new Set(terminals)];
     const candidates = behavior.skipBusyFilter
       ? deduped
       : await this.filterBusyTerminals(deduped);
+    recordSkipped(audit, deduped, candidates, "busy");
     if (candidates.length === 0) {
-      return 0;
+      this.finishAudit(audit, "canceled");
+      return undefined;
+    }
+    let rendered: Map<vscode.Terminal, string>;
+    try {
+      rendered = await this.renderTargets(candidates, template, behavior.items);
+    } catch (error) {
+      void vscode.window.showErrorMessage(
+        vscode.l10n.t("Broadcast canceled: {0}", toErrorMessage(error))
+      );
+      this.finishAudit(audit, "failed", undefined, error);
+      return undefined;
     }
 
-    const shouldContinue = await this.confirmBroadcast(candidates.length, text, options);
-    if (!shouldContinue) {
-      return 0;
+    const permitted = await this.confirmBroadcast(candidates, rendered, options, audit);
+    if (!permitted) {
+      this.finishAudit(audit, audit.outcome ?? "canceled");
+      return undefined;
     }
+    recordSkipped(audit, candidates, permitted, "policyBlocked");
 
     const waitMs = Math.max(0, Math.round(behavior.waitUntilReadyMs ?? 0));
     let readyCandidates =
-      waitMs > 0 ? await this.waitForReadyCandidates(candidates, waitMs) : candidates;
+      waitMs > 0 ? await this.waitForReadyCandidates(permitted, waitMs) : permitted;
     if (
       behavior.allowForceAfterReadyTimeout &&
-      readyCandidates.length < candidates.length
+      readyCandidates.length < permitted.length
     ) {
-      readyCandidates = candidates;
+      readyCandidates = permitted;
     }
+    recordSkipped(audit, permitted, readyCandidates, "notReady");
     if (readyCandidates.length === 0) {
       void vscode.window.showWarningMessage(
         vscode.l10n.t("No ready terminal available for broadcast.")
       );
-      return 0;
+      this.finishAudit(audit, "canceled");
+      return undefined;
     }
 
-    if (readyCandidates.length < candidates.length) {
+    if (readyCandidates.length < permitted.length) {
       void vscode.window.showWarningMessage(
         vscode.l10n.t(
           "Some terminals are still busy after waiting. Sent to {0}/{1} ready terminal(s).",
           String(readyCandidates.length),
-          String(candidates.length)
+          String(permitted.length)
         )
       );
     }
 
-    return this.dispatchResolvedCommands(readyCandidates, text, options);
+    return this.dispatchResolvedCommands(
+      readyCandidates,
+      text,
+      template,
+      behavior.payloadMode ? { ...options, payloadMode: behavior.payloadMode } : options,
+      {
+        notify: true,
+        items: behavior.items,
+        inputMode,
+        audit,
+        rendered,
+        canary: behavior.canary ? { ...behavior.canary, pattern: canaryPattern } : undefined,
+        rollingWindow: behavior.rollingWindow,
+        retry
+      }
+    );
   }
 
   public async broadcastNonInteractive(
@@ -80,10 +309,35 @@ export class Broadcaster {
     command: string,
     options: BroadcastOptions,
     behavior: AutomatedBroadcastBehavior = {}
-  ): Promise<number> {
-    const text = command.trim();
+  ): Promise<BroadcastRun | undefined> {
+    const input = parseInputPrefix(command.trim());
+    const text = input.text;
+    const inputMode: InputMode = input.keys ? "keys" : behavior.inputMode ?? "text";
     if (!text || terminals.length === 0) {
-      return 0;
+      return undefined;
+    }
+
+    const audit = createAuditDraft(behavior.source ?? "chain", text, inputMode);
+    let template: CompiledTemplate;
+    let retry: CompiledRetryPolicy | undefined;
+    const templates = new Map<vscode.Terminal, CompiledTemplate>();
+    try {
+      template = compileTemplate(text);
+      for (const [terminal, override] of behavior.commands ?? []) {
+        templates.set(terminal, compileTemplate(override));
+      }
+      if ([template, ...templates.values()].some((item) => item.usesItem)) {
+        throw new Error(vscode.l10n.t("The {item} placeholder is only available for interactive broadcasts."));
+      }
+      if (inputMode === "keys") {
+        translateKeySequence(text);
+      }
+      if (behavior.retry && isRetryEnabled(options.retry)) {
+        retry = compileRetryPolicy(options.retry);
+      }
+    } catch (error) {
+      this.finishAudit(audit, "failed", undefined, error);
+      throw error;
     }
 
     const deduped = [...new Set(terminals)];
@@ -94,15 +348,50 @@ export class Broadcaster {
       : deduped;
 
     if (candidates.length === 0) {
-      return 0;
+      // Nothing was sent or decided; logging every idle polling tick would bury real sends.
+      return undefined;
+    }
+    recordSkipped(audit, deduped, candidates, "notReady");
+    let rendered: Map<vscode.Terminal, string>;
+    try {
+      rendered = await this.renderTargets(candidates, template, undefined, templates);
+    } catch (error) {
+      this.finishAudit(audit, "failed", undefined, error);
+      throw error;
+    }
+
+    // Automation cannot answer prompts, so commands that need confirmation are refused too.
+    const decisions = await this.evaluatePolicy(candidates, rendered, options);
+    recordPolicyDecisions(audit, candidates, decisions);
+    const refused = (decision: PolicyDecision) =>
+      decision.severity === "block" || decision.severity === "confirm";
+    const permitted = candidates.filter((_, index) => !refused(decisions[index]));
+    recordSkipped(audit, candidates, permitted, "policyBlocked");
+    if (permitted.length === 0) {
+      const hits = decisions
+        .flatMap((decision) => decision.hits)
+        .filter((hit) => hit.severity !== "warn");
+      const error = new Error(
+        `Blocked by command policy (confirmation is only possible for interactive broadcasts): ${formatPolicyHits(uniqueHits(hits)).replace(/\n/g, "; ")}`
+      );
+      this.finishAudit(audit, "blocked", undefined, error);
+      throw error;
     }
 
-    return this.dispatchResolvedCommands(candidates, text, options);
+    return this.dispatchResolvedCommands(permitted, text, template, options, {
+      notify: false,
+      inputMode,
+      audit,
+      rendered,
+      retry,
+      templates
+    });
   }
 
-  private async filterBusyTerminals(
-    terminals: vscode.Terminal[]
-  ): Promise<vscode.Terminal[]> {
+  private partitionBusyTerminals(terminals: vscode.Terminal[]): {
+    ready: vscode.Terminal[];
+    busy: Array<{ terminal: vscode.Terminal; state: TerminalState }>;
+  } {
     const ready: vscode.Terminal[] = [];
     const busy: Array<{ terminal: vscode.Terminal; state: TerminalState }> = [];
 
@@ -114,6 +403,14 @@ export class Broadcaster {
         busy.push({ terminal, state });
       }
     }
+    return { ready, busy };
+  }
+
+  /** Asks whether to skip busy terminals; resolves empty when canceled. */
+  public async filterBusyTerminals(
+    terminals: vscode.Terminal[]
+  ): Promise<vscode.Terminal[]> {
+    const { ready, busy } = this.partitionBusyTerminals(terminals);
 
     if (busy.length === 0) {
       return terminals;
@@ -146,79 +443,749 @@ export class Broadcaster {
     return [];
   }
 
+  /**
+   * Applies the command policy to each terminal's rendered command, then the
+   * optional broadcast confirmation. Returns the terminals that may receive
+   * the command, or undefined when the user cancels.
+   */
   private async confirmBroadcast(
-    count: number,
-    command: string,
-    options: BroadcastOptions
-  ): Promise<boolean> {
-    if (options.enableSensitiveCommandGuard && this.containsSensitiveCommand(command, options)) {
+    terminals: vscode.Terminal[],
+    rendered: Map<vscode.Terminal, string>,
+    options: BroadcastOptions,
+    audit: AuditDraft
+  ): Promise<vscode.Terminal[] | undefined> {
+    const decisions = await this.evaluatePolicy(terminals, rendered, options);
+    recordPolicyDecisions(audit, terminals, decisions);
+    const blocked = terminals.filter((_, index) => decisions[index].severity === "block");
+    const allowedDecisions = decisions.filter((decision) => decision.severity !== "block");
+    const allowed = terminals.filter((_, index) => decisions[index].severity !== "block");
+
+    if (blocked.length > 0) {
+      const blockedHits = decisions
+        .filter((decision) => decision.severity === "block")
+        .flatMap((decision) => decision.hits);
+      if (allowed.length === 0) {
+        void vscode.window.showErrorMessage(
+          vscode.l10n.t("Broadcast blocked by command policy."),
+          { modal: true, detail: formatPolicyHits(uniqueHits(blockedHits)) }
+        );
+        audit.outcome = "blocked";
+        return undefined;
+      }
+      const sendToOthers = vscode.l10n.t("Send to Others");
+      const picked = await vscode.window.showWarningMessage(
+        vscode.l10n.t(
+          "Command policy blocks this command in {0}/{1} terminal(s): {2}",
+          String(blocked.length),
+          String(terminals.length),
+          blocked.map((terminal) => terminal.name).join(", ")
+        ),
+        { modal: true, detail: formatPolicyHits(uniqueHits(blockedHits)) },
+        sendToOthers
+      );
+      if (picked !== sendToOthers) {
+        return undefined;
+      }
+    }
+
+    const hits = uniqueHits(allowedDecisions.flatMap((decision) => decision.hits));
+    if (allowedDecisions.some((decision) => decision.severity === "confirm")) {
+      const expected = String(allowed.length);
+      const typed = await vscode.window.showInputBox({
+        title: vscode.l10n.t("Command policy confirmation"),
+        prompt: vscode.l10n.t(
+          "{0} Type {1} to send to {1} terminal(s).",
+          formatPolicyHits(hits).replace(/\n/g, "; "),
+          expected
+        ),
+        ignoreFocusOut: true,
+        validateInput: (value) =>
+          value.trim() === expected
+            ? undefined
+            : vscode.l10n.t("Type {0} to confirm.", expected)
+      });
+      if (typed?.trim() !== expected) {
+        return undefined;
+      }
+    } else if (hits.length > 0) {
       const guarded = await vscode.window.showWarningMessage(
         vscode.l10n.t(
           "Potentially destructive keyword detected. Continue only if you are sure."
         ),
-        { modal: true },
+        { modal: true, detail: formatPolicyHits(hits) },
         vscode.l10n.t("Send Anyway")
       );
       if (guarded !== vscode.l10n.t("Send Anyway")) {
-        return false;
+        return undefined;
       }
     }
 
     if (options.requireConfirmBeforeBroadcast) {
       const confirmed = await vscode.window.showWarningMessage(
-        vscode.l10n.t("Broadcast this command to {0} terminal(s)?", String(count)),
+        vscode.l10n.t("Broadcast this command to {0} terminal(s)?", String(allowed.length)),
         { modal: true },
         vscode.l10n.t("Send")
       );
-      return confirmed === vscode.l10n.t("Send");
+      return confirmed === vscode.l10n.t("Send") ? allowed : undefined;
     }
 
-    return true;
+    return allowed;
   }
 
-  private containsSensitiveCommand(command: string, options: BroadcastOptions): boolean {
-    const normalized = command.toLowerCase();
-    return options.sensitiveKeywords.some((keyword) => {
-      const target = keyword.trim().toLowerCase();
-      return !!target && normalized.includes(target);
-    });
+  private async evaluatePolicy(
+    terminals: vscode.Terminal[],
+    commands: Map<vscode.Terminal, string>,
+    options: BroadcastOptions
+  ): Promise<PolicyDecision[]> {
+    if (!options.enableSensitiveCommandGuard) {
+      return terminals.map(() => ({ hits: [] }));
+    }
+    const policy = await this.commandPolicy.getPolicy();
+    return terminals.map((terminal) =>
+      policy.evaluate(commands.get(terminal) ?? "", {
+        name: terminal.name,
+        group: inferGroupId(terminal.name)
+      })
+    );
+  }
+
+  /**
+   * Sends Ctrl+C to shells, and Esc or Ctrl+C (per `cliInterruptKey`) to
+   * interactive CLI sessions. Sends and `{item}` values still queued for these
+   * terminals are dropped. Returns the number of terminals interrupted.
+   */
+  public interrupt(terminals: vscode.Terminal[], options: BroadcastOptions): number {
+    const open = [...new Set(terminals)].filter((terminal) =>
+      vscode.window.terminals.includes(terminal)
+    );
+    this.interruptEpoch += 1;
+    for (const terminal of open) {
+      this.interruptMarks.set(terminal, this.interruptEpoch);
+      const useEscape =
+        options.cliInterruptKey === "escape" &&
+        this.terminalStateManager.isInteractiveCliSession(terminal);
+      terminal.sendText(useEscape ? ESCAPE : CTRL_C, false);
+    }
+    return open.length;
   }
 
-  private injectPlaceholders(
+  /**
+   * Resolves the command for every target without sending anything, along with
+   * the busy state and policy decision each target would get.
+   */
+  public async planDryRun(
+    terminals: vscode.Terminal[],
     command: string,
+    options: BroadcastOptions,
+    items?: BroadcastItems
+  ): Promise<BroadcastDryRun> {
+    const text = command.trim();
+    const deduped = [...new Set(terminals)];
+    const template = compileTemplate(text);
+    if (template.usesItem && !items?.values.length) {
+      throw new Error(vscode.l10n.t("The {item} placeholder needs a value list."));
+    }
+
+    const { busy } = this.partitionBusyTerminals(deduped);
+    const plan = planItemDispatch(deduped, template.usesItem ? items : undefined);
+    const policy = options.enableSensitiveCommandGuard
+      ? await this.commandPolicy.getPolicy()
+      : undefined;
+
+    const targets: DryRunTarget[] = [];
+    for (const [position, terminal] of deduped.entries()) {
+      const item = plan.initial.find((target) => target.terminal === terminal)?.item;
+      const busyState = busy.find((entry) => entry.terminal === terminal)?.state;
+      let resolved: string | undefined;
+      let error: string | undefined;
+      try {
+        resolved = renderTemplate(
+          template,
+          await this.buildPlaceholderContext(terminal, position + 1, deduped.length, template, item)
+        );
+      } catch (renderError) {
+        error = toErrorMessage(renderError);
+      }
+      targets.push({
+        terminal,
+        index: position + 1,
+        state: toStateText(busyState ?? this.terminalStateManager.getState(terminal)),
+        busy: busyState !== undefined,
+        item,
+        command: resolved,
+        error,
+        policy: policy?.evaluate(resolved ?? text, {
+          name: terminal.name,
+          group: inferGroupId(terminal.name)
+        }) ?? { hits: [] }
+      });
+    }
+
+    return {
+      command: text,
+      targets,
+      queuedItems:
+        plan.shared.length +
+        [...plan.perTerminal.values()].reduce((sum, queued) => sum + queued.length, 0)
+    };
+  }
+
+  /**
+   * Resolves placeholders for a single terminal without sending anything.
+   * Throws on an unknown placeholder or one without a value for this terminal.
+   */
+  public async previewCommand(
     terminal: vscode.Terminal,
-    index: number
-  ): string {
-    const terminalName = terminal.name ?? "";
-    return command
-      .replace(/\{index\}/g, String(index))
-      .replace(/\{name:quoted\}/g, this.quoteForShell(terminalName))
-      .replace(/\{name\}/g, terminalName);
+    command: string,
+    index: number,
+    count: number,
+    item?: string
+  ): Promise<string> {
+    const template = compileTemplate(command);
+    return renderTemplate(
+      template,
+      await this.buildPlaceholderContext(terminal, index, count, template, item)
+    );
   }
 
-  private quoteForShell(value: string): string {
-    return `"${value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"")}"`;
+  /**
+   * Renders every target's command before anything is sent, so a placeholder
+   * without a value cancels the whole broadcast. Templates with `{item}` are
+   * rendered once per value, one command per line.
+   */
+  private async renderTargets(
+    terminals: vscode.Terminal[],
+    template: CompiledTemplate,
+    items?: BroadcastItems,
+    templates?: Map<vscode.Terminal, CompiledTemplate>
+  ): Promise<Map<vscode.Terminal, string>> {
+    const rendered = new Map<vscode.Terminal, string>();
+    for (const [position, terminal] of terminals.entries()) {
+      const own = templates?.get(terminal) ?? template;
+      const context = await this.buildPlaceholderContext(
+        terminal,
+        position + 1,
+        terminals.length,
+        own
+      );
+      const values = own.usesItem ? items?.values ?? [] : [undefined];
+      try {
+        rendered.set(
+          terminal,
+          values.map((item) => renderTemplate(own, { ...context, item })).join("\n")
+        );
+      } catch (error) {
+        throw new Error(`${terminal.name}: ${toErrorMessage(error)}`);
+      }
+    }
+    return rendered;
+  }
+
+  private async buildPlaceholderContext(
+    terminal: vscode.Terminal,
+    index: number,
+    count: number,
+    template: CompiledTemplate,
+    item?: string
+  ): Promise<PlaceholderContext> {
+    const name = terminal.name ?? "";
+    return {
+      name,
+      index,
+      count,
+      group: inferGroupId(name),
+      pid: template.usesPid ? await this.terminalManager.getPid(terminal) : undefined,
+      cwd: template.usesCwd ? terminal.shellIntegration?.cwd?.fsPath : undefined,
+      item,
+      host: this.inventoryHosts.get(terminal),
+      shellType: this.shellTypes.getShellType(terminal),
+      now: new Date(),
+      env: process.env
+    };
   }
 
   private async dispatchResolvedCommands(
     terminals: vscode.Terminal[],
     command: string,
-    options: BroadcastOptions
-  ): Promise<number> {
+    template: CompiledTemplate,
+    options: BroadcastOptions,
+    request: {
+      notify: boolean;
+      items?: BroadcastItems;
+      inputMode: InputMode;
+      audit: AuditDraft;
+      /** Resolved command per terminal, recorded before anything is sent. */
+      rendered: Map<vscode.Terminal, string>;
+      canary?: { marked?: vscode.Terminal[]; pattern?: RegExp };
+      rollingWindow?: number;
+      retry?: CompiledRetryPolicy;
+      templates?: Map<vscode.Terminal, CompiledTemplate>;
+    }
+  ): Promise<BroadcastRun> {
     const waveThreshold = Math.max(1, options.waveThreshold);
     const waveDelayMs = Math.max(0, options.waveDelayMs);
 
-    const useWave = terminals.length > waveThreshold;
-    for (let i = 0; i < terminals.length; i += 1) {
+    const run = this.runTracker.beginRun(command, request.notify);
+    this.runEpochs.set(run, this.interruptEpoch);
+    const context: DispatchContext = {
+      run,
+      terminals,
+      template,
+      options,
+      inputMode: request.inputMode,
+      audit: request.audit,
+      templates: request.templates
+    };
+    if (request.retry) {
+      this.superviseRetries(context, request.retry);
+    }
+    const plan = planItemDispatch(terminals, request.items);
+    const useWave = plan.initial.length > waveThreshold;
+    const staggerMs = useWave ? waveDelayMs : 0;
+    const rollout = planRollout(plan.initial, request, options);
+    // Canary, rolling and item rollouts append their outcome only once they
+    // finish, which may be never if the window closes; record the start first.
+    await this.writePlannedAudit(
+      request.audit,
+      "started",
+      new Map(terminals.map((terminal) => [terminal, request.rendered.get(terminal) ?? command])),
+      run
+    );
+    try {
+      await this.dispatchWithConcurrency(
+        rollout.first,
+        this.getDispatchConcurrency(options),
+        staggerMs,
+        (target) => this.dispatchToTarget(context, target)
+      );
+    } catch (error) {
+      this.runTracker.sealRun(run);
+      this.finishAudit(request.audit, "failed", run, error);
+      throw error;
+    }
+
+    if (rollout.canary || rollout.rest.length > 0 || hasQueuedItems(plan)) {
+      void this.continueRollout(context, plan, rollout, staggerMs)
+        .catch(() => {
+          // Targets not reached and values still queued show up in the run report.
+        })
+        .finally(() => {
+          this.runTracker.sealRun(run);
+          this.finishAudit(request.audit, "sent", run);
+        });
+    } else {
+      this.runTracker.sealRun(run);
+      this.finishAudit(request.audit, "sent", run);
+    }
+    return run;
+  }
+
+  /**
+   * Schedules a resend for each target of the run that fails in a retryable
+   * way. The pending retry keeps the target unsettled, so canary checks,
+   * rolling windows and the run itself wait for the final attempt.
+   */
+  private superviseRetries(context: DispatchContext, policy: CompiledRetryPolicy): void {
+    const { run } = context;
+    const subscription = this.runTracker.onDidSettleTarget((target) => {
+      if (
+        !run.targets.includes(target) ||
+        this.runTracker.getLatestTarget(target.terminal) !== target ||
+        !shouldRetryTarget(target, policy)
+      ) {
+        return;
+      }
+      const delayMs = getRetryDelayMs(policy, target.attempt);
+      this.runTracker.scheduleRetry(target, Date.now() + delayMs);
+      setTimeout(() => void this.retryTarget(context, target), delayMs);
+    });
+    void this.runTracker.whenFinished(run).then(() => subscription.dispose());
+  }
+
+  private async retryTarget(context: DispatchContext, target: BroadcastTargetResult): Promise<void> {
+    const { run } = context;
+    if (
+      !vscode.window.terminals.includes(target.terminal) ||
+      this.wasInterrupted(target.terminal, this.runEpochs.get(run) ?? 0) ||
+      this.runTracker.getLatestTarget(target.terminal) !== target
+    ) {
+      this.runTracker.cancelRetry(run, target);
+      return;
+    }
+    this.runTracker.retryTarget(run, target);
+    try {
       await this.sendResolvedCommand(
-        terminals[i],
-        this.injectPlaceholders(command, terminals[i], i + 1)
+        target.terminal,
+        target.command,
+        context.options,
+        context.inputMode
+      );
+    } catch {
+      // The start timeout settles the attempt as not started.
+    }
+  }
+
+  private finishAudit(
+    audit: AuditDraft,
+    outcome: AuditOutcome,
+    run?: BroadcastRun,
+    error?: unknown
+  ): void {
+    void this.writeAudit(audit, outcome, run, error);
+  }
+
+  private async writeAudit(
+    audit: AuditDraft,
+    outcome: AuditOutcome,
+    run: BroadcastRun | undefined,
+    error: unknown
+  ): Promise<void> {
+    const targets = await Promise.all(
+      (run?.targets ?? []).map(async (target) => ({
+        name: target.name,
+        pid: await this.terminalManager.getPid(target.terminal),
+        command: target.command,
+        item: target.item
+      }))
+    );
+    const skipped = await Promise.all(
+      audit.skipped.map(async ({ terminal, reason }) => ({
+        name: terminal.name,
+        pid: await this.terminalManager.getPid(terminal),
+        reason
+      }))
+    );
+    await this.auditLog.append({
+      timestamp: audit.timestamp,
+      source: audit.source,
+      command: audit.command,
+      inputMode: audit.inputMode,
+      outcome,
+      runId: run?.id,
+      error: error === undefined ? undefined : toErrorMessage(error),
+      targets,
+      skipped,
+      policy: audit.policy.map(({ terminal, decision }) => ({
+        name: terminal.name,
+        severity: decision.severity,
+        rules: decision.hits.map((hit) => hit.ruleId)
+      }))
+    });
+  }
+
+  /** An audit entry listing what each terminal is about to receive. */
+  private async writePlannedAudit(
+    audit: AuditDraft,
+    outcome: AuditOutcome,
+    commands: Map<vscode.Terminal, string>,
+    run?: BroadcastRun
+  ): Promise<void> {
+    const targets = await Promise.all(
+      [...commands].map(async ([terminal, command]) => ({
+        name: terminal.name,
+        pid: await this.terminalManager.getPid(terminal),
+        command
+      }))
+    );
+    await this.auditLog.append({
+      timestamp: audit.timestamp,
+      source: audit.source,
+      command: audit.command,
+      inputMode: audit.inputMode,
+      outcome,
+      runId: run?.id,
+      targets,
+      skipped: [],
+      policy: []
+    });
+  }
+
+  private async continueRollout(
+    context: DispatchContext,
+    plan: ItemDispatchPlan,
+    rollout: RolloutPlan,
+    staggerMs: number
+  ): Promise<void> {
+    const { run, options } = context;
+    if (rollout.canary) {
+      const canaryTerminals = rollout.first.map((target) => target.terminal);
+      const report: CanaryReport = {
+        terminals: canaryTerminals.map((terminal) => terminal.name),
+        status: "verifying"
+      };
+      this.runTracker.setCanary(run, report);
+      const failure = await this.verifyCanary(
+        run,
+        canaryTerminals,
+        rollout.canary.pattern,
+        options.canaryTimeoutMs
+      );
+      this.runTracker.setCanary(run, { ...report, status: failure ? "failed" : "passed" });
+      if (failure) {
+        this.abortRollout(context, failure, rollout.rest);
+        return;
+      }
+    }
+
+    if (rollout.rollingWindow) {
+      const stopped = await this.dispatchRolling(
+        context,
+        rollout.rest,
+        rollout.canary ? [] : rollout.first.map((target) => target.terminal),
+        rollout.rollingWindow
       );
-      if (i < terminals.length - 1 && useWave && waveDelayMs > 0) {
-        await delay(waveDelayMs);
+      if (stopped) {
+        this.abortRollout(context, stopped.reason, stopped.pending);
+        return;
       }
+    } else {
+      await this.dispatchWithConcurrency(
+        rollout.rest,
+        this.getDispatchConcurrency(options),
+        staggerMs,
+        (target) => this.dispatchToTarget(context, target)
+      );
+    }
+
+    if (hasQueuedItems(plan)) {
+      await this.drainItemQueue(context, plan);
+    }
+  }
+
+  private abortRollout(context: DispatchContext, reason: string, notSent: DispatchTarget[]): void {
+    const { run } = context;
+    const terminals = notSent.map((target) => target.terminal);
+    for (const terminal of terminals) {
+      context.audit.skipped.push({ terminal, reason: "aborted" });
+    }
+    this.runTracker.abortRun(run, {
+      reason,
+      terminals: terminals.map((terminal) => terminal.name)
+    });
+    if (run.notify) {
+      void vscode.window.showErrorMessage(
+        vscode.l10n.t(
+          "Rollout stopped, {0} terminal(s) not sent to: {1}",
+          String(terminals.length),
+          reason
+        )
+      );
+    }
+  }
+
+  /**
+   * Keeps at most `window` terminals busy with the command. A slot frees up
+   * when its shell execution ends, or, without shell integration, when the
+   * terminal is ready again. Resolves with the reason and the targets left
+   * unsent when the failure limit is reached or the run is interrupted.
+   * Terminals closed before their turn are skipped.
+   */
+  private async dispatchRolling(
+    context: DispatchContext,
+    pending: DispatchTarget[],
+    inFlight: vscode.Terminal[],
+    window: number
+  ): Promise<{ reason: string; pending: DispatchTarget[] } | undefined> {
+    const { run, options } = context;
+    const epoch = this.runEpochs.get(run) ?? 0;
+    const maxFailures = options.rollingStopOnFailure ? 1 : options.rollingMaxFailures;
+    const queue = [...pending];
+    const active = new Set(inFlight);
+    let failures = 0;
+
+    const checkProgress = (): string | undefined => {
+      for (const terminal of [...active]) {
+        const target = findLastTarget(run, terminal);
+        if (!this.isRollingSlotFree(terminal, target)) {
+          continue;
+        }
+        active.delete(terminal);
+        if (target && getTargetOutcome(target) === "failed") {
+          failures += 1;
+        }
+      }
+      if (run.targets.some((target) => this.wasInterrupted(target.terminal, epoch))) {
+        return vscode.l10n.t("The broadcast was interrupted.");
+      }
+      if (maxFailures > 0 && failures >= maxFailures) {
+        return vscode.l10n.t(
+          "{0} terminal(s) failed, reaching the limit of {1}.",
+          String(failures),
+          String(maxFailures)
+        );
+      }
+      return undefined;
+    };
+
+    let next: DispatchTarget | undefined;
+    while ((next = queue.shift())) {
+      let reason = checkProgress();
+      while (!reason && active.size >= window) {
+        await this.waitForRollingProgress();
+        reason = checkProgress();
+      }
+      if (reason) {
+        return { reason, pending: [next, ...queue] };
+      }
+      if (!vscode.window.terminals.includes(next.terminal)) {
+        context.audit.skipped.push({ terminal: next.terminal, reason: "notReady" });
+        this.runTracker.skipTarget(run, next.terminal);
+        continue;
+      }
+      await this.dispatchToTarget(context, next);
+      active.add(next.terminal);
+    }
+    return undefined;
+  }
+
+  private isRollingSlotFree(
+    terminal: vscode.Terminal,
+    target: BroadcastTargetResult | undefined
+  ): boolean {
+    if (!target || !vscode.window.terminals.includes(terminal)) {
+      return true;
+    }
+    if (target.status === "noExecution") {
+      return this.terminalStateManager.isReadyForBroadcast(terminal);
+    }
+    return isTargetSettled(target);
+  }
+
+  private waitForRollingProgress(): Promise<void> {
+    return new Promise((resolve) => {
+      const subscriptions: vscode.Disposable[] = [];
+      let timer: NodeJS.Timeout | undefined;
+      const done = () => {
+        clearTimeout(timer);
+        subscriptions.splice(0).forEach((subscription) => subscription.dispose());
+        resolve();
+      };
+      // The probe also covers targets settled by the tracker's start timeout, which fires no event.
+      timer = setTimeout(done, ROLLING_PROBE_MS);
+      subscriptions.push(
+        this.terminalStateManager.onDidChangeState(done),
+        vscode.window.onDidEndTerminalShellExecution(done)
+      );
+    });
+  }
+
+  /** Resolves with a failure reason, or undefined once every canary passed. */
+  private verifyCanary(
+    run: BroadcastRun,
+    canaries: vscode.Terminal[],
+    successPattern: RegExp | undefined,
+    timeoutMs: number
+  ): Promise<string | undefined> {
+    return new Promise((resolve) => {
+      let subscription: vscode.Disposable | undefined;
+      let timer: NodeJS.Timeout | undefined;
+      const finish = (failure: string | undefined) => {
+        if (!subscription) {
+          return;
+        }
+        subscription.dispose();
+        subscription = undefined;
+        clearTimeout(timer);
+        resolve(failure);
+      };
+      const check = () => {
+        let pending = false;
+        for (const terminal of canaries) {
+          const verdict = checkCanaryTarget(terminal, findLastTarget(run, terminal), successPattern);
+          if (verdict === "pending") {
+            pending = true;
+          } else if (verdict !== "passed") {
+            finish(verdict);
+            return;
+          }
+        }
+        if (!pending) {
+          finish(undefined);
+        }
+      };
+
+      subscription = this.runTracker.onDidChangeRuns(check);
+      timer = setTimeout(() => {
+        finish(
+          vscode.l10n.t(
+            "Canary check timed out after {0}s.",
+            String(Math.round(timeoutMs / 1000))
+          )
+        );
+      }, timeoutMs);
+      check();
+    });
+  }
+
+  private async dispatchToTarget(context: DispatchContext, target: DispatchTarget): Promise<void> {
+    const { run, terminals } = context;
+    const template = context.templates?.get(target.terminal) ?? context.template;
+    if (this.wasInterrupted(target.terminal, this.runEpochs.get(run) ?? 0)) {
+      context.audit.skipped.push({ terminal: target.terminal, reason: "interrupted" });
+      return;
+    }
+    const index = terminals.indexOf(target.terminal) + 1;
+    const resolved = renderTemplate(
+      template,
+      await this.buildPlaceholderContext(
+        target.terminal,
+        index,
+        terminals.length,
+        template,
+        target.item
+      )
+    );
+    const pasted =
+      context.inputMode !== "keys" &&
+      this.resolvePayloadMode(target.terminal, context.options) === "bracketedPaste";
+    this.runTracker.addTarget(run, target.terminal, index, resolved, target.item, pasted);
+    await this.sendResolvedCommand(target.terminal, resolved, context.options, context.inputMode);
+  }
+
+  private async drainItemQueue(context: DispatchContext, plan: ItemDispatchPlan): Promise<void> {
+    const { run, terminals, options } = context;
+    while (true) {
+      const openTerminals = terminals.filter((terminal) =>
+        vscode.window.terminals.includes(terminal)
+      );
+      for (const [terminal, queued] of plan.perTerminal) {
+        if (!openTerminals.includes(terminal) && queued.length > 0) {
+          // Hand values of closed terminals to whoever is still around.
+          plan.shared.push(...queued.splice(0));
+        }
+      }
+      if (openTerminals.length === 0 || !hasQueuedItems(plan)) {
+        return;
+      }
+
+      const ready: DispatchTarget[] = [];
+      for (const terminal of openTerminals) {
+        if (!this.isReadyForNextItem(run, terminal)) {
+          continue;
+        }
+        const item = plan.perTerminal.get(terminal)?.shift() ?? plan.shared.shift();
+        if (item === undefined) {
+          continue;
+        }
+        ready.push({ terminal, item });
+      }
+      await this.dispatchWithConcurrency(
+        ready,
+        this.getDispatchConcurrency(options),
+        0,
+        (target) => this.dispatchToTarget(context, target)
+      );
+
+      await delay(ITEM_QUEUE_PROBE_MS);
+    }
+  }
+
+  private isReadyForNextItem(run: BroadcastRun, terminal: vscode.Terminal): boolean {
+    const last = findLastTarget(run, terminal);
+    if (last && !isTargetSettled(last)) {
+      return false;
     }
-    return terminals.length;
+    return this.terminalStateManager.isReadyForBroadcast(terminal);
   }
 
   private async waitForReadyCandidates(
@@ -245,32 +1212,171 @@ export class Broadcaster {
     );
   }
 
-  private async sendResolvedCommand(
+  /**
+   * Runs sends with at most `limit` in flight. Each target is a different
+   * terminal, and sends to the same terminal are serialized by
+   * `sendResolvedCommand`, so ordering per terminal is preserved.
+   */
+  private async dispatchWithConcurrency(
+    targets: DispatchTarget[],
+    limit: number,
+    staggerMs: number,
+    dispatch: (target: DispatchTarget) => Promise<void>
+  ): Promise<void> {
+    const inFlight = new Set<Promise<void>>();
+    let failure: unknown;
+    for (let i = 0; i < targets.length && failure === undefined; i += 1) {
+      while (inFlight.size >= limit) {
+        await Promise.race(inFlight);
+      }
+      const task: Promise<void> = dispatch(targets[i])
+        .catch((error: unknown) => {
+          failure ??= error;
+        })
+        .finally(() => {
+          inFlight.delete(task);
+        });
+      inFlight.add(task);
+      if (i < targets.length - 1 && staggerMs > 0) {
+        await delay(staggerMs);
+      }
+    }
+    await Promise.all(inFlight);
+    if (failure !== undefined) {
+      throw failure;
+    }
+  }
+
+  private getDispatchConcurrency(options: BroadcastOptions): number {
+    // Focus-based submission moves the shared active terminal, so it cannot overlap.
+    return options.submitWithFocus ? 1 : Math.max(1, Math.floor(options.dispatchConcurrency));
+  }
+
+  /**
+   * Types the text line by line, queued behind other sends to the terminal and
+   * without placeholders, policy checks or run tracking. Resolves to false when
+   * the terminal was closed or interrupted before the text was fully written.
+   */
+  public async sendLines(
     terminal: vscode.Terminal,
-    command: string
+    text: string,
+    options: BroadcastOptions
+  ): Promise<boolean> {
+    const epoch = this.interruptEpoch;
+    await this.sendResolvedCommand(
+      terminal,
+      text,
+      { ...options, payloadMode: "lineByLine" },
+      "text"
+    );
+    return vscode.window.terminals.includes(terminal) && !this.wasInterrupted(terminal, epoch);
+  }
+
+  /**
+   * Audits text about to be typed with `sendLines`, which bypasses run
+   * tracking. `commands` describes what each terminal will receive.
+   */
+  public async recordTransfer(
+    source: BroadcastSource,
+    summary: string,
+    commands: Map<vscode.Terminal, string>
+  ): Promise<void> {
+    await this.writePlannedAudit(createAuditDraft(source, summary, "text"), "sent", commands);
+  }
+
+  private sendResolvedCommand(
+    terminal: vscode.Terminal,
+    command: string,
+    options: BroadcastOptions,
+    inputMode: InputMode
+  ): Promise<void> {
+    const epoch = this.interruptEpoch;
+    const previous = this.sendQueues.get(terminal) ?? Promise.resolve();
+    const next = previous.then(() =>
+      inputMode === "keys"
+        ? this.writeKeySequence(terminal, command, epoch)
+        : this.writeCommandLines(terminal, command, options, epoch, inputMode === "text")
+    );
+    const settled = next.catch(() => undefined);
+    this.sendQueues.set(terminal, settled);
+    void settled.then(() => {
+      if (this.sendQueues.get(terminal) === settled) {
+        this.sendQueues.delete(terminal);
+      }
+    });
+    return next;
+  }
+
+  private wasInterrupted(terminal: vscode.Terminal, sinceEpoch: number): boolean {
+    return (this.interruptMarks.get(terminal) ?? 0) > sinceEpoch;
+  }
+
+  private async writeKeySequence(
+    terminal: vscode.Terminal,
+    keys: string,
+    epoch: number
+  ): Promise<void> {
+    if (!vscode.window.terminals.includes(terminal) || this.wasInterrupted(terminal, epoch)) {
+      return;
+    }
+    this.terminalStateManager.notifyInputSent(terminal);
+    terminal.sendText(translateKeySequence(keys), false);
+  }
+
+  private async writeCommandLines(
+    terminal: vscode.Terminal,
+    command: string,
+    options: BroadcastOptions,
+    epoch: number,
+    submitLastLine: boolean
   ): Promise<void> {
     const normalized = command.replace(/\r\n/g, "\n").replace(/\r/g, "\n");
     this.terminalStateManager.notifyInputSent(terminal);
     const interactiveCli = this.terminalStateManager.isInteractiveCliSession(terminal);
-    const lines = normalized.split("\n");
-    for (const line of lines) {
+    const lines =
+      normalized.includes("\n") && this.resolvePayloadMode(terminal, options) === "bracketedPaste"
+        ? [`${BRACKETED_PASTE_START}${normalized}${BRACKETED_PASTE_END}`]
+        : normalized.split("\n");
+    for (const [position, line] of lines.entries()) {
+      if (!vscode.window.terminals.includes(terminal) || this.wasInterrupted(terminal, epoch)) {
+        return;
+      }
       const state = this.terminalStateManager.getState(terminal);
       terminal.sendText(line, false);
+      if (!submitLastLine && position === lines.length - 1) {
+        return;
+      }
       if (interactiveCli && state === TerminalState.CLI_THINKING) {
         // Codex-like CLI requires Tab to queue while still working.
         terminal.sendText("\t", false);
         await delay(10);
       }
-      await this.sendEnterKey(terminal);
+      await this.sendEnterKey(terminal, options.submitWithFocus);
       await delay(16);
     }
   }
 
-  private async sendEnterKey(terminal: vscode.Terminal): Promise<void> {
+  private resolvePayloadMode(terminal: vscode.Terminal, options: BroadcastOptions): PayloadMode {
+    if (options.payloadMode !== "auto") {
+      return options.payloadMode;
+    }
+    const cliName = this.terminalStateManager.getInteractiveCliName(terminal);
+    return (cliName && options.cliPayloadModes[cliName]) || "lineByLine";
+  }
+
+  private async sendEnterKey(terminal: vscode.Terminal, withFocus: boolean): Promise<void> {
     if (!vscode.window.terminals.includes(terminal)) {
       return;
     }
 
+    if (!withFocus) {
+      // A separate carriage return write submits the line like a key press, so
+      // interactive CLIs do not treat it as part of pasted text.
+      await delay(10);
+      terminal.sendText("\r", false);
+      return;
+    }
+
     const previousActive = vscode.window.activeTerminal;
     const shouldRestorePrevious =
       !!previousActive &&
@@ -293,12 +1399,193 @@ export class Broadcaster {
   }
 }
 
+export function isPayloadMode(value: unknown): value is PayloadMode {
+  return value === "lineByLine" || value === "bracketedPaste";
+}
+
 function delay(ms: number): Promise<void> {
   return new Promise((resolve) => {
     setTimeout(resolve, ms);
   });
 }
 
+function planItemDispatch(
+  terminals: vscode.Terminal[],
+  items: BroadcastItems | undefined
+): ItemDispatchPlan {
+  const plan: ItemDispatchPlan = {
+    initial: [],
+    perTerminal: new Map(),
+    shared: []
+  };
+  if (!items) {
+    plan.initial = terminals.map((terminal) => ({ terminal }));
+    return plan;
+  }
+
+  const values = [...items.values];
+  if (items.mode === "round-robin") {
+    values.forEach((value, position) => {
+      const terminal = terminals[position % terminals.length];
+      if (position < terminals.length) {
+        plan.initial.push({ terminal, item: value });
+        return;
+      }
+      const queued = plan.perTerminal.get(terminal) ?? [];
+      queued.push(value);
+      plan.perTerminal.set(terminal, queued);
+    });
+    return plan;
+  }
+
+  plan.initial = values
+    .slice(0, terminals.length)
+    .map((value, position) => ({ terminal: terminals[position], item: value }));
+  plan.shared = values.slice(terminals.length);
+  return plan;
+}
+
+function hasQueuedItems(plan: ItemDispatchPlan): boolean {
+  if (plan.shared.length > 0) {
+    return true;
+  }
+  return [...plan.perTerminal.values()].some((queued) => queued.length > 0);
+}
+
+function uniqueHits(hits: PolicyDecision["hits"]): PolicyDecision["hits"] {
+  const seen = new Set<string>();
+  return hits.filter((hit) => {
+    const key = `${hit.source}\u0000${hit.ruleId}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+function compileCanaryPattern(pattern: string): RegExp | undefined {
+  if (!pattern.trim()) {
+    return undefined;
+  }
+  try {
+    return new RegExp(pattern, "m");
+  } catch (error) {
+    throw new Error(`Invalid canary success pattern: ${toErrorMessage(error)}`);
+  }
+}
+
+function planRollout(
+  targets: DispatchTarget[],
+  request: { canary?: { marked?: vscode.Terminal[]; pattern?: RegExp }; rollingWindow?: number },
+  options: BroadcastOptions
+): RolloutPlan {
+  const rollingWindow = request.rollingWindow ? Math.max(1, request.rollingWindow) : undefined;
+  if (request.canary) {
+    const marked = targets.filter((target) => request.canary?.marked?.includes(target.terminal));
+    const first = marked.length > 0 ? marked : targets.slice(0, Math.max(1, options.canaryCount));
+    const rest = targets.filter((target) => !first.includes(target));
+    if (rest.length > 0) {
+      return { first, rest, canary: { pattern: request.canary.pattern }, rollingWindow };
+    }
+  }
+  if (rollingWindow) {
+    return {
+      first: targets.slice(0, rollingWindow),
+      rest: targets.slice(rollingWindow),
+      rollingWindow
+    };
+  }
+  return { first: targets, rest: [] };
+}
+
+/** "passed", "pending", or the reason the canary failed. */
+function checkCanaryTarget(
+  terminal: vscode.Terminal,
+  target: BroadcastTargetResult | undefined,
+  successPattern: RegExp | undefined
+): string {
+  if (!target) {
+    return vscode.l10n.t("Canary {0} was not sent.", terminal.name);
+  }
+  if (successPattern?.test(target.output)) {
+    return "passed";
+  }
+  if (!isTargetSettled(target)) {
+    return "pending";
+  }
+  if (target.status === "closed") {
+    return vscode.l10n.t("Canary {0} was closed.", target.name);
+  }
+  switch (getTargetOutcome(target)) {
+    case "succeeded":
+      return "passed";
+    case "failed":
+      return vscode.l10n.t(
+        "Canary {0} exited with code {1}.",
+        target.name,
+        String(getTargetExitCode(target))
+      );
+    case "notStarted":
+      return vscode.l10n.t(
+        "Canary {0} reported no shell execution, so its exit code is unknown.",
+        target.name
+      );
+    default:
+      return vscode.l10n.t(
+        "Canary {0} finished without exit code 0 or a matching output.",
+        target.name
+      );
+  }
+}
+
+function createAuditDraft(
+  source: BroadcastSource,
+  command: string,
+  inputMode: InputMode
+): AuditDraft {
+  return {
+    timestamp: new Date().toISOString(),
+    source,
+    command,
+    inputMode,
+    skipped: [],
+    policy: []
+  };
+}
+
+function recordSkipped(
+  audit: AuditDraft,
+  before: vscode.Terminal[],
+  after: vscode.Terminal[],
+  reason: AuditSkipReason
+): void {
+  for (const terminal of before) {
+    if (!after.includes(terminal)) {
+      audit.skipped.push({ terminal, reason });
+    }
+  }
+}
+
+function recordPolicyDecisions(
+  audit: AuditDraft,
+  terminals: vscode.Terminal[],
+  decisions: PolicyDecision[]
+): void {
+  terminals.forEach((terminal, index) => {
+    if (decisions[index].hits.length > 0) {
+      audit.policy.push({ terminal, decision: decisions[index] });
+    }
+  });
+}
+
+function toErrorMessage(error: unknown): string {
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+  return String(error ?? "Unknown error");
+}
+
 function formatBusyTerminalsDetail(
   busy: Array<{ terminal: vscode.Terminal; state: TerminalState }>
 ): string {
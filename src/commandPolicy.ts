@@ -0,0 +1,488 @@
+import * as vscode from "vscode";
+
+const CONFIG_NAMESPACE = "cursorTerminalNexus";
+const SETTINGS_SOURCE = "settings";
+const POLICY_FILE_GLOB = "**/.vscode/nexus-policy.json";
+const SEVERITY_RANK: Record<PolicySeverity, number> = { warn: 1, confirm: 2, block: 3 };
+const COMMAND_WRAPPERS = new Set(["sudo", "doas", "env", "command", "exec", "nohup", "time"]);
+/** Flags that mean the same as a short flag, per command: `rm -R` and `rm --recursive` are `rm -r`. */
+const FLAG_ALIASES: Record<string, Record<string, string>> = {
+  rm: { R: "r", "--recursive": "r", "--force": "f" },
+  cp: { R: "r", "--recursive": "r", "--force": "f" },
+  chmod: { "--recursive": "R" },
+  chown: { "--recursive": "R" },
+  chgrp: { "--recursive": "R" }
+};
+
+export type PolicySeverity = "warn" | "confirm" | "block";
+
+/**
+ * A rule matches when its `pattern` (case-insensitive regex over the whole
+ * command) or its `tokens` (command name followed by required arguments, with
+ * short flags compared letter by letter, in any order and grouping) match. `terminals` (regex on the
+ * terminal name) and `groups` limit where the rule applies.
+ */
+export interface PolicyRuleDefinition {
+  id?: string;
+  description?: string;
+  pattern?: string;
+  tokens?: string[];
+  severity?: PolicySeverity;
+  terminals?: string;
+  groups?: string[];
+}
+
+/** An allowlist entry exempts matching commands from `rules`, or from every rule. */
+export interface PolicyAllowDefinition {
+  pattern?: string;
+  tokens?: string[];
+  rules?: string[];
+  terminals?: string;
+  groups?: string[];
+}
+
+export interface PolicyFile {
+  rules?: PolicyRuleDefinition[];
+  allow?: PolicyAllowDefinition[];
+}
+
+export interface PolicyScope {
+  name: string;
+  group: string;
+}
+
+export interface PolicyHit {
+  ruleId: string;
+  description?: string;
+  severity: PolicySeverity;
+  source: string;
+}
+
+export interface PolicyDecision {
+  severity?: PolicySeverity;
+  hits: PolicyHit[];
+}
+
+interface CommandMatcher {
+  pattern?: RegExp;
+  tokens?: string[];
+  terminals?: RegExp;
+  groups?: string[];
+}
+
+interface CompiledRule extends CommandMatcher {
+  id: string;
+  description?: string;
+  severity: PolicySeverity;
+  source: string;
+}
+
+interface CompiledAllow extends CommandMatcher {
+  rules?: string[];
+  source: string;
+}
+
+export class CommandPolicy {
+  constructor(
+    private readonly rules: CompiledRule[],
+    private readonly allowlist: CompiledAllow[],
+    public readonly errors: string[]
+  ) {}
+
+  public get ruleCount(): number {
+    return this.rules.length;
+  }
+
+  public evaluate(command: string, scope: PolicyScope): PolicyDecision {
+    const commands = splitSimpleCommands(command);
+    const exemptions = this.allowlist.filter((entry) => matchesCommand(entry, command, commands, scope));
+    const hits: PolicyHit[] = [];
+    let severity: PolicySeverity | undefined;
+
+    for (const rule of this.rules) {
+      if (!matchesCommand(rule, command, commands, scope)) {
+        continue;
+      }
+      if (exemptions.some((entry) => exempts(entry, rule))) {
+        continue;
+      }
+      hits.push({
+        ruleId: rule.id,
+        description: rule.description,
+        severity: rule.severity,
+        source: rule.source
+      });
+      if (!severity || SEVERITY_RANK[rule.severity] > SEVERITY_RANK[severity]) {
+        severity = rule.severity;
+      }
+    }
+
+    return { severity, hits };
+  }
+}
+
+/**
+ * Merges the policy from settings with every workspace folder's
+ * `.vscode/nexus-policy.json` and reloads when either changes.
+ */
+export class CommandPolicyStore implements vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+  private loading: Promise<CommandPolicy>;
+  private lastReportedErrors = "";
+
+  constructor() {
+    this.loading = this.load();
+
+    const watcher = vscode.workspace.createFileSystemWatcher(POLICY_FILE_GLOB);
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(() => this.reload()),
+      watcher.onDidChange(() => this.reload()),
+      watcher.onDidDelete(() => this.reload()),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.reload()),
+      vscode.workspace.onDidGrantWorkspaceTrust(() => this.reload()),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (
+          event.affectsConfiguration(`${CONFIG_NAMESPACE}.policyRules`) ||
+          event.affectsConfiguration(`${CONFIG_NAMESPACE}.policyAllowlist`) ||
+          event.affectsConfiguration(`${CONFIG_NAMESPACE}.sensitiveKeywords`)
+        ) {
+          this.reload();
+        }
+      })
+    );
+  }
+
+  public dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+  }
+
+  public getPolicy(): Promise<CommandPolicy> {
+    return this.loading;
+  }
+
+  private reload(): void {
+    this.loading = this.load();
+  }
+
+  private async load(): Promise<CommandPolicy> {
+    const files: Array<{ source: string; policy: PolicyFile }> = [];
+    const errors: string[] = [];
+
+    files.push({
+      source: SETTINGS_SOURCE,
+      policy: readSettingsPolicy(vscode.workspace.getConfiguration(CONFIG_NAMESPACE))
+    });
+
+    // Policy files of untrusted workspaces are ignored until trust is granted.
+    const folders = vscode.workspace.isTrusted ? vscode.workspace.workspaceFolders ?? [] : [];
+    for (const folder of folders) {
+      const uri = vscode.Uri.joinPath(folder.uri, ".vscode", "nexus-policy.json");
+      const source = vscode.workspace.asRelativePath(uri, true);
+      let content: Uint8Array;
+      try {
+        content = await vscode.workspace.fs.readFile(uri);
+      } catch {
+        continue;
+      }
+      try {
+        const parsed = JSON.parse(Buffer.from(content).toString("utf8")) as PolicyFile;
+        files.push({ source, policy: parsed });
+      } catch (error) {
+        errors.push(`${source}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const policy = buildCommandPolicy(files, errors);
+    this.reportErrors(policy.errors);
+    return policy;
+  }
+
+  private reportErrors(errors: string[]): void {
+    const text = errors.join("\n");
+    if (text === this.lastReportedErrors) {
+      return;
+    }
+    this.lastReportedErrors = text;
+    if (errors.length > 0) {
+      void vscode.window.showWarningMessage(
+        vscode.l10n.t("Some command policy rules were ignored: {0}", errors.join("; "))
+      );
+    }
+  }
+}
+
+/**
+ * The user's own value of a guard setting. Workspace and folder values are
+ * ignored, so a checked-in `.vscode/settings.json` cannot weaken the guard.
+ */
+export function readUserSetting<T>(
+  config: Pick<vscode.WorkspaceConfiguration, "inspect">,
+  key: string,
+  fallback: T
+): T {
+  const inspected = config.inspect<T>(key);
+  return inspected?.globalValue ?? inspected?.defaultValue ?? fallback;
+}
+
+/** Rules and allow entries from user settings, including legacy keywords. */
+export function readSettingsPolicy(
+  config: Pick<vscode.WorkspaceConfiguration, "inspect">
+): PolicyFile {
+  return {
+    rules: [
+      ...readUserSetting<PolicyRuleDefinition[]>(config, "policyRules", []),
+      ...readLegacyKeywordRules(config)
+    ],
+    allow: readUserSetting<PolicyAllowDefinition[]>(config, "policyAllowlist", [])
+  };
+}
+
+export function formatPolicyHits(hits: PolicyHit[]): string {
+  return hits
+    .map((hit) => `${hit.description || hit.ruleId} (${hit.severity}, ${hit.source})`)
+    .join("\n");
+}
+
+/** Compiles policy files in order; invalid rules are skipped and listed in `errors`. */
+export function buildCommandPolicy(
+  files: Array<{ source: string; policy: PolicyFile }>,
+  errors: string[] = []
+): CommandPolicy {
+  const rules: CompiledRule[] = [];
+  const allowlist: CompiledAllow[] = [];
+  for (const { source, policy } of files) {
+    compilePolicyFile(policy, source, rules, allowlist, errors);
+  }
+  return new CommandPolicy(rules, allowlist, errors);
+}
+
+function compilePolicyFile(
+  policy: PolicyFile,
+  source: string,
+  rules: CompiledRule[],
+  allowlist: CompiledAllow[],
+  errors: string[]
+): void {
+  if (!policy || typeof policy !== "object") {
+    errors.push(`${source}: expected an object with "rules" and "allow".`);
+    return;
+  }
+
+  (Array.isArray(policy.rules) ? policy.rules : []).forEach((definition, index) => {
+    const id = String(definition?.id || `${source}#${index + 1}`);
+    try {
+      rules.push({
+        ...compileMatcher(definition),
+        id,
+        description: definition.description,
+        severity: toSeverity(definition.severity),
+        source
+      });
+    } catch (error) {
+      errors.push(`${source} rule "${id}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  (Array.isArray(policy.allow) ? policy.allow : []).forEach((definition, index) => {
+    try {
+      allowlist.push({
+        ...compileMatcher(definition),
+        rules: Array.isArray(definition.rules) ? definition.rules.map(String) : undefined,
+        source
+      });
+    } catch (error) {
+      errors.push(
+        `${source} allow #${index + 1}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  });
+}
+
+/**
+ * Allow entries from settings may exempt any rule; entries from a workspace
+ * policy file only exempt rules from that same file, so a cloned repository
+ * cannot switch off the user's own rules.
+ */
+function exempts(entry: CompiledAllow, rule: CompiledRule): boolean {
+  if (entry.source !== SETTINGS_SOURCE && entry.source !== rule.source) {
+    return false;
+  }
+  return !entry.rules || entry.rules.includes(rule.id);
+}
+
+function compileMatcher(definition: PolicyRuleDefinition | PolicyAllowDefinition): CommandMatcher {
+  if (!definition || typeof definition !== "object") {
+    throw new Error("Expected an object.");
+  }
+  const tokens = Array.isArray(definition.tokens)
+    ? definition.tokens.map((token) => String(token).trim()).filter(Boolean)
+    : undefined;
+  if (!definition.pattern && !tokens?.length) {
+    throw new Error('Either "pattern" or "tokens" is required.');
+  }
+  return {
+    pattern: definition.pattern ? new RegExp(definition.pattern, "i") : undefined,
+    tokens: tokens?.length ? tokens : undefined,
+    terminals: definition.terminals ? new RegExp(definition.terminals, "i") : undefined,
+    groups: Array.isArray(definition.groups)
+      ? definition.groups.map((group) => String(group).toLowerCase())
+      : undefined
+  };
+}
+
+function toSeverity(value: unknown): PolicySeverity {
+  if (value === undefined) {
+    return "confirm";
+  }
+  if (value === "warn" || value === "confirm" || value === "block") {
+    return value;
+  }
+  throw new Error(`Unknown severity "${String(value)}". Use warn, confirm or block.`);
+}
+
+/** Keywords configured before the policy engine existed become token rules. */
+function readLegacyKeywordRules(
+  config: Pick<vscode.WorkspaceConfiguration, "inspect">
+): PolicyRuleDefinition[] {
+  const keywords = readUserSetting<string[]>(config, "sensitiveKeywords", []);
+  return keywords
+    .map((keyword) => String(keyword).trim())
+    .filter(Boolean)
+    .map((keyword) => ({
+      id: `keyword:${keyword}`,
+      tokens: keyword.split(/\s+/),
+      severity: "warn"
+    }));
+}
+
+function matchesCommand(
+  matcher: CommandMatcher,
+  command: string,
+  commands: string[][],
+  scope: PolicyScope
+): boolean {
+  if (matcher.terminals && !matcher.terminals.test(scope.name)) {
+    return false;
+  }
+  if (matcher.groups && !matcher.groups.includes(scope.group.toLowerCase())) {
+    return false;
+  }
+  if (matcher.pattern?.test(command)) {
+    return true;
+  }
+  const tokens = matcher.tokens;
+  return !!tokens && commands.some((words) => matchesTokens(words, tokens));
+}
+
+function matchesTokens(words: string[], tokens: string[]): boolean {
+  const [name, ...args] = stripCommandWrappers(words);
+  if (!name || commandBaseName(name) !== tokens[0].toLowerCase()) {
+    return false;
+  }
+
+  const aliases = FLAG_ALIASES[tokens[0].toLowerCase()] ?? {};
+  const shortFlags = new Set<string>();
+  for (const arg of args) {
+    if (/^-[A-Za-z0-9]+$/.test(arg)) {
+      for (const letter of arg.slice(1)) {
+        shortFlags.add(aliases[letter] ?? letter);
+      }
+    } else if (aliases[arg.toLowerCase()]) {
+      shortFlags.add(aliases[arg.toLowerCase()]);
+    }
+  }
+  const loweredArgs = args.map((arg) => arg.toLowerCase());
+
+  return tokens.slice(1).every((token) => {
+    if (/^-[A-Za-z0-9]+$/.test(token)) {
+      return [...token.slice(1)].every((letter) => shortFlags.has(aliases[letter] ?? letter));
+    }
+    return loweredArgs.includes(token.toLowerCase());
+  });
+}
+
+function stripCommandWrappers(words: string[]): string[] {
+  let start = 0;
+  while (start < words.length) {
+    const word = words[start];
+    if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(word) || word.startsWith("-")) {
+      start += 1;
+      continue;
+    }
+    if (COMMAND_WRAPPERS.has(commandBaseName(word))) {
+      start += 1;
+      continue;
+    }
+    break;
+  }
+  return words.slice(start);
+}
+
+function commandBaseName(word: string): string {
+  const base = word.split(/[\\/]/).pop() ?? word;
+  return base.toLowerCase().replace(/\.exe$/, "");
+}
+
+/**
+ * Splits a command line into simple commands (separated by `;`, `&`, `|`,
+ * newlines, parentheses and backticks) of unquoted words. Quoted text stays
+ * inside one word, so `echo "rm -rf"` is a single argument to `echo`.
+ */
+function splitSimpleCommands(command: string): string[][] {
+  const commands: string[][] = [];
+  let words: string[] = [];
+  let word = "";
+  let inWord = false;
+  let quote: string | undefined;
+
+  const endWord = () => {
+    if (inWord) {
+      words.push(word);
+    }
+    word = "";
+    inWord = false;
+  };
+  const endCommand = () => {
+    endWord();
+    if (words.length > 0) {
+      commands.push(words);
+    }
+    words = [];
+  };
+
+  for (let index = 0; index < command.length; index += 1) {
+    const char = command[index];
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      } else if (char === "\\" && quote === '"' && index + 1 < command.length) {
+        index += 1;
+        word += command[index];
+      } else {
+        word += char;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+      inWord = true;
+    } else if (char === "\\" && index + 1 < command.length) {
+      index += 1;
+      word += command[index];
+      inWord = true;
+    } else if (/[;&|\n()`]/.test(char)) {
+      endCommand();
+    } else if (/\s/.test(char)) {
+      endWord();
+    } else {
+      word += char;
+      inWord = true;
+    }
+  }
+  endCommand();
+  return commands;
+}
@@ -0,0 +1,288 @@
+import * as vscode from "vscode";
+import { BroadcastRunTracker, isTargetSettled } from "./broadcastRuns";
+import { Broadcaster, BroadcastOptions } from "./broadcaster";
+import { TerminalStateManager } from "./terminalStateManager";
+
+/** What happens to a leader command for a follower that is still busy. */
+export type FollowerBusyMode = "skip" | "queue";
+
+export interface ReplicationStatus {
+  active: boolean;
+  leader?: vscode.Terminal;
+  followerCount: number;
+  busyMode: FollowerBusyMode;
+  replicatedCount: number;
+  queuedCount: number;
+  lastCommand: string;
+  error: string;
+}
+
+/**
+ * Replays every command run in the leader terminal to the follower terminals,
+ * like tmux `synchronize-panes` at command granularity. Commands are read from
+ * shell integration, so the leader needs it; followers go through the
+ * broadcaster and get placeholders, policy checks and run tracking.
+ */
+export class CommandReplicator implements vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly queues = new Map<vscode.Terminal, string[]>();
+  private readonly statusEmitter = new vscode.EventEmitter<ReplicationStatus>();
+  private leader?: vscode.Terminal;
+  private followers: vscode.Terminal[] = [];
+  private options?: BroadcastOptions;
+  private draining = false;
+  private status: ReplicationStatus = {
+    active: false,
+    followerCount: 0,
+    busyMode: "queue",
+    replicatedCount: 0,
+    queuedCount: 0,
+    lastCommand: "",
+    error: ""
+  };
+
+  public readonly onDidChangeStatus = this.statusEmitter.event;
+
+  constructor(
+    private readonly terminalStateManager: TerminalStateManager,
+    private readonly broadcaster: Broadcaster,
+    private readonly runTracker: BroadcastRunTracker
+  ) {
+    this.disposables.push(
+      vscode.window.onDidStartTerminalShellExecution((event) => {
+        this.handleExecutionStart(event);
+      }),
+      vscode.window.onDidCloseTerminal((terminal) => {
+        this.handleTerminalClosed(terminal);
+      }),
+      this.terminalStateManager.onDidChangeState(() => {
+        void this.drainQueues();
+      }),
+      this.runTracker.onDidChangeRuns(() => {
+        void this.drainQueues();
+      })
+    );
+  }
+
+  public dispose(): void {
+    this.stop();
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.statusEmitter.dispose();
+  }
+
+  public getStatus(): ReplicationStatus {
+    return this.status;
+  }
+
+  public start(
+    leader: vscode.Terminal,
+    followers: vscode.Terminal[],
+    busyMode: FollowerBusyMode,
+    options: BroadcastOptions
+  ): void {
+    const targets = dedupeFollowers(leader, followers);
+    if (targets.length === 0) {
+      throw new Error(
+        vscode.l10n.t("Select at least one follower terminal besides the leader.")
+      );
+    }
+
+    this.queues.clear();
+    this.leader = leader;
+    this.followers = targets;
+    this.options = options;
+    this.status = {
+      active: true,
+      leader,
+      followerCount: targets.length,
+      busyMode,
+      replicatedCount: 0,
+      queuedCount: 0,
+      lastCommand: "",
+      error: ""
+    };
+    this.emitStatus();
+  }
+
+  public stop(): void {
+    if (!this.status.active) {
+      return;
+    }
+    this.queues.clear();
+    this.leader = undefined;
+    this.followers = [];
+    this.status = { ...this.status, active: false, leader: undefined, queuedCount: 0 };
+    this.emitStatus();
+  }
+
+  /** Follows the panel selection while replication is running. */
+  public setFollowers(followers: vscode.Terminal[]): void {
+    if (!this.leader) {
+      return;
+    }
+    const next = dedupeFollowers(this.leader, followers);
+    if (
+      next.length === this.followers.length &&
+      next.every((terminal, index) => terminal === this.followers[index])
+    ) {
+      return;
+    }
+    this.followers = next;
+    for (const terminal of [...this.queues.keys()]) {
+      if (!this.followers.includes(terminal)) {
+        this.queues.delete(terminal);
+      }
+    }
+    this.status = {
+      ...this.status,
+      followerCount: this.followers.length,
+      queuedCount: this.countQueued()
+    };
+    this.emitStatus();
+  }
+
+  private handleExecutionStart(event: vscode.TerminalShellExecutionStartEvent): void {
+    if (!this.leader || event.terminal !== this.leader) {
+      return;
+    }
+    // Commands broadcast to the leader itself are already on their way to every target.
+    const latest = this.runTracker.getLatestTarget(this.leader);
+    if (latest && !isTargetSettled(latest)) {
+      return;
+    }
+    const commandLine = event.execution.commandLine;
+    if (commandLine.confidence === vscode.TerminalShellExecutionCommandLineConfidence.Low) {
+      return;
+    }
+    const command = commandLine.value.trim();
+    if (!command) {
+      return;
+    }
+    void this.replicate(command);
+  }
+
+  private async replicate(command: string): Promise<void> {
+    const followers = this.followers.filter((terminal) =>
+      vscode.window.terminals.includes(terminal)
+    );
+    let targets = followers;
+    if (this.status.busyMode === "queue") {
+      targets = [];
+      for (const terminal of followers) {
+        const queue = this.queues.get(terminal);
+        if (!queue && this.isFollowerReady(terminal)) {
+          targets.push(terminal);
+        } else if (queue) {
+          queue.push(command);
+        } else {
+          this.queues.set(terminal, [command]);
+        }
+      }
+    }
+
+    this.status = {
+      ...this.status,
+      lastCommand: command,
+      queuedCount: this.countQueued()
+    };
+    this.emitStatus();
+    if (targets.length > 0) {
+      await this.send(targets, command);
+    }
+  }
+
+  private async drainQueues(): Promise<void> {
+    if (this.draining || this.queues.size === 0) {
+      return;
+    }
+    this.draining = true;
+    try {
+      for (const [terminal, queue] of [...this.queues]) {
+        if (!this.isFollowerReady(terminal)) {
+          continue;
+        }
+        const command = queue.shift();
+        if (queue.length === 0) {
+          this.queues.delete(terminal);
+        }
+        if (command !== undefined) {
+          await this.send([terminal], command);
+        }
+      }
+    } finally {
+      this.draining = false;
+    }
+    this.status = { ...this.status, queuedCount: this.countQueued() };
+    this.emitStatus();
+  }
+
+  private async send(terminals: vscode.Terminal[], command: string): Promise<void> {
+    const options = this.options;
+    if (!options) {
+      return;
+    }
+    try {
+      const run = await this.broadcaster.broadcastNonInteractive(terminals, command, options, {
+        readyOnly: this.status.busyMode === "skip",
+        source: "replication"
+      });
+      this.status = {
+        ...this.status,
+        replicatedCount: this.status.replicatedCount + (run?.targets.length ?? 0),
+        error: ""
+      };
+    } catch (error) {
+      this.status = { ...this.status, error: toErrorMessage(error) };
+    }
+    this.emitStatus();
+  }
+
+  /** Ready, and the previous replicated command is no longer being tracked. */
+  private isFollowerReady(terminal: vscode.Terminal): boolean {
+    if (!vscode.window.terminals.includes(terminal)) {
+      return false;
+    }
+    const latest = this.runTracker.getLatestTarget(terminal);
+    return (
+      (!latest || isTargetSettled(latest)) &&
+      this.terminalStateManager.isReadyForBroadcast(terminal)
+    );
+  }
+
+  private handleTerminalClosed(terminal: vscode.Terminal): void {
+    if (terminal === this.leader) {
+      this.stop();
+      this.status = { ...this.status, error: vscode.l10n.t("The leader terminal was closed.") };
+      this.emitStatus();
+      return;
+    }
+    if (this.followers.includes(terminal)) {
+      this.setFollowers(this.followers.filter((item) => item !== terminal));
+    }
+  }
+
+  private countQueued(): number {
+    let count = 0;
+    for (const queue of this.queues.values()) {
+      count += queue.length;
+    }
+    return count;
+  }
+
+  private emitStatus(): void {
+    this.statusEmitter.fire(this.status);
+  }
+}
+
+function dedupeFollowers(
+  leader: vscode.Terminal,
+  followers: vscode.Terminal[]
+): vscode.Terminal[] {
+  return [...new Set(followers)].filter((terminal) => terminal !== leader);
+}
+
+function toErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
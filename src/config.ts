@@ -1,10 +1,12 @@
 import * as vscode from "vscode";
-import { BroadcastOptions } from "./broadcaster";
+import { BroadcastOptions, isPayloadMode, PayloadMode } from "./broadcaster";
+import { readUserSetting } from "./commandPolicy";
 
 const CONFIG_NAMESPACE = "cursorTerminalNexus";
 
 export interface NexusConfig {
   autoSelectRegex: string;
+  expandEditorPlaceholders: boolean;
   options: BroadcastOptions;
 }
 
@@ -12,28 +14,76 @@ export function readNexusConfig(): NexusConfig {
   const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
   return {
     autoSelectRegex: config.get<string>("autoSelectRegex", ""),
+    expandEditorPlaceholders: config.get<boolean>("expandEditorPlaceholders", false),
     options: {
       requireConfirmBeforeBroadcast: config.get<boolean>(
         "requireConfirmBeforeBroadcast",
         false
       ),
-      enableSensitiveCommandGuard: config.get<boolean>(
+      enableSensitiveCommandGuard: readUserSetting<boolean>(
+        config,
         "enableSensitiveCommandGuard",
         true
       ),
-      sensitiveKeywords: config.get<string[]>("sensitiveKeywords", []),
       waveThreshold: Math.max(1, config.get<number>("waveThreshold", 20)),
-      waveDelayMs: Math.max(0, config.get<number>("waveDelayMs", 20))
+      waveDelayMs: Math.max(0, config.get<number>("waveDelayMs", 20)),
+      dispatchConcurrency: Math.max(1, config.get<number>("dispatchConcurrency", 8)),
+      submitWithFocus: config.get<boolean>("submitWithFocus", false),
+      payloadMode: readPayloadMode(config.get<string>("payloadMode", "auto")),
+      cliPayloadModes: readCliPayloadModes(
+        config.get<Record<string, unknown>>("cliPayloadModes", {})
+      ),
+      cliInterruptKey:
+        config.get<string>("cliInterruptKey", "escape") === "ctrlC" ? "ctrlC" : "escape",
+      canaryCount: Math.max(1, config.get<number>("canaryCount", 1)),
+      canaryTimeoutMs: Math.max(1, config.get<number>("canaryTimeoutSeconds", 120)) * 1000,
+      canarySuccessPattern: config.get<string>("canarySuccessPattern", ""),
+      rollingWindow: Math.max(1, config.get<number>("rollingWindow", 1)),
+      rollingStopOnFailure: config.get<boolean>("rollingStopOnFailure", true),
+      rollingMaxFailures: Math.max(0, config.get<number>("rollingMaxFailures", 0)),
+      retry: {
+        maxAttempts: Math.max(1, Math.floor(config.get<number>("retryMaxAttempts", 1))),
+        backoffMs: Math.max(0, config.get<number>("retryBackoffMs", 2000)),
+        backoffMultiplier: Math.max(1, config.get<number>("retryBackoffMultiplier", 2)),
+        exitCodes: config
+          .get<unknown[]>("retryExitCodes", [])
+          .filter((code): code is number => Number.isInteger(code)),
+        outputPatterns: config
+          .get<unknown[]>("retryOutputPatterns", [])
+          .filter((pattern): pattern is string => typeof pattern === "string" && pattern.length > 0)
+      }
     }
   };
 }
 
+function readPayloadMode(value: string): PayloadMode | "auto" {
+  return isPayloadMode(value) ? value : "auto";
+}
+
+function readCliPayloadModes(raw: Record<string, unknown>): Record<string, PayloadMode> {
+  const modes: Record<string, PayloadMode> = {};
+  for (const [cliName, mode] of Object.entries(raw ?? {})) {
+    if (isPayloadMode(mode)) {
+      modes[cliName.trim().toLowerCase()] = mode;
+    }
+  }
+  return modes;
+}
+
 export type EditableSettingKey =
   | "autoSelectRegex"
   | "requireConfirmBeforeBroadcast"
   | "enableSensitiveCommandGuard"
   | "waveThreshold"
-  | "waveDelayMs";
+  | "waveDelayMs"
+  | "dispatchConcurrency"
+  | "canaryCount"
+  | "canaryTimeoutSeconds"
+  | "rollingWindow"
+  | "rollingStopOnFailure"
+  | "rollingMaxFailures"
+  | "retryMaxAttempts"
+  | "retryBackoffMs";
 
 type EditableSettingValue = string | boolean | number;
 
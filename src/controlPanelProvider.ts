@@ -1,14 +1,35 @@
 import * as vscode from "vscode";
 import * as fs from "fs";
 import * as path from "path";
-import { Broadcaster } from "./broadcaster";
+import { BroadcastResultsPanel } from "./broadcastResultsPanel";
+import {
+  BroadcastItems,
+  Broadcaster,
+  isPayloadMode,
+  ItemDistributionMode
+} from "./broadcaster";
+import {
+  BroadcastRunTracker,
+  getTargetExitCode,
+  getTargetOutcome
+} from "./broadcastRuns";
+import { CommandReplicator, FollowerBusyMode, ReplicationStatus } from "./commandReplicator";
 import {
   EditableSettingKey,
   readNexusConfig,
   updateNexusSetting
 } from "./config";
+import { showDryRunPreview } from "./dryRunPreviewPanel";
+import { findItemsByGlob, parseItemLines, pickItemsFile } from "./itemSources";
+import { isInputMode } from "./keySequences";
+import { templateUsesItem } from "./placeholders";
+import { isShellType, SHELL_TYPES, ShellType, ShellTypeRegistry } from "./shellTypes";
 import { QuickCommands } from "./quickCommands";
+import { ScriptUploader } from "./scriptUploader";
 import { AutomationStatus, TaskAutomationManager } from "./taskAutomationManager";
+import { compileTargetQuery, TargetMatcher } from "./targetQuery";
+import { describeTargetSet, TargetSetStore } from "./targetSets";
+import { inferGroupId, TERMINAL_GROUP_ORDER } from "./terminalGroups";
 import { TerminalDescriptor, TerminalManager } from "./terminalManager";
 import { TerminalState, TerminalStateManager } from "./terminalStateManager";
 
@@ -17,6 +38,8 @@ interface ManagedTerminal {
   terminal: vscode.Terminal;
   name: string;
   processId?: number;
+  tags: string[];
+  note: string;
 }
 
 type SortMode =
@@ -27,7 +50,8 @@ type SortMode =
   | "pid-desc"
   | "selected-first";
 
-type GroupMode = "none" | "tool-type";
+type GroupMode = "none" | "tool-type" | "tag";
+export type InterruptScope = "selected" | "lastBroadcast";
 type PanelLanguage = "en" | "zh-CN";
 
 interface ViewPreferences {
@@ -50,7 +74,37 @@ type ViewMessage =
   | { type: "selectAll" }
   | { type: "clearSelection" }
   | { type: "setSelection"; selectedKeys: string[] }
-  | { type: "sendCommand"; command: string }
+  | {
+      type: "sendCommand";
+      command: string;
+      itemsText?: string;
+      itemMode?: ItemDistributionMode;
+      payloadMode?: string;
+      inputMode?: string;
+      dryRun?: boolean;
+      canary?: boolean;
+      canaryPattern?: string;
+      rolling?: boolean;
+    }
+  | { type: "showBroadcastResults" }
+  | { type: "previewCommand"; command: string; item?: string }
+  | { type: "loadItemsFromFile" }
+  | { type: "loadItemsFromGlob"; pattern: string }
+  | { type: "setShellOverride"; key: string; shellType: string }
+  | { type: "toggleCanary"; key: string }
+  | { type: "setLeader"; key: string }
+  | { type: "editTags"; key: string }
+  | { type: "setTargetQuery"; query: string }
+  | { type: "selectQueryMatches" }
+  | { type: "selectTargetSet"; name: string }
+  | { type: "saveTargetSet" }
+  | { type: "deleteTargetSet"; name: string }
+  | { type: "startReplication"; busyMode: FollowerBusyMode }
+  | { type: "stopReplication" }
+  | { type: "uploadScript" }
+  | { type: "spawnFleet" }
+  | { type: "cancelUpload" }
+  | { type: "interrupt" }
   | { type: "setPanelLanguage"; language: PanelLanguage }
   | { type: "startPolling"; command: string; intervalMs: number }
   | { type: "stopPolling" }
@@ -66,20 +120,32 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
     "cursorTerminalNexus.controlPanel.viewPreferences";
   private static readonly panelLanguageStateKey =
     "cursorTerminalNexus.controlPanel.panelLanguage";
+  private static readonly shellOverridesStateKey =
+    "cursorTerminalNexus.controlPanel.shellOverrides";
+  private static readonly canaryKeysStateKey =
+    "cursorTerminalNexus.controlPanel.canaryTerminals";
+  private static readonly selectionStateKey =
+    "cursorTerminalNexus.controlPanel.selection";
 
   private readonly disposables: vscode.Disposable[] = [];
   private readonly panelBundles: Record<PanelLanguage, Record<string, string>>;
   private view?: vscode.WebviewView;
   private terminals: ManagedTerminal[] = [];
   private selectedKeys = new Set<string>();
+  /** Restored selection of terminals that have not been revived yet after a reload. */
+  private pendingSelectedKeys: Set<string>;
   private refreshNonce = 0;
   private viewPreferences: ViewPreferences;
   private panelLanguage: PanelLanguage;
   private postStateTimer?: NodeJS.Timeout;
   private readonly taskAutomationManager: TaskAutomationManager;
+  private readonly commandReplicator: CommandReplicator;
+  private leaderKey?: string;
+  private targetQuery = "";
   private lastAutomationErrors = {
     polling: "",
-    chain: ""
+    chain: "",
+    replication: ""
   };
 
   constructor(
@@ -87,7 +153,12 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
     private readonly terminalManager: TerminalManager,
     private readonly terminalStateManager: TerminalStateManager,
     private readonly quickCommands: QuickCommands,
-    private readonly broadcaster: Broadcaster
+    private readonly broadcaster: Broadcaster,
+    private readonly broadcastRunTracker: BroadcastRunTracker,
+    private readonly shellTypes: ShellTypeRegistry,
+    private readonly scriptUploader: ScriptUploader,
+    private readonly targetMatcher: TargetMatcher,
+    private readonly targetSets: TargetSetStore
   ) {
     this.panelBundles = {
       en: this.loadPanelBundle("bundle.l10n.json"),
@@ -95,7 +166,13 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
     };
     this.taskAutomationManager = new TaskAutomationManager(
       this.terminalStateManager,
-      this.broadcaster
+      this.broadcaster,
+      this.targetMatcher
+    );
+    this.commandReplicator = new CommandReplicator(
+      this.terminalStateManager,
+      this.broadcaster,
+      this.broadcastRunTracker
     );
     this.viewPreferences = sanitizeViewPreferences(
       this.extensionContext.workspaceState.get(
@@ -103,6 +180,11 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       )
     );
     this.panelLanguage = this.resolveInitialPanelLanguage();
+    this.pendingSelectedKeys = new Set(
+      toStringArray(
+        this.extensionContext.workspaceState.get(ControlPanelProvider.selectionStateKey, [])
+      )
+    );
 
     this.disposables.push(
       vscode.window.onDidOpenTerminal(() => {
@@ -111,6 +193,9 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       vscode.window.onDidCloseTerminal(() => {
         void this.refreshTerminals();
       }),
+      this.terminalManager.onDidChangeDescriptors(() => {
+        void this.refreshTerminals();
+      }),
       vscode.workspace.onDidChangeConfiguration((event) => {
         if (event.affectsConfiguration("cursorTerminalNexus")) {
           void this.postState();
@@ -119,9 +204,22 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       this.terminalStateManager.onDidChangeState(() => {
         this.schedulePostState();
       }),
+      this.broadcastRunTracker.onDidChangeRuns(() => {
+        this.schedulePostState();
+      }),
       this.taskAutomationManager.onDidChangeStatus((status) => {
         this.handleAutomationStatus(status);
         this.schedulePostState();
+      }),
+      this.commandReplicator.onDidChangeStatus((status) => {
+        this.handleReplicationStatus(status);
+        this.schedulePostState();
+      }),
+      this.scriptUploader.onDidChangeStatus(() => {
+        this.schedulePostState();
+      }),
+      this.targetSets.onDidChange(() => {
+        this.schedulePostState();
       })
     );
   }
@@ -132,6 +230,7 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       this.postStateTimer = undefined;
     }
     this.taskAutomationManager.dispose();
+    this.commandReplicator.dispose();
     for (const disposable of this.disposables) {
       disposable.dispose();
     }
@@ -179,15 +278,15 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
         await this.refreshTerminals();
         return;
       case "selectAll":
-        this.selectedKeys = new Set(this.terminals.map((item) => item.key));
+        this.setSelectedKeys(this.terminals.map((item) => item.key));
         await this.postState();
         return;
       case "clearSelection":
-        this.selectedKeys.clear();
+        this.setSelectedKeys([]);
         await this.postState();
         return;
       case "setSelection":
-        this.selectedKeys = new Set(
+        this.setSelectedKeys(
           message.selectedKeys.filter((key) =>
             this.terminals.some((terminal) => terminal.key === key)
           )
@@ -195,7 +294,85 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
         await this.postState();
         return;
       case "sendCommand":
-        await this.sendSelected(message.command);
+        await this.sendSelected(message);
+        return;
+      case "loadItemsFromFile":
+        await this.loadItems(() => pickItemsFile());
+        return;
+      case "loadItemsFromGlob":
+        await this.loadItems(() => findItemsByGlob(message.pattern));
+        return;
+      case "setShellOverride":
+        await this.setShellOverride(message.key, message.shellType);
+        return;
+      case "toggleCanary":
+        await this.toggleCanary(message.key);
+        return;
+      case "setLeader":
+        this.setLeader(message.key);
+        await this.postState();
+        return;
+      case "editTags": {
+        const terminal = this.terminals.find((item) => item.key === message.key)?.terminal;
+        if (terminal) {
+          await vscode.commands.executeCommand("cursorTerminalNexus.editTerminalTags", terminal);
+        }
+        return;
+      }
+      case "setTargetQuery":
+        this.targetQuery = message.query;
+        await this.postState();
+        return;
+      case "selectQueryMatches": {
+        const { matchedKeys } = this.evaluateTargetQuery();
+        if (matchedKeys.length > 0) {
+          this.setSelectedKeys(matchedKeys);
+        }
+        await this.postState();
+        return;
+      }
+      case "selectTargetSet": {
+        const set = this.targetSets.get(message.name);
+        const keys = set
+          ? this.targetSets.match(set, this.terminals, (item) => item.key).map((item) => item.key)
+          : [];
+        if (keys.length > 0) {
+          this.setSelectedKeys(keys);
+        }
+        await this.postState();
+        return;
+      }
+      case "saveTargetSet":
+        await vscode.commands.executeCommand("cursorTerminalNexus.saveTargetSet");
+        return;
+      case "deleteTargetSet":
+        await vscode.commands.executeCommand("cursorTerminalNexus.deleteTargetSet", {
+          name: message.name
+        });
+        return;
+      case "startReplication":
+        this.startReplication(message.busyMode === "skip" ? "skip" : "queue");
+        await this.postState();
+        return;
+      case "stopReplication":
+        this.commandReplicator.stop();
+        await this.postState();
+        return;
+      case "spawnFleet":
+        await vscode.commands.executeCommand("cursorTerminalNexus.spawnFleet");
+        return;
+      case "uploadScript":
+        await vscode.commands.executeCommand("cursorTerminalNexus.uploadScript");
+        return;
+      case "cancelUpload":
+        this.scriptUploader.cancel();
+        await this.postState();
+        return;
+      case "previewCommand":
+        await this.postCommandPreview(message.command, message.item);
+        return;
+      case "showBroadcastResults":
+        await vscode.commands.executeCommand(BroadcastResultsPanel.showCommand);
         return;
       case "setPanelLanguage":
         await this.setPanelLanguage(message.language);
@@ -216,6 +393,10 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
         this.taskAutomationManager.stopChain();
         await this.postState();
         return;
+      case "interrupt":
+        this.interruptTerminals("selected");
+        await this.postState();
+        return;
       case "updateSetting":
         await this.handleSettingUpdate(message.key, message.value);
         return;
@@ -235,29 +416,41 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
     }
 
     this.terminals = toManagedTerminals(descriptors);
+    this.applyShellOverrides();
     const terminalKeys = this.terminals.map((item) => item.key);
     const availableKeys = new Set(terminalKeys);
 
     this.selectedKeys = new Set(
-      [...this.selectedKeys].filter((key) => availableKeys.has(key))
+      [...this.selectedKeys, ...this.pendingSelectedKeys].filter((key) => availableKeys.has(key))
+    );
+    this.pendingSelectedKeys = new Set(
+      [...this.pendingSelectedKeys].filter(
+        (key) => !availableKeys.has(key) && this.terminalManager.isKnownId(key)
+      )
     );
 
     const normalizedPreferences = mergeViewPreferences(
       this.viewPreferences,
       undefined,
-      terminalKeys
+      terminalKeys,
+      (key) => this.terminalManager.isKnownId(key)
     );
     if (!areViewPreferencesEqual(this.viewPreferences, normalizedPreferences)) {
       this.viewPreferences = normalizedPreferences;
       await this.persistViewPreferences();
     }
 
-    if (this.selectedKeys.size === 0) {
+    if (this.selectedKeys.size === 0 && this.pendingSelectedKeys.size === 0) {
       this.selectedKeys = applyRegexSelection(
         this.terminals,
         readNexusConfig().autoSelectRegex
       );
     }
+    this.persistSelection();
+    if (this.leaderKey && !availableKeys.has(this.leaderKey)) {
+      this.leaderKey = undefined;
+    }
+    this.syncFollowers();
 
     await this.postState();
   }
@@ -268,14 +461,27 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
     }
 
     const config = readNexusConfig();
+    const canaryKeys = new Set(this.getCanaryKeys());
     await this.view.webview.postMessage({
       type: "state",
-      terminals: this.terminals.map((item) => ({
-        key: item.key,
-        name: item.name,
-        processId: item.processId,
-        state: this.terminalStateManager.getState(item.terminal)
-      })),
+      terminals: this.terminals.map((item) => {
+        const lastTarget = this.broadcastRunTracker.getLatestTarget(item.terminal);
+        return {
+          key: item.key,
+          name: item.name,
+          processId: item.processId,
+          tags: item.tags,
+          note: item.note,
+          state: this.terminalStateManager.getState(item.terminal),
+          groupId: inferGroupId(item.name),
+          shellType: this.shellTypes.getShellType(item.terminal),
+          shellOverride: this.shellTypes.getOverride(item.terminal) ?? "",
+          canary: canaryKeys.has(item.key),
+          leader: item.key === this.leaderKey,
+          lastOutcome: lastTarget ? getTargetOutcome(lastTarget) : undefined,
+          lastExitCode: lastTarget ? getTargetExitCode(lastTarget) : undefined
+        };
+      }),
       selectedKeys: [...this.selectedKeys],
       viewPreferences: this.viewPreferences,
       settings: {
@@ -283,20 +489,69 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
         requireConfirmBeforeBroadcast: config.options.requireConfirmBeforeBroadcast,
         enableSensitiveCommandGuard: config.options.enableSensitiveCommandGuard,
         waveThreshold: config.options.waveThreshold,
-        waveDelayMs: config.options.waveDelayMs
+        waveDelayMs: config.options.waveDelayMs,
+        dispatchConcurrency: config.options.dispatchConcurrency,
+        canaryCount: config.options.canaryCount,
+        canaryTimeoutSeconds: Math.round(config.options.canaryTimeoutMs / 1000),
+        rollingWindow: config.options.rollingWindow,
+        rollingStopOnFailure: config.options.rollingStopOnFailure,
+        rollingMaxFailures: config.options.rollingMaxFailures,
+        retryMaxAttempts: config.options.retry.maxAttempts,
+        retryBackoffMs: config.options.retry.backoffMs
       },
       panelLanguage: this.panelLanguage,
-      automation: this.taskAutomationManager.getStatus()
+      automation: this.taskAutomationManager.getStatus(),
+      replication: serializeReplicationStatus(this.commandReplicator.getStatus()),
+      upload: this.scriptUploader.getStatus(),
+      targetQuery: this.evaluateTargetQuery(),
+      targetSets: this.targetSets.list().map((set) => ({
+        name: set.name,
+        global: set.scope === "global",
+        detail: describeTargetSet(set),
+        keys: this.targetSets.match(set, this.terminals, (item) => item.key).map((item) => item.key)
+      }))
     });
   }
 
-  private async sendSelected(command: string): Promise<void> {
-    const text = command.trim();
+  /** Re-run on every state post, so highlighting follows state and exit code changes. */
+  private evaluateTargetQuery(): { text: string; matchedKeys: string[]; error: string } {
+    const text = this.targetQuery.trim();
+    if (!text) {
+      return { text, matchedKeys: [], error: "" };
+    }
+    try {
+      const matches = this.targetMatcher.filter(compileTargetQuery(text), this.terminals);
+      return { text, matchedKeys: matches.map((item) => item.key), error: "" };
+    } catch (error) {
+      return { text, matchedKeys: [], error: toErrorMessage(error) };
+    }
+  }
+
+  private async loadItems(load: () => Promise<string[] | undefined>): Promise<void> {
+    try {
+      const values = await load();
+      if (!values || !this.view) {
+        return;
+      }
+      if (values.length === 0) {
+        void vscode.window.showWarningMessage(vscode.l10n.t("No values found for {item}."));
+        return;
+      }
+      await this.view.webview.postMessage({ type: "itemsLoaded", values });
+    } catch (error) {
+      void vscode.window.showWarningMessage(toErrorMessage(error));
+    }
+  }
+
+  private async sendSelected(
+    message: Extract<ViewMessage, { type: "sendCommand" }>
+  ): Promise<void> {
+    const text = message.command.trim();
     if (!text) {
       return;
     }
 
-    const targets = this.terminals
+    let targets = this.terminals
       .filter((item) => this.selectedKeys.has(item.key))
       .map((item) => item.terminal);
     if (targets.length === 0) {
@@ -306,23 +561,202 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       return;
     }
 
-    const sentCount = await this.broadcaster.broadcast(
-      targets,
-      text,
-      readNexusConfig().options,
-      { skipBusyFilter: true, waitUntilReadyMs: 8000, allowForceAfterReadyTimeout: true }
-    );
-    if (sentCount === 0) {
+    const options = readNexusConfig().options;
+    const items: BroadcastItems | undefined = templateUsesItem(text)
+      ? {
+          values: parseItemLines(message.itemsText ?? ""),
+          mode: message.itemMode === "round-robin" ? "round-robin" : "one-to-one"
+        }
+      : undefined;
+
+    if (message.dryRun) {
+      try {
+        const confirmed = await showDryRunPreview(
+          await this.broadcaster.planDryRun(targets, text, options, items)
+        );
+        if (!confirmed) {
+          return;
+        }
+        targets = confirmed;
+      } catch (error) {
+        void vscode.window.showErrorMessage(
+          vscode.l10n.t("Broadcast canceled: {0}", toErrorMessage(error))
+        );
+        return;
+      }
+    }
+
+    const run = await this.broadcaster.broadcast(targets, text, options, {
+      skipBusyFilter: true,
+      waitUntilReadyMs: message.dryRun ? 0 : 8000,
+      allowForceAfterReadyTimeout: true,
+      items,
+      payloadMode: isPayloadMode(message.payloadMode) ? message.payloadMode : undefined,
+      inputMode: isInputMode(message.inputMode) ? message.inputMode : undefined,
+      source: "panel",
+      canary: message.canary
+        ? {
+            marked: this.getCanaryTerminals(),
+            successPattern: message.canaryPattern?.trim() || undefined
+          }
+        : undefined,
+      rollingWindow: message.rolling ? options.rollingWindow : undefined
+    });
+    if (!run) {
       return;
     }
 
     this.quickCommands.record(text);
     vscode.window.setStatusBarMessage(
-      vscode.l10n.t("$(zap) Broadcast sent to {0} terminal(s)", String(sentCount)),
+      vscode.l10n.t("$(zap) Broadcast sent to {0} terminal(s)", String(run.targets.length)),
       3000
     );
   }
 
+  private async postCommandPreview(command: string, item?: string): Promise<void> {
+    if (!this.view) {
+      return;
+    }
+
+    const targets = this.resolveSelectedTerminals();
+    const text = command.trim();
+    if (!text || targets.length === 0) {
+      await this.view.webview.postMessage({ type: "commandPreview", text: "", error: "" });
+      return;
+    }
+
+    try {
+      const resolved = await this.broadcaster.previewCommand(
+        targets[0],
+        text,
+        1,
+        targets.length,
+        item
+      );
+      await this.view.webview.postMessage({
+        type: "commandPreview",
+        terminalName: targets[0].name,
+        text: resolved,
+        error: ""
+      });
+    } catch (error) {
+      await this.view.webview.postMessage({
+        type: "commandPreview",
+        terminalName: targets[0].name,
+        text: "",
+        error: toErrorMessage(error)
+      });
+    }
+  }
+
+  private getShellOverrides(): Record<string, ShellType> {
+    const stored = this.extensionContext.workspaceState.get<Record<string, unknown>>(
+      ControlPanelProvider.shellOverridesStateKey,
+      {}
+    );
+    const overrides: Record<string, ShellType> = {};
+    for (const [key, value] of Object.entries(stored ?? {})) {
+      if (isShellType(value)) {
+        overrides[key] = value;
+      }
+    }
+    return overrides;
+  }
+
+  private applyShellOverrides(): void {
+    const overrides = this.getShellOverrides();
+    for (const item of this.terminals) {
+      this.shellTypes.setOverride(item.terminal, overrides[item.key]);
+    }
+  }
+
+  private async setShellOverride(key: string, rawShellType: string): Promise<void> {
+    const managed = this.terminals.find((item) => item.key === key);
+    if (!managed) {
+      return;
+    }
+
+    const shellType = isShellType(rawShellType) ? rawShellType : undefined;
+    const overrides = this.getShellOverrides();
+    if (shellType) {
+      overrides[key] = shellType;
+    } else {
+      delete overrides[key];
+    }
+    this.shellTypes.setOverride(managed.terminal, shellType);
+    await this.extensionContext.workspaceState.update(
+      ControlPanelProvider.shellOverridesStateKey,
+      overrides
+    );
+    await this.postState();
+  }
+
+  /** An explicit selection replaces whatever was restored for terminals not open yet. */
+  private setSelectedKeys(keys: Iterable<string>): void {
+    this.selectedKeys = new Set(keys);
+    this.pendingSelectedKeys.clear();
+    this.syncFollowers();
+    this.persistSelection();
+  }
+
+  private persistSelection(): void {
+    void this.extensionContext.workspaceState.update(ControlPanelProvider.selectionStateKey, [
+      ...this.selectedKeys,
+      ...this.pendingSelectedKeys
+    ]);
+  }
+
+  /** Terminals checked in the panel. */
+  public getSelectedTerminals(): vscode.Terminal[] {
+    return this.resolveSelectedTerminals();
+  }
+
+  /** The text of the panel filter box, used to prefill new target set rules. */
+  public getTargetQuery(): string {
+    return this.targetQuery.trim();
+  }
+
+  /** Replaces the panel selection, e.g. with a freshly spawned fleet. */
+  public async selectTerminals(terminals: vscode.Terminal[]): Promise<void> {
+    await this.refreshTerminals();
+    this.setSelectedKeys(
+      this.terminals.filter((item) => terminals.includes(item.terminal)).map((item) => item.key)
+    );
+    await this.postState();
+  }
+
+  /** Terminals marked as canaries in the panel, used before falling back to the first N. */
+  public getCanaryTerminals(): vscode.Terminal[] {
+    const canaryKeys = new Set(this.getCanaryKeys());
+    return this.terminals
+      .filter((item) => canaryKeys.has(item.key))
+      .map((item) => item.terminal);
+  }
+
+  private getCanaryKeys(): string[] {
+    return toStringArray(
+      this.extensionContext.workspaceState.get(ControlPanelProvider.canaryKeysStateKey, [])
+    );
+  }
+
+  private async toggleCanary(key: string): Promise<void> {
+    if (!this.terminals.some((item) => item.key === key)) {
+      return;
+    }
+
+    const canaryKeys = new Set(this.getCanaryKeys());
+    if (canaryKeys.has(key)) {
+      canaryKeys.delete(key);
+    } else {
+      canaryKeys.add(key);
+    }
+    await this.extensionContext.workspaceState.update(
+      ControlPanelProvider.canaryKeysStateKey,
+      [...canaryKeys]
+    );
+    await this.postState();
+  }
+
   private async handleSettingUpdate(
     rawKey: string,
     rawValue: string | number | boolean
@@ -355,7 +789,7 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
 
     await updateNexusSetting(rawKey, normalized);
     if (rawKey === "autoSelectRegex") {
-      this.selectedKeys = applyRegexSelection(this.terminals, String(normalized));
+      this.setSelectedKeys(applyRegexSelection(this.terminals, String(normalized)));
     }
     await this.postState();
   }
@@ -366,7 +800,8 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
     const merged = mergeViewPreferences(
       this.viewPreferences,
       payload,
-      this.terminals.map((item) => item.key)
+      this.terminals.map((item) => item.key),
+      (key) => this.terminalManager.isKnownId(key)
     );
 
     if (areViewPreferencesEqual(this.viewPreferences, merged)) {
@@ -413,6 +848,90 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
     }
   }
 
+  /** Marks the leader for replication; choosing the current leader again clears it. */
+  private setLeader(key: string): void {
+    const leader = this.terminals.find((item) => item.key === key);
+    if (!leader || key === this.leaderKey) {
+      this.leaderKey = undefined;
+      this.commandReplicator.stop();
+      return;
+    }
+
+    this.leaderKey = key;
+    const status = this.commandReplicator.getStatus();
+    if (status.active) {
+      this.startReplication(status.busyMode);
+    }
+  }
+
+  private startReplication(busyMode: FollowerBusyMode): void {
+    const leader = this.terminals.find((item) => item.key === this.leaderKey);
+    if (!leader) {
+      void vscode.window.showWarningMessage(
+        vscode.l10n.t("Mark a leader terminal with ♛ before starting replication.")
+      );
+      return;
+    }
+    try {
+      this.commandReplicator.start(
+        leader.terminal,
+        this.resolveSelectedTerminals(),
+        busyMode,
+        readNexusConfig().options
+      );
+    } catch (error) {
+      void vscode.window.showWarningMessage(toErrorMessage(error));
+    }
+  }
+
+  private syncFollowers(): void {
+    if (this.commandReplicator.getStatus().active) {
+      this.commandReplicator.setFollowers(this.resolveSelectedTerminals());
+    }
+  }
+
+  /**
+   * Stops polling, the task chain and replication, then interrupts the chosen terminals.
+   * Falls back to the other scope when the chosen one has no terminals.
+   */
+  public interruptTerminals(scope: InterruptScope): void {
+    const selected = this.resolveSelectedTerminals();
+    const lastRun = this.broadcastRunTracker.getRuns()[0];
+    const lastTargets = [...new Set(lastRun?.targets.map((target) => target.terminal) ?? [])];
+    const targets =
+      scope === "selected"
+        ? selected.length > 0
+          ? selected
+          : lastTargets
+        : lastTargets.length > 0
+          ? lastTargets
+          : selected;
+
+    const status = this.taskAutomationManager.getStatus();
+    const stoppedAutomation =
+      status.polling.active || status.chain.active || this.commandReplicator.getStatus().active;
+    this.taskAutomationManager.stopPolling();
+    this.taskAutomationManager.stopChain();
+    this.commandReplicator.stop();
+
+    const count = this.broadcaster.interrupt(targets, readNexusConfig().options);
+    if (count === 0 && !stoppedAutomation) {
+      void vscode.window.showWarningMessage(
+        vscode.l10n.t("No terminal to interrupt. Select terminals or broadcast first.")
+      );
+      return;
+    }
+    vscode.window.setStatusBarMessage(
+      stoppedAutomation
+        ? vscode.l10n.t(
+            "$(debug-stop) Interrupted {0} terminal(s) and stopped automation",
+            String(count)
+          )
+        : vscode.l10n.t("$(debug-stop) Interrupted {0} terminal(s)", String(count)),
+      5000
+    );
+  }
+
   private resolveSelectedTerminals(): vscode.Terminal[] {
     return this.terminals
       .filter((item) => this.selectedKeys.has(item.key))
@@ -453,6 +972,17 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
     }
   }
 
+  private handleReplicationStatus(status: ReplicationStatus): void {
+    if (status.error && status.error !== this.lastAutomationErrors.replication) {
+      this.lastAutomationErrors.replication = status.error;
+      void vscode.window.showWarningMessage(
+        vscode.l10n.t("Replication: {0}", status.error)
+      );
+    } else if (!status.error) {
+      this.lastAutomationErrors.replication = "";
+    }
+  }
+
   private resolveInitialPanelLanguage(): PanelLanguage {
     const stored = this.extensionContext.workspaceState.get(
       ControlPanelProvider.panelLanguageStateKey
@@ -494,10 +1024,23 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       refresh: l("Refresh"),
       selectAll: l("Select All"),
       clear: l("Clear"),
+      interrupt: l("Interrupt"),
+      interruptTitle: l("Send Ctrl+C (Esc for AI CLIs) to selected terminals and stop polling and task chains"),
       selectedCount: l("Selected {0} / {1}"),
       groupBy: l("Group By"),
       groupNone: l("No Grouping"),
       groupToolType: l("Tool Type"),
+      groupTag: l("Tag"),
+      groupUntagged: l("Untagged"),
+      tagBarTitle: l("Click a tag to select or clear its terminals"),
+      editTags: l("Edit tags and note"),
+      targetQueryPlaceholder: l("Filter, e.g. tag:api and state:ready and not name:/prod/"),
+      selectQueryMatches: l("Select Matches"),
+      targetQueryMatches: l("{0} of {1} terminal(s) match"),
+      saveTargetSet: l("+ Save Set"),
+      saveTargetSetTitle: l("Save the selection or the filter as a named target set"),
+      deleteTargetSet: l("Delete target set"),
+      targetSetGlobal: l("Shared across workspaces"),
       sortBy: l("Sort By"),
       sortCustom: l("Custom Order"),
       sortNameAsc: l("Name A-Z"),
@@ -525,9 +1068,37 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       sendShortcut: l("Ctrl/Cmd + Enter to send"),
       commandInputPlaceholder: l("Enter text or command to broadcast"),
       commandPlaceholderHelp: l(
-        "Placeholders: {name}, {index}, quoted name: {name:quoted}"
+        "Placeholders: {name}, {index}, {index:03}, {count}, {pid}, {cwd}, {group}, {env:VAR}, {host}, {host:VAR}, {date:YYYY-MM-DD}, {name:quoted}, {raw:...}; filters: {name|lower|slug}"
       ),
+      commandPreviewTitle: l("Preview for {0}"),
+      itemValues: l("Values for {item}"),
+      itemValuesPlaceholder: l("One value per line; used only when the command contains {item}"),
+      itemModeOneToOne: l("One-to-one"),
+      itemModeRoundRobin: l("Round-robin"),
+      inputMode: l("Input"),
+      inputModeText: l("Text + Enter"),
+      inputModeTextNoEnter: l("Text, no trailing Enter"),
+      inputModeKeys: l("Key sequence"),
+      inputModeHelp: l("Key sequence sends keys such as <C-c>, <Esc>, <Up><Enter> or <Tab> verbatim. Prefix a command with keys: to do the same anywhere."),
+      payloadMode: l("Multi-line"),
+      payloadModeAuto: l("Auto (per CLI)"),
+      payloadModeLineByLine: l("Line by line"),
+      payloadModeBracketedPaste: l("Single paste"),
+      itemLoadFile: l("Load File..."),
+      itemGlobPlaceholder: l("Workspace glob, e.g. tests/**/*.spec.ts"),
+      itemLoadGlob: l("Load Glob"),
+      itemCount: l("{0} value(s)"),
+      commandPreviewError: l("Placeholder error: {0}"),
       sendToSelectedTerminals: l("Send to Selected Terminals"),
+      dryRun: l("Dry Run"),
+      canaryFirst: l("Canary first"),
+      canaryFirstHelp: l("Send to the marked canary terminals (or the first N selected) and continue only if they exit with code 0 or match the pattern."),
+      canaryPatternPlaceholder: l("Success pattern (regex, optional)"),
+      rolling: l("Rolling ({0} at a time)"),
+      rollingHelp: l("Send to at most N terminals at once; the next one starts when a previous command finishes. Stops early on failures as configured in settings."),
+      canaryMark: l("Mark as canary"),
+      canaryUnmark: l("Canary: click to unmark"),
+      viewBroadcastResults: l("View Results"),
       pollingCommand: l("Polling Command"),
       pollingCommandPlaceholder: l("Enter command for interval sending"),
       pollingIntervalSeconds: l("Interval (seconds)"),
@@ -543,7 +1114,7 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
         "One command per line. Use directives like {delay: 2000} and {wait_ready: 5000, timeout: 120000}."
       ),
       chainSyntaxHelp: l(
-        "Directives: {delay:ms}, {wait_ready:ms}, {wait_idle:ms}, optional timeout: {wait_ready:ms, timeout:ms}; comments start with #."
+        "Directives: {delay:ms}, {wait_ready:ms}, {wait_idle:ms}, optional timeout: {wait_ready:ms, timeout:ms}; target: <query> picks the terminals for the following steps; comments start with #."
       ),
       chainPreview: l("Syntax Preview"),
       chainPreviewOk: l("No syntax issues"),
@@ -573,6 +1144,27 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       chainStatusDone: l("Task chain completed"),
       chainStatusStopped: l("Task chain stopped"),
       chainStatusError: l("Task chain error: {0}"),
+      tabReplicate: l("Replicate"),
+      replicationHelp: l("Commands run in the leader terminal (♛) are replayed to the selected terminals. Needs shell integration in the leader."),
+      replicationBusyMode: l("Busy followers"),
+      replicationBusyQueue: l("Queue until ready"),
+      replicationBusySkip: l("Skip"),
+      startReplication: l("Start Replication"),
+      stopReplication: l("Stop Replication"),
+      replicationStatusIdle: l("Replication idle"),
+      replicationStatusNoLeader: l("No leader marked"),
+      replicationStatusRunning: l("Replicating {0} to {1} follower(s): {2} sent, {3} queued"),
+      replicationStatusError: l("Replication error: {0}"),
+      spawnFleet: l("Spawn Fleet..."),
+      spawnFleetTitle: l("Create several terminals from a fleet profile and select them"),
+      uploadScript: l("Upload Script..."),
+      uploadScriptTitle: l("Upload a file into the selected terminals and optionally run it"),
+      cancelUpload: l("Cancel Upload"),
+      uploadStatusRunning: l("Uploading {0} to {1} terminal(s): {2}/{3} chunks"),
+      uploadStatusError: l("Upload stopped: {0}"),
+      leaderMark: l("Mark as replication leader"),
+      leaderUnmark: l("Leader: click to unmark"),
+      leaderBadge: l("LEADER"),
       autoSelectRegex: l("Auto-select Regex"),
       autoSelectRegexPlaceholder: l("e.g. Agent.*"),
       confirmBeforeBroadcast: l("Confirm Before Send"),
@@ -580,6 +1172,16 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       enabled: l("Enabled"),
       waveThreshold: l("Wave Threshold"),
       waveDelay: l("Wave Delay"),
+      dispatchConcurrency: l("Parallel Sends"),
+      canaryCount: l("Canary Count"),
+      canaryTimeout: l("Canary Timeout"),
+      rollingWindow: l("Rolling Window"),
+      rollingStopOnFailure: l("Rolling: Stop on First Failure"),
+      rollingMaxFailures: l("Rolling: Max Failures"),
+      rollingMaxFailuresHelp: l("0 = no limit"),
+      retryMaxAttempts: l("Retry: Max Attempts"),
+      retryMaxAttemptsHelp: l("1 = no retries"),
+      retryBackoff: l("Retry: Backoff"),
       noTerminalsAvailable: l("No terminals available."),
       pidWithValue: l("PID: {0}"),
       pidUnknown: l("PID: Unknown"),
@@ -589,6 +1191,13 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       stateCliThinking: l("CLI Thinking"),
       statusReady: l("Ready"),
       statusBusy: l("Busy"),
+      shellAuto: l("auto ({0})"),
+      shellOverrideTitle: l("Shell used for quoting placeholders"),
+      resultSucceeded: l("Last broadcast succeeded"),
+      resultFailed: l("Last broadcast failed (exit code {0})"),
+      resultPending: l("Last broadcast still running"),
+      resultNotStarted: l("Last broadcast did not start (no shell integration)"),
+      resultUnknown: l("Last broadcast exit code unknown"),
       settingsTitle: l("Settings"),
       settingsOpen: l("Open settings"),
       settingsClose: l("Close"),
@@ -658,6 +1267,10 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       background: var(--vscode-button-background);
       color: var(--vscode-button-foreground);
     }
+    button.danger {
+      color: var(--vscode-errorForeground, #f85149);
+      border-color: var(--vscode-errorForeground, #f85149);
+    }
     .sub {
       color: var(--muted);
       font-size: 11px;
@@ -753,6 +1366,140 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       font-size: 11px;
       flex-shrink: 0;
     }
+    .terminal-note {
+      color: var(--muted);
+      font-size: 11px;
+      font-style: italic;
+      min-width: 0;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    .tag-chip {
+      font-size: 10px;
+      border-radius: 999px;
+      padding: 0 5px;
+      flex-shrink: 0;
+      color: var(--vscode-badge-foreground);
+      background: var(--vscode-badge-background);
+    }
+    .tag-bar {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 4px;
+    }
+    .tag-bar:empty {
+      display: none;
+    }
+    .target-set-row {
+      flex-wrap: nowrap;
+      align-items: flex-start;
+    }
+    button.set-chip {
+      font-size: 11px;
+      border-radius: 999px;
+      padding: 0 4px 0 8px;
+      display: inline-flex;
+      align-items: center;
+      gap: 4px;
+    }
+    button.set-chip.active {
+      border-color: var(--vscode-focusBorder);
+      color: var(--vscode-button-foreground);
+      background: var(--vscode-button-background);
+    }
+    button.set-chip.empty {
+      opacity: 0.5;
+    }
+    .set-chip-delete {
+      opacity: 0.6;
+      padding: 0 2px;
+    }
+    .set-chip-delete:hover {
+      opacity: 1;
+    }
+    button.link-btn {
+      flex-shrink: 0;
+      font-size: 11px;
+      padding: 0 6px;
+    }
+    button.tag-chip {
+      border: 1px solid transparent;
+      opacity: 0.6;
+    }
+    button.tag-chip.active {
+      opacity: 1;
+      border-color: var(--vscode-focusBorder);
+    }
+    button.tags-edit {
+      padding: 0 4px;
+      font-size: 10px;
+      flex-shrink: 0;
+      opacity: 0.45;
+    }
+    .terminal-result-badge {
+      font-size: 10px;
+      border-radius: 999px;
+      padding: 0 5px;
+      border: 1px solid var(--border);
+      flex-shrink: 0;
+    }
+    .terminal-result-badge.succeeded {
+      color: var(--vscode-terminal-ansiGreen, #3fb950);
+    }
+    .terminal-result-badge.failed {
+      color: var(--vscode-errorForeground, #f85149);
+    }
+    .terminal-result-badge.pending,
+    .terminal-result-badge.notStarted,
+    .terminal-result-badge.unknown {
+      color: var(--muted);
+    }
+    button.leader-toggle {
+      padding: 0 4px;
+      font-size: 10px;
+      flex-shrink: 0;
+      opacity: 0.45;
+    }
+    button.leader-toggle.active {
+      opacity: 1;
+      color: var(--vscode-terminal-ansiMagenta, #bc8cff);
+      border-color: var(--vscode-terminal-ansiMagenta, #bc8cff);
+    }
+    .terminal-item.leader {
+      box-shadow: inset 3px 0 0 var(--vscode-terminal-ansiMagenta, #bc8cff);
+    }
+    .leader-badge {
+      font-size: 9px;
+      font-weight: 600;
+      padding: 0 4px;
+      border-radius: 999px;
+      flex-shrink: 0;
+      color: var(--vscode-terminal-ansiMagenta, #bc8cff);
+      border: 1px solid var(--vscode-terminal-ansiMagenta, #bc8cff);
+    }
+    .leader-badge.replicating {
+      color: var(--vscode-editor-background);
+      background: var(--vscode-terminal-ansiMagenta, #bc8cff);
+    }
+    button.canary-toggle {
+      padding: 0 4px;
+      font-size: 10px;
+      flex-shrink: 0;
+      opacity: 0.45;
+    }
+    button.canary-toggle.active {
+      opacity: 1;
+      color: var(--vscode-terminal-ansiYellow, #d29922);
+      border-color: var(--vscode-terminal-ansiYellow, #d29922);
+    }
+    select.shell-select {
+      min-width: 0;
+      width: auto;
+      padding: 0 2px;
+      font-size: 10px;
+      flex-shrink: 0;
+    }
     .terminal-state-label {
       color: var(--muted);
       font-size: 11px;
@@ -856,6 +1603,43 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       font-size: 11px;
       line-height: 1.35;
     }
+    textarea.item-values {
+      min-height: 48px;
+    }
+    input.target-query {
+      flex: 1;
+      width: auto;
+      min-width: 120px;
+      font-family: var(--vscode-editor-font-family);
+    }
+    #targetQueryStatus:empty {
+      display: none;
+    }
+    #targetQueryStatus.error {
+      color: var(--vscode-errorForeground, #f85149);
+    }
+    .terminal-list.querying .terminal-item {
+      opacity: 0.45;
+    }
+    .terminal-list.querying .terminal-item.query-match {
+      opacity: 1;
+      background: color-mix(in srgb, var(--vscode-focusBorder) 15%, transparent);
+    }
+    input.item-glob {
+      flex: 1;
+      width: auto;
+      min-width: 120px;
+    }
+    .command-preview {
+      white-space: pre-wrap;
+      word-break: break-word;
+    }
+    .command-preview:empty {
+      display: none;
+    }
+    .command-preview.error {
+      color: var(--vscode-errorForeground, #f85149);
+    }
     .chain-preview-line {
       display: flex;
       gap: 6px;
@@ -935,6 +1719,8 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       <button id="refreshBtn">${i18n.refresh}</button>
       <button id="selectAllBtn">${i18n.selectAll}</button>
       <button id="clearBtn">${i18n.clear}</button>
+      <button id="spawnFleetBtn" title="${i18n.spawnFleetTitle}">${i18n.spawnFleet}</button>
+      <button id="interruptBtn" class="danger" title="${i18n.interruptTitle}">${i18n.interrupt}</button>
       <span id="selectedCount" class="sub"></span>
     </div>
     <div class="row sort-row">
@@ -943,6 +1729,7 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
         <select id="groupModeSelect">
           <option value="none">${i18n.groupNone}</option>
           <option value="tool-type">${i18n.groupToolType}</option>
+          <option value="tag">${i18n.groupTag}</option>
         </select>
       </div>
       <div class="sort-field">
@@ -960,6 +1747,16 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
         <button id="settingsBtn" class="icon-btn" title="${i18n.settingsOpen}">⚙</button>
       </div>
     </div>
+    <div class="row">
+      <input id="targetQueryInput" type="text" class="target-query" spellcheck="false" placeholder="${i18n.targetQueryPlaceholder}" />
+      <button id="selectQueryMatchesBtn">${i18n.selectQueryMatches}</button>
+    </div>
+    <div id="targetQueryStatus" class="sub"></div>
+    <div class="row target-set-row">
+      <div id="targetSetBar" class="tag-bar"></div>
+      <button id="saveTargetSetBtn" class="link-btn" title="${i18n.saveTargetSetTitle}">${i18n.saveTargetSet}</button>
+    </div>
+    <div id="tagBar" class="tag-bar"></div>
     <div id="dragHint" class="sub"></div>
     <div id="terminalList" class="terminal-list"></div>
   </div>
@@ -969,6 +1766,7 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       <button id="tabSendBtn" class="tab-button active">${i18n.tabSendNow}</button>
       <button id="tabPollingBtn" class="tab-button">${i18n.tabPolling}</button>
       <button id="tabChainBtn" class="tab-button">${i18n.tabTaskChain}</button>
+      <button id="tabReplicateBtn" class="tab-button">${i18n.tabReplicate}</button>
     </div>
 
     <div id="tabSendPanel" class="tab-panel active">
@@ -980,9 +1778,51 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       <div class="row">
         <span class="sub">${i18n.commandPlaceholderHelp}</span>
       </div>
+      <div id="commandPreviewTitle" class="sub"></div>
+      <div id="commandPreview" class="chain-preview command-preview"></div>
+      <div class="row" style="margin-top:8px;">
+        <span class="label">${i18n.itemValues}</span>
+        <select id="itemModeSelect">
+          <option value="one-to-one">${i18n.itemModeOneToOne}</option>
+          <option value="round-robin">${i18n.itemModeRoundRobin}</option>
+        </select>
+        <span id="itemCount" class="sub"></span>
+      </div>
+      <textarea id="itemValuesInput" class="item-values" placeholder="${i18n.itemValuesPlaceholder}"></textarea>
+      <div class="row">
+        <button id="itemLoadFileBtn">${i18n.itemLoadFile}</button>
+        <input id="itemGlobInput" type="text" class="item-glob" placeholder="${i18n.itemGlobPlaceholder}" />
+        <button id="itemLoadGlobBtn">${i18n.itemLoadGlob}</button>
+      </div>
+      <div class="row" style="margin-top:8px;">
+        <span class="label">${i18n.inputMode}</span>
+        <select id="inputModeSelect" title="${i18n.inputModeHelp}">
+          <option value="text">${i18n.inputModeText}</option>
+          <option value="textNoEnter">${i18n.inputModeTextNoEnter}</option>
+          <option value="keys">${i18n.inputModeKeys}</option>
+        </select>
+        <span class="label">${i18n.payloadMode}</span>
+        <select id="payloadModeSelect">
+          <option value="auto">${i18n.payloadModeAuto}</option>
+          <option value="lineByLine">${i18n.payloadModeLineByLine}</option>
+          <option value="bracketedPaste">${i18n.payloadModeBracketedPaste}</option>
+        </select>
+      </div>
+      <div class="row">
+        <label title="${i18n.canaryFirstHelp}"><input type="checkbox" id="canaryToggle" /> ${i18n.canaryFirst}</label>
+        <input id="canaryPatternInput" type="text" class="item-glob" placeholder="${i18n.canaryPatternPlaceholder}" />
+      </div>
+      <div class="row">
+        <label title="${i18n.rollingHelp}"><input type="checkbox" id="rollingToggle" /> <span id="rollingLabel"></span></label>
+      </div>
       <div class="row" style="margin-top:8px;">
         <button id="sendBtn" class="primary">${i18n.sendToSelectedTerminals}</button>
+        <button id="dryRunBtn">${i18n.dryRun}</button>
+        <button id="viewResultsBtn">${i18n.viewBroadcastResults}</button>
+        <button id="uploadScriptBtn" title="${i18n.uploadScriptTitle}">${i18n.uploadScript}</button>
+        <button id="cancelUploadBtn">${i18n.cancelUpload}</button>
       </div>
+      <div id="uploadStatus" class="status-line"></div>
     </div>
 
     <div id="tabPollingPanel" class="tab-panel">
@@ -1024,6 +1864,24 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       </div>
       <div id="chainStatus" class="status-line"></div>
     </div>
+
+    <div id="tabReplicatePanel" class="tab-panel">
+      <div class="row">
+        <span class="sub">${i18n.replicationHelp}</span>
+      </div>
+      <div class="row">
+        <span class="label">${i18n.replicationBusyMode}</span>
+        <select id="replicationBusyModeSelect">
+          <option value="queue">${i18n.replicationBusyQueue}</option>
+          <option value="skip">${i18n.replicationBusySkip}</option>
+        </select>
+      </div>
+      <div class="row">
+        <button id="startReplicationBtn" class="primary">${i18n.startReplication}</button>
+        <button id="stopReplicationBtn">${i18n.stopReplication}</button>
+      </div>
+      <div id="replicationStatus" class="status-line"></div>
+    </div>
   </div>
 
   <div class="block">
@@ -1048,13 +1906,50 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       <input id="waveDelayMs" type="number" min="0" step="5" />
       <span class="sub">ms</span>
     </div>
+    <div class="row">
+      <span class="label">${i18n.dispatchConcurrency}</span>
+      <input id="dispatchConcurrency" type="number" min="1" step="1" />
+    </div>
+    <div class="row">
+      <span class="label">${i18n.canaryCount}</span>
+      <input id="canaryCount" type="number" min="1" step="1" />
+    </div>
+    <div class="row">
+      <span class="label">${i18n.canaryTimeout}</span>
+      <input id="canaryTimeoutSeconds" type="number" min="1" step="1" />
+      <span class="sub">s</span>
+    </div>
+    <div class="row">
+      <span class="label">${i18n.rollingWindow}</span>
+      <input id="rollingWindow" type="number" min="1" step="1" />
+    </div>
+    <div class="row">
+      <span class="label">${i18n.rollingStopOnFailure}</span>
+      <label><input type="checkbox" id="rollingStopOnFailure" /> ${i18n.enabled}</label>
+    </div>
+    <div class="row">
+      <span class="label">${i18n.rollingMaxFailures}</span>
+      <input id="rollingMaxFailures" type="number" min="0" step="1" />
+      <span class="sub">${i18n.rollingMaxFailuresHelp}</span>
+    </div>
+    <div class="row">
+      <span class="label">${i18n.retryMaxAttempts}</span>
+      <input id="retryMaxAttempts" type="number" min="1" step="1" />
+      <span class="sub">${i18n.retryMaxAttemptsHelp}</span>
+    </div>
+    <div class="row">
+      <span class="label">${i18n.retryBackoff}</span>
+      <input id="retryBackoffMs" type="number" min="0" step="100" />
+      <span class="sub">ms</span>
+    </div>
   </div>
 
   <script nonce="${nonce}">
     const i18n = ${i18nJson};
     const vscode = acquireVsCodeApi();
 
-    const GROUP_ORDER = ["basic", "security", "network", "devops", "data", "other"];
+    const GROUP_ORDER = ${JSON.stringify(TERMINAL_GROUP_ORDER)};
+    const SHELL_TYPES = ${JSON.stringify(SHELL_TYPES)};
 
     let state = {
       terminals: [],
@@ -1070,7 +1965,15 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
         requireConfirmBeforeBroadcast: false,
         enableSensitiveCommandGuard: true,
         waveThreshold: 20,
-        waveDelayMs: 20
+        waveDelayMs: 20,
+        dispatchConcurrency: 8,
+        canaryCount: 1,
+        canaryTimeoutSeconds: 120,
+        rollingWindow: 1,
+        rollingStopOnFailure: true,
+        rollingMaxFailures: 0,
+        retryMaxAttempts: 1,
+        retryBackoffMs: 2000
       },
       panelLanguage: "${locale}",
       automation: {
@@ -1091,7 +1994,31 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
           detail: "",
           error: ""
         }
-      }
+      },
+      replication: {
+        active: false,
+        leaderName: "",
+        followerCount: 0,
+        busyMode: "queue",
+        replicatedCount: 0,
+        queuedCount: 0,
+        lastCommand: "",
+        error: ""
+      },
+      upload: {
+        active: false,
+        fileName: "",
+        targetCount: 0,
+        sentChunks: 0,
+        totalChunks: 0,
+        error: ""
+      },
+      targetQuery: {
+        text: "",
+        matchedKeys: [],
+        error: ""
+      },
+      targetSets: []
     };
 
     let activeTab = "send";
@@ -1107,17 +2034,44 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
     const terminalList = document.getElementById("terminalList");
     const selectedCount = document.getElementById("selectedCount");
     const commandInput = document.getElementById("commandInput");
+    const commandPreviewTitle = document.getElementById("commandPreviewTitle");
+    const commandPreview = document.getElementById("commandPreview");
+    const itemModeSelect = document.getElementById("itemModeSelect");
+    const payloadModeSelect = document.getElementById("payloadModeSelect");
+    const inputModeSelect = document.getElementById("inputModeSelect");
+    const canaryToggle = document.getElementById("canaryToggle");
+    const canaryPatternInput = document.getElementById("canaryPatternInput");
+    const rollingToggle = document.getElementById("rollingToggle");
+    const rollingLabel = document.getElementById("rollingLabel");
+    const itemCount = document.getElementById("itemCount");
+    const itemValuesInput = document.getElementById("itemValuesInput");
+    const itemLoadFileBtn = document.getElementById("itemLoadFileBtn");
+    const itemGlobInput = document.getElementById("itemGlobInput");
+    const itemLoadGlobBtn = document.getElementById("itemLoadGlobBtn");
     const settingsBtn = document.getElementById("settingsBtn");
     const settingsPanel = document.getElementById("settingsPanel");
     const settingsCloseBtn = document.getElementById("settingsCloseBtn");
     const panelLanguageSelect = document.getElementById("panelLanguageSelect");
     const refreshBtn = document.getElementById("refreshBtn");
+    const interruptBtn = document.getElementById("interruptBtn");
     const selectAllBtn = document.getElementById("selectAllBtn");
+    const spawnFleetBtn = document.getElementById("spawnFleetBtn");
     const clearBtn = document.getElementById("clearBtn");
     const sendBtn = document.getElementById("sendBtn");
+    const dryRunBtn = document.getElementById("dryRunBtn");
+    const viewResultsBtn = document.getElementById("viewResultsBtn");
+    const uploadScriptBtn = document.getElementById("uploadScriptBtn");
+    const cancelUploadBtn = document.getElementById("cancelUploadBtn");
+    const uploadStatus = document.getElementById("uploadStatus");
     const groupModeSelect = document.getElementById("groupModeSelect");
     const sortModeSelect = document.getElementById("sortModeSelect");
     const dragHint = document.getElementById("dragHint");
+    const tagBar = document.getElementById("tagBar");
+    const targetQueryInput = document.getElementById("targetQueryInput");
+    const selectQueryMatchesBtn = document.getElementById("selectQueryMatchesBtn");
+    const targetQueryStatus = document.getElementById("targetQueryStatus");
+    const targetSetBar = document.getElementById("targetSetBar");
+    const saveTargetSetBtn = document.getElementById("saveTargetSetBtn");
 
     const tabSendBtn = document.getElementById("tabSendBtn");
     const tabPollingBtn = document.getElementById("tabPollingBtn");
@@ -1125,6 +2079,8 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
     const tabSendPanel = document.getElementById("tabSendPanel");
     const tabPollingPanel = document.getElementById("tabPollingPanel");
     const tabChainPanel = document.getElementById("tabChainPanel");
+    const tabReplicateBtn = document.getElementById("tabReplicateBtn");
+    const tabReplicatePanel = document.getElementById("tabReplicatePanel");
 
     const pollingCommandInput = document.getElementById("pollingCommandInput");
     const pollingIntervalSec = document.getElementById("pollingIntervalSec");
@@ -1140,12 +2096,27 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
     const stopChainBtn = document.getElementById("stopChainBtn");
     const chainStatus = document.getElementById("chainStatus");
 
+    const replicationBusyModeSelect = document.getElementById("replicationBusyModeSelect");
+    const startReplicationBtn = document.getElementById("startReplicationBtn");
+    const stopReplicationBtn = document.getElementById("stopReplicationBtn");
+    const replicationStatus = document.getElementById("replicationStatus");
+
     const autoSelectRegex = document.getElementById("autoSelectRegex");
     const requireConfirmBeforeBroadcast = document.getElementById("requireConfirmBeforeBroadcast");
     const enableSensitiveCommandGuard = document.getElementById("enableSensitiveCommandGuard");
     const waveThreshold = document.getElementById("waveThreshold");
     const waveDelayMs = document.getElementById("waveDelayMs");
+    const dispatchConcurrency = document.getElementById("dispatchConcurrency");
+    const canaryCount = document.getElementById("canaryCount");
+    const canaryTimeoutSeconds = document.getElementById("canaryTimeoutSeconds");
+    const rollingWindow = document.getElementById("rollingWindow");
+    const rollingStopOnFailure = document.getElementById("rollingStopOnFailure");
+    const rollingMaxFailures = document.getElementById("rollingMaxFailures");
+    const retryMaxAttempts = document.getElementById("retryMaxAttempts");
+    const retryBackoffMs = document.getElementById("retryBackoffMs");
     let chainLintError = "";
+    let commandPreviewTimer = undefined;
+    let targetQueryTimer = undefined;
 
     function format(message, ...args) {
       return message.replace(/\\{(\\d+)\\}/g, (_, index) => {
@@ -1177,7 +2148,7 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
           selected.push(checkbox.getAttribute("data-terminal-key"));
         }
       });
-      return selected.filter((item) => Boolean(item));
+      return [...new Set(selected.filter((item) => Boolean(item)))];
     }
 
     function syncSelectionFromDom() {
@@ -1266,32 +2237,6 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       return terminals;
     }
 
-    function inferGroupId(name) {
-      const raw = String(name || "").toLowerCase();
-
-      if (/(security|sec|crypto|crypt|hash|jwt|scan|audit|pentest|vuln|ssh|gpg|openssl|nmap|sqlmap|burp|metasploit)/.test(raw)) {
-        return "security";
-      }
-
-      if (/(network|net|http|https|dns|proxy|socket|tcp|udp|ping|curl|wget|wireshark)/.test(raw)) {
-        return "network";
-      }
-
-      if (/(devops|docker|k8s|kubernetes|helm|terraform|ansible|jenkins|ci|cd|deploy|aws|gcp|azure)/.test(raw)) {
-        return "devops";
-      }
-
-      if (/(data|db|mysql|postgres|redis|mongodb|sqlite|elasticsearch|kafka)/.test(raw)) {
-        return "data";
-      }
-
-      if (/(bash|zsh|sh|pwsh|powershell|cmd|terminal|shell)/.test(raw)) {
-        return "basic";
-      }
-
-      return "other";
-    }
-
     function groupLabelById(groupId) {
       if (groupId === "basic") {
         return i18n.groupBasic;
@@ -1311,10 +2256,39 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       return i18n.groupOther;
     }
 
+    function getTagGroupedTerminals(sortedTerminals) {
+      const groups = new Map();
+      const untagged = [];
+      sortedTerminals.forEach((terminal) => {
+        if (terminal.tags.length === 0) {
+          untagged.push(terminal);
+          return;
+        }
+        terminal.tags.forEach((tag) => {
+          const groupId = "tag:" + tag;
+          const current = groups.get(groupId);
+          if (current) {
+            current.terminals.push(terminal);
+          } else {
+            groups.set(groupId, { id: groupId, label: "#" + tag, terminals: [terminal] });
+          }
+        });
+      });
+
+      const result = [...groups.values()].sort((a, b) => collator.compare(a.label, b.label));
+      if (untagged.length > 0) {
+        result.push({ id: "untagged", label: i18n.groupUntagged, terminals: untagged });
+      }
+      return result;
+    }
+
     function getGroupedTerminals(sortedTerminals) {
+      if (state.viewPreferences.groupMode === "tag") {
+        return getTagGroupedTerminals(sortedTerminals);
+      }
       const groups = new Map();
       sortedTerminals.forEach((terminal) => {
-        const groupId = inferGroupId(terminal.name);
+        const groupId = terminal.groupId;
         const current = groups.get(groupId);
         if (current) {
           current.terminals.push(terminal);
@@ -1395,9 +2369,116 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       };
     }
 
+    function createResultBadge(terminal) {
+      if (!terminal.lastOutcome) {
+        return null;
+      }
+      const badge = document.createElement("span");
+      badge.className = "terminal-result-badge " + terminal.lastOutcome;
+      if (terminal.lastOutcome === "succeeded") {
+        badge.textContent = "✓";
+        badge.title = i18n.resultSucceeded;
+      } else if (terminal.lastOutcome === "failed") {
+        badge.textContent = "✗ " + terminal.lastExitCode;
+        badge.title = format(i18n.resultFailed, terminal.lastExitCode);
+      } else if (terminal.lastOutcome === "pending") {
+        badge.textContent = "…";
+        badge.title = i18n.resultPending;
+      } else if (terminal.lastOutcome === "notStarted") {
+        badge.textContent = "–";
+        badge.title = i18n.resultNotStarted;
+      } else {
+        badge.textContent = "?";
+        badge.title = i18n.resultUnknown;
+      }
+      return badge;
+    }
+
+    function createShellSelect(terminal) {
+      const select = document.createElement("select");
+      select.className = "shell-select";
+      select.title = i18n.shellOverrideTitle;
+      const auto = document.createElement("option");
+      auto.value = "";
+      auto.textContent = format(
+        i18n.shellAuto,
+        terminal.shellOverride ? "…" : terminal.shellType
+      );
+      select.appendChild(auto);
+      SHELL_TYPES.forEach((shellType) => {
+        const option = document.createElement("option");
+        option.value = shellType;
+        option.textContent = shellType;
+        select.appendChild(option);
+      });
+      select.value = terminal.shellOverride || "";
+      select.addEventListener("change", () => {
+        post({ type: "setShellOverride", key: terminal.key, shellType: select.value });
+      });
+      return select;
+    }
+
+    function createCanaryToggle(terminal) {
+      const button = document.createElement("button");
+      button.className = terminal.canary ? "canary-toggle active" : "canary-toggle";
+      button.textContent = "⚑";
+      button.title = terminal.canary ? i18n.canaryUnmark : i18n.canaryMark;
+      button.addEventListener("click", () => {
+        post({ type: "toggleCanary", key: terminal.key });
+      });
+      return button;
+    }
+
+    function createTagsEditButton(terminal) {
+      const button = document.createElement("button");
+      button.className = "tags-edit";
+      button.textContent = "#";
+      button.title = i18n.editTags;
+      button.addEventListener("click", () => {
+        post({ type: "editTags", key: terminal.key });
+      });
+      return button;
+    }
+
+    function renderTagBar(selected) {
+      tagBar.innerHTML = "";
+      const byTag = new Map();
+      state.terminals.forEach((terminal) => {
+        terminal.tags.forEach((tag) => {
+          byTag.set(tag, [...(byTag.get(tag) || []), terminal]);
+        });
+      });
+      [...byTag.keys()].sort((a, b) => collator.compare(a, b)).forEach((tag) => {
+        const tagged = byTag.get(tag);
+        const allSelected = tagged.every((terminal) => selected.has(terminal.key));
+        const chip = document.createElement("button");
+        chip.className = allSelected ? "tag-chip active" : "tag-chip";
+        chip.textContent = "#" + tag + " " + tagged.length;
+        chip.title = i18n.tagBarTitle;
+        chip.addEventListener("click", () => {
+          toggleGroupSelection(tagged, !allSelected);
+        });
+        tagBar.appendChild(chip);
+      });
+    }
+
+    function createLeaderToggle(terminal) {
+      const button = document.createElement("button");
+      button.className = terminal.leader ? "leader-toggle active" : "leader-toggle";
+      button.textContent = "♛";
+      button.title = terminal.leader ? i18n.leaderUnmark : i18n.leaderMark;
+      button.addEventListener("click", () => {
+        post({ type: "setLeader", key: terminal.key });
+      });
+      return button;
+    }
+
     function createTerminalItem(terminal, selected, options) {
       const item = document.createElement("div");
-      item.className = "terminal-item";
+      item.className = terminal.leader ? "terminal-item leader" : "terminal-item";
+      if (state.targetQuery.matchedKeys.includes(terminal.key)) {
+        item.classList.add("query-match");
+      }
       const terminalState = getTerminalStateInfo(terminal.state);
 
       const handle = document.createElement("span");
@@ -1414,7 +2495,15 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       checkbox.type = "checkbox";
       checkbox.setAttribute("data-terminal-key", terminal.key);
       checkbox.checked = selected.has(terminal.key);
-      checkbox.addEventListener("change", syncSelectionFromDom);
+      checkbox.addEventListener("change", () => {
+        // In tag grouping a terminal can be listed under several tags.
+        terminalList.querySelectorAll("input[data-terminal-key]").forEach((other) => {
+          if (other.getAttribute("data-terminal-key") === terminal.key) {
+            other.checked = checkbox.checked;
+          }
+        });
+        syncSelectionFromDom();
+      });
 
       const name = document.createElement("span");
       name.className = "terminal-name";
@@ -1440,8 +2529,35 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       item.appendChild(checkbox);
       item.appendChild(statusDot);
       item.appendChild(name);
+      if (terminal.leader) {
+        const leaderBadge = document.createElement("span");
+        leaderBadge.className = state.replication.active ? "leader-badge replicating" : "leader-badge";
+        leaderBadge.textContent = i18n.leaderBadge;
+        item.appendChild(leaderBadge);
+      }
       item.appendChild(meta);
+      terminal.tags.forEach((tag) => {
+        const chip = document.createElement("span");
+        chip.className = "tag-chip";
+        chip.textContent = "#" + tag;
+        item.appendChild(chip);
+      });
+      if (terminal.note) {
+        const note = document.createElement("span");
+        note.className = "terminal-note";
+        note.textContent = terminal.note;
+        note.title = terminal.note;
+        item.appendChild(note);
+      }
+      const resultBadge = createResultBadge(terminal);
+      if (resultBadge) {
+        item.appendChild(resultBadge);
+      }
       item.appendChild(stateLabel);
+      item.appendChild(createTagsEditButton(terminal));
+      item.appendChild(createLeaderToggle(terminal));
+      item.appendChild(createCanaryToggle(terminal));
+      item.appendChild(createShellSelect(terminal));
 
       if (!options.dragEnabled) {
         return item;
@@ -1607,6 +2723,11 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       const selected = new Set(state.selectedKeys);
       const sortedTerminals = getSortedTerminals();
       terminalList.innerHTML = "";
+      terminalList.classList.toggle(
+        "querying",
+        Boolean(state.targetQuery.text) && !state.targetQuery.error
+      );
+      renderTagBar(selected);
 
       if (state.terminals.length === 0) {
         const empty = document.createElement("div");
@@ -1618,7 +2739,7 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
         return;
       }
 
-      if (state.viewPreferences.groupMode === "tool-type") {
+      if (state.viewPreferences.groupMode !== "none") {
         renderGroupedTerminals(sortedTerminals, selected);
       } else {
         renderFlatTerminals(sortedTerminals, selected);
@@ -1640,13 +2761,16 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       const isSend = tab === "send";
       const isPolling = tab === "polling";
       const isChain = tab === "chain";
+      const isReplicate = tab === "replicate";
 
       tabSendBtn.classList.toggle("active", isSend);
       tabPollingBtn.classList.toggle("active", isPolling);
       tabChainBtn.classList.toggle("active", isChain);
+      tabReplicateBtn.classList.toggle("active", isReplicate);
       tabSendPanel.classList.toggle("active", isSend);
       tabPollingPanel.classList.toggle("active", isPolling);
       tabChainPanel.classList.toggle("active", isChain);
+      tabReplicatePanel.classList.toggle("active", isReplicate);
     }
 
     function setSettingsPanelVisible(visible) {
@@ -1664,6 +2788,17 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       enableSensitiveCommandGuard.checked = Boolean(state.settings.enableSensitiveCommandGuard);
       waveThreshold.value = String(state.settings.waveThreshold);
       waveDelayMs.value = String(state.settings.waveDelayMs);
+      dispatchConcurrency.value = String(state.settings.dispatchConcurrency);
+      canaryCount.value = String(state.settings.canaryCount);
+      canaryTimeoutSeconds.value = String(state.settings.canaryTimeoutSeconds);
+      rollingWindow.value = String(state.settings.rollingWindow);
+      rollingStopOnFailure.checked = Boolean(state.settings.rollingStopOnFailure);
+      rollingMaxFailures.value = String(state.settings.rollingMaxFailures);
+      rollingMaxFailures.disabled = rollingStopOnFailure.checked;
+      retryMaxAttempts.value = String(state.settings.retryMaxAttempts);
+      retryBackoffMs.value = String(state.settings.retryBackoffMs);
+      retryBackoffMs.disabled = state.settings.retryMaxAttempts <= 1;
+      rollingLabel.textContent = format(i18n.rolling, state.settings.rollingWindow);
     }
 
     function renderViewPreferences() {
@@ -1718,6 +2853,11 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
           return;
         }
 
+        if (/^target\\s*:/i.test(line) || /^\\{\\s*target\\s*:.*\\}$/i.test(line)) {
+          items.push({ lineNo, className: "directive", text: raw });
+          return;
+        }
+
         const plainDirective = line.match(/^(wait_ready|wait_idle|delay)\\s*:\\s*(.+)$/i);
         if (plainDirective) {
           const rawValue = plainDirective[2].trim();
@@ -1892,21 +3032,178 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
       }
     }
 
+    function renderReplicationStatus() {
+      const replication = state.replication;
+      const hasLeader = state.terminals.some((terminal) => terminal.leader);
+      if (replication.error && !replication.active) {
+        replicationStatus.textContent = format(i18n.replicationStatusError, replication.error);
+      } else if (replication.active) {
+        replicationStatus.textContent = format(
+          i18n.replicationStatusRunning,
+          replication.leaderName,
+          replication.followerCount,
+          replication.replicatedCount,
+          replication.queuedCount
+        );
+      } else {
+        replicationStatus.textContent = hasLeader
+          ? i18n.replicationStatusIdle
+          : i18n.replicationStatusNoLeader;
+      }
+      if (replication.active) {
+        replicationBusyModeSelect.value = replication.busyMode;
+      }
+      replicationBusyModeSelect.disabled = Boolean(replication.active);
+      startReplicationBtn.disabled = Boolean(replication.active) || !hasLeader;
+      stopReplicationBtn.disabled = !replication.active;
+    }
+
+    function renderUploadStatus() {
+      const upload = state.upload;
+      if (upload.active) {
+        uploadStatus.textContent = format(
+          i18n.uploadStatusRunning,
+          upload.fileName,
+          upload.targetCount,
+          upload.sentChunks,
+          upload.totalChunks
+        );
+      } else {
+        uploadStatus.textContent = upload.error
+          ? format(i18n.uploadStatusError, upload.error)
+          : "";
+      }
+      uploadStatus.hidden = !uploadStatus.textContent;
+      uploadScriptBtn.disabled = Boolean(upload.active);
+      cancelUploadBtn.hidden = !upload.active;
+    }
+
+    function renderTargetQueryStatus() {
+      const query = state.targetQuery;
+      if (document.activeElement !== targetQueryInput && targetQueryInput.value !== query.text) {
+        targetQueryInput.value = query.text;
+      }
+      targetQueryStatus.classList.toggle("error", Boolean(query.error));
+      targetQueryStatus.textContent = query.error
+        ? query.error
+        : query.text
+          ? format(i18n.targetQueryMatches, query.matchedKeys.length, state.terminals.length)
+          : "";
+      selectQueryMatchesBtn.disabled = query.matchedKeys.length === 0;
+    }
+
+    function renderTargetSets() {
+      targetSetBar.innerHTML = "";
+      const selected = new Set(state.selectedKeys);
+      state.targetSets.forEach((set) => {
+        const chip = document.createElement("button");
+        const active =
+          set.keys.length > 0 &&
+          set.keys.length === selected.size &&
+          set.keys.every((key) => selected.has(key));
+        chip.className = active ? "set-chip active" : "set-chip";
+        chip.title = set.global ? set.detail + "\\n" + i18n.targetSetGlobal : set.detail;
+        chip.classList.toggle("empty", set.keys.length === 0);
+
+        const label = document.createElement("span");
+        label.textContent = (set.global ? "◎ " : "") + set.name + " " + set.keys.length;
+        chip.appendChild(label);
+
+        const remove = document.createElement("span");
+        remove.className = "set-chip-delete";
+        remove.textContent = "×";
+        remove.title = i18n.deleteTargetSet;
+        remove.addEventListener("click", (event) => {
+          event.stopPropagation();
+          post({ type: "deleteTargetSet", name: set.name });
+        });
+        chip.appendChild(remove);
+
+        chip.addEventListener("click", () => {
+          post({ type: "selectTargetSet", name: set.name });
+        });
+        targetSetBar.appendChild(chip);
+      });
+    }
+
+    function requestTargetQuery() {
+      if (targetQueryTimer) {
+        clearTimeout(targetQueryTimer);
+      }
+      targetQueryTimer = setTimeout(() => {
+        targetQueryTimer = undefined;
+        post({ type: "setTargetQuery", query: targetQueryInput.value });
+      }, 150);
+    }
+
     function render() {
       renderViewPreferences();
       renderTerminals();
+      renderTargetQueryStatus();
+      renderTargetSets();
       renderPanelSettings();
       renderSettings();
       renderChainPreview();
       renderAutomationStatus();
+      renderReplicationStatus();
+      renderUploadStatus();
+    }
+
+    function requestCommandPreview() {
+      if (commandPreviewTimer) {
+        clearTimeout(commandPreviewTimer);
+      }
+      commandPreviewTimer = setTimeout(() => {
+        commandPreviewTimer = undefined;
+        post({
+          type: "previewCommand",
+          command: commandInput.value,
+          item: getItemValues()[0]
+        });
+      }, 200);
+    }
+
+    function getItemValues() {
+      return itemValuesInput.value
+        .split(/\\r?\\n/)
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0);
+    }
+
+    function renderItemCount() {
+      const count = getItemValues().length;
+      itemCount.textContent = count > 0 ? format(i18n.itemCount, count) : "";
     }
 
-    function sendCurrentText() {
+    function renderCommandPreview(message) {
+      const hasContent = Boolean(message.text || message.error);
+      commandPreviewTitle.textContent =
+        hasContent && message.terminalName
+          ? format(i18n.commandPreviewTitle, message.terminalName)
+          : "";
+      commandPreview.classList.toggle("error", Boolean(message.error));
+      commandPreview.textContent = message.error
+        ? format(i18n.commandPreviewError, message.error)
+        : message.text || "";
+    }
+
+    function sendCurrentText(dryRun) {
       const text = commandInput.value.trim();
       if (!text) {
         return;
       }
-      post({ type: "sendCommand", command: text });
+      post({
+        type: "sendCommand",
+        command: text,
+        itemsText: itemValuesInput.value,
+        itemMode: itemModeSelect.value,
+        payloadMode: payloadModeSelect.value,
+        inputMode: inputModeSelect.value,
+        dryRun: dryRun === true,
+        canary: canaryToggle.checked,
+        canaryPattern: canaryPatternInput.value,
+        rolling: rollingToggle.checked
+      });
     }
 
     function startPollingTask() {
@@ -1932,13 +3229,23 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
     }
 
     refreshBtn.addEventListener("click", () => post({ type: "refreshTerminals" }));
+    interruptBtn.addEventListener("click", () => post({ type: "interrupt" }));
     selectAllBtn.addEventListener("click", () => post({ type: "selectAll" }));
+    spawnFleetBtn.addEventListener("click", () => post({ type: "spawnFleet" }));
     clearBtn.addEventListener("click", () => post({ type: "clearSelection" }));
-    sendBtn.addEventListener("click", sendCurrentText);
+    sendBtn.addEventListener("click", () => sendCurrentText(false));
+    dryRunBtn.addEventListener("click", () => sendCurrentText(true));
+    viewResultsBtn.addEventListener("click", () => post({ type: "showBroadcastResults" }));
+    uploadScriptBtn.addEventListener("click", () => post({ type: "uploadScript" }));
+    cancelUploadBtn.addEventListener("click", () => post({ type: "cancelUpload" }));
     startPollingBtn.addEventListener("click", startPollingTask);
     stopPollingBtn.addEventListener("click", () => post({ type: "stopPolling" }));
     startChainBtn.addEventListener("click", startTaskChain);
     stopChainBtn.addEventListener("click", () => post({ type: "stopTaskChain" }));
+    startReplicationBtn.addEventListener("click", () => {
+      post({ type: "startReplication", busyMode: replicationBusyModeSelect.value });
+    });
+    stopReplicationBtn.addEventListener("click", () => post({ type: "stopReplication" }));
     settingsBtn.addEventListener("click", () => {
       setSettingsPanelVisible(!settingsPanelVisible);
     });
@@ -1966,6 +3273,7 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
     tabSendBtn.addEventListener("click", () => setActiveTab("send"));
     tabPollingBtn.addEventListener("click", () => setActiveTab("polling"));
     tabChainBtn.addEventListener("click", () => setActiveTab("chain"));
+    tabReplicateBtn.addEventListener("click", () => setActiveTab("replicate"));
 
     groupModeSelect.addEventListener("change", () => {
       saveViewPreferences({ groupMode: groupModeSelect.value });
@@ -1981,6 +3289,26 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
         sendCurrentText();
       }
     });
+    commandInput.addEventListener("input", requestCommandPreview);
+    targetQueryInput.addEventListener("input", requestTargetQuery);
+    targetQueryInput.addEventListener("keydown", (event) => {
+      if (event.key === "Enter") {
+        clearTimeout(targetQueryTimer);
+        targetQueryTimer = undefined;
+        post({ type: "setTargetQuery", query: targetQueryInput.value });
+        post({ type: "selectQueryMatches" });
+      }
+    });
+    selectQueryMatchesBtn.addEventListener("click", () => post({ type: "selectQueryMatches" }));
+    saveTargetSetBtn.addEventListener("click", () => post({ type: "saveTargetSet" }));
+    itemValuesInput.addEventListener("input", () => {
+      renderItemCount();
+      requestCommandPreview();
+    });
+    itemLoadFileBtn.addEventListener("click", () => post({ type: "loadItemsFromFile" }));
+    itemLoadGlobBtn.addEventListener("click", () => {
+      post({ type: "loadItemsFromGlob", pattern: itemGlobInput.value });
+    });
     chainScriptInput.addEventListener("input", () => {
       renderChainPreview();
       renderAutomationStatus();
@@ -2017,14 +3345,84 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
         value: Math.max(0, Number(waveDelayMs.value) || 0)
       });
     });
+    dispatchConcurrency.addEventListener("change", () => {
+      post({
+        type: "updateSetting",
+        key: "dispatchConcurrency",
+        value: Math.max(1, Number(dispatchConcurrency.value) || 1)
+      });
+    });
+    canaryCount.addEventListener("change", () => {
+      post({
+        type: "updateSetting",
+        key: "canaryCount",
+        value: Math.max(1, Number(canaryCount.value) || 1)
+      });
+    });
+    canaryTimeoutSeconds.addEventListener("change", () => {
+      post({
+        type: "updateSetting",
+        key: "canaryTimeoutSeconds",
+        value: Math.max(1, Number(canaryTimeoutSeconds.value) || 1)
+      });
+    });
+    rollingWindow.addEventListener("change", () => {
+      post({
+        type: "updateSetting",
+        key: "rollingWindow",
+        value: Math.max(1, Number(rollingWindow.value) || 1)
+      });
+    });
+    rollingStopOnFailure.addEventListener("change", () => {
+      post({
+        type: "updateSetting",
+        key: "rollingStopOnFailure",
+        value: rollingStopOnFailure.checked
+      });
+    });
+    rollingMaxFailures.addEventListener("change", () => {
+      post({
+        type: "updateSetting",
+        key: "rollingMaxFailures",
+        value: Math.max(0, Number(rollingMaxFailures.value) || 0)
+      });
+    });
+    retryMaxAttempts.addEventListener("change", () => {
+      post({
+        type: "updateSetting",
+        key: "retryMaxAttempts",
+        value: Math.max(1, Number(retryMaxAttempts.value) || 1)
+      });
+    });
+    retryBackoffMs.addEventListener("change", () => {
+      post({
+        type: "updateSetting",
+        key: "retryBackoffMs",
+        value: Math.max(0, Number(retryBackoffMs.value) || 0)
+      });
+    });
 
     window.addEventListener("message", (event) => {
       const message = event.data;
-      if (!message || message.type !== "state") {
+      if (!message) {
+        return;
+      }
+      if (message.type === "commandPreview") {
+        renderCommandPreview(message);
+        return;
+      }
+      if (message.type === "itemsLoaded") {
+        itemValuesInput.value = message.values.join("\\n");
+        renderItemCount();
+        requestCommandPreview();
+        return;
+      }
+      if (message.type !== "state") {
         return;
       }
       state = message;
       render();
+      requestCommandPreview();
     });
 
     setActiveTab(activeTab);
@@ -2036,20 +3434,14 @@ export class ControlPanelProvider implements vscode.WebviewViewProvider, vscode.
 }
 
 function toManagedTerminals(descriptors: TerminalDescriptor[]): ManagedTerminal[] {
-  const sameNameCounts = new Map<string, number>();
-  return descriptors.map((descriptor) => {
-    const pid = descriptor.processId ?? -1;
-    const base = `${descriptor.name}::${pid}`;
-    const order = (sameNameCounts.get(base) ?? 0) + 1;
-    sameNameCounts.set(base, order);
-
-    return {
-      key: `${base}::${order}`,
-      terminal: descriptor.terminal,
-      name: descriptor.name,
-      processId: descriptor.processId
-    };
-  });
+  return descriptors.map((descriptor) => ({
+    key: descriptor.id,
+    terminal: descriptor.terminal,
+    name: descriptor.name,
+    processId: descriptor.processId,
+    tags: descriptor.tags,
+    note: descriptor.note
+  }));
 }
 
 function applyRegexSelection(
@@ -2081,7 +3473,15 @@ function isEditableSettingKey(value: string): value is EditableSettingKey {
     value === "requireConfirmBeforeBroadcast" ||
     value === "enableSensitiveCommandGuard" ||
     value === "waveThreshold" ||
-    value === "waveDelayMs"
+    value === "waveDelayMs" ||
+    value === "dispatchConcurrency" ||
+    value === "canaryCount" ||
+    value === "canaryTimeoutSeconds" ||
+    value === "rollingWindow" ||
+    value === "rollingStopOnFailure" ||
+    value === "rollingMaxFailures" ||
+    value === "retryMaxAttempts" ||
+    value === "retryBackoffMs"
   );
 }
 
@@ -2094,15 +3494,23 @@ function normalizeSettingValue(
       return String(value);
     case "requireConfirmBeforeBroadcast":
     case "enableSensitiveCommandGuard":
+    case "rollingStopOnFailure":
       return Boolean(value);
-    case "waveThreshold": {
+    case "waveThreshold":
+    case "dispatchConcurrency":
+    case "canaryCount":
+    case "canaryTimeoutSeconds":
+    case "rollingWindow":
+    case "retryMaxAttempts": {
       const parsed = Number(value);
       if (!Number.isFinite(parsed)) {
         return undefined;
       }
       return Math.max(1, Math.round(parsed));
     }
-    case "waveDelayMs": {
+    case "waveDelayMs":
+    case "rollingMaxFailures":
+    case "retryBackoffMs": {
       const parsed = Number(value);
       if (!Number.isFinite(parsed)) {
         return undefined;
@@ -2147,7 +3555,8 @@ function sanitizeViewPreferences(rawValue: unknown): ViewPreferences {
 function mergeViewPreferences(
   current: ViewPreferences,
   patch: ViewPreferencesPatch | undefined,
-  terminalKeys: string[]
+  terminalKeys: string[],
+  isKnownKey: (key: string) => boolean
 ): ViewPreferences {
   const base = sanitizeViewPreferences(current);
 
@@ -2156,7 +3565,8 @@ function mergeViewPreferences(
 
   const nextCustomOrder = normalizeCustomOrder(
     patch?.customOrder ?? base.customOrder,
-    terminalKeys
+    terminalKeys,
+    isKnownKey
   );
   const nextCollapsedGroups = normalizeCollapsedGroups(
     patch?.collapsedGroups ?? base.collapsedGroups
@@ -2170,13 +3580,18 @@ function mergeViewPreferences(
   };
 }
 
-function normalizeCustomOrder(order: string[], terminalKeys: string[]): string[] {
+/** Keys of terminals that may still be revived keep their place in the order. */
+function normalizeCustomOrder(
+  order: string[],
+  terminalKeys: string[],
+  isKnownKey: (key: string) => boolean
+): string[] {
   const keySet = new Set(terminalKeys);
   const added = new Set<string>();
   const normalized: string[] = [];
 
   for (const key of order) {
-    if (!keySet.has(key) || added.has(key)) {
+    if ((!keySet.has(key) && !isKnownKey(key)) || added.has(key)) {
       continue;
     }
     added.add(key);
@@ -2246,7 +3661,7 @@ function isSortMode(value: unknown): value is SortMode {
 }
 
 function isGroupMode(value: unknown): value is GroupMode {
-  return value === "none" || value === "tool-type";
+  return value === "none" || value === "tool-type" || value === "tag";
 }
 
 function getNonce(): string {
@@ -2259,6 +3674,20 @@ function getNonce(): string {
   return nonce;
 }
 
+function serializeReplicationStatus(status: ReplicationStatus): {
+  active: boolean;
+  leaderName: string;
+  followerCount: number;
+  busyMode: FollowerBusyMode;
+  replicatedCount: number;
+  queuedCount: number;
+  lastCommand: string;
+  error: string;
+} {
+  const { leader, ...rest } = status;
+  return { ...rest, leaderName: leader?.name ?? "" };
+}
+
 function toErrorMessage(error: unknown): string {
   if (error instanceof Error && error.message) {
     return error.message;
@@ -0,0 +1,308 @@
+import * as vscode from "vscode";
+import { BroadcastDryRun } from "./broadcaster";
+
+const VIEW_TYPE = "cursorTerminalNexus.dryRunPreview";
+
+type DryRunViewMessage =
+  | { type: "confirm"; positions: number[] }
+  | { type: "cancel" };
+
+/**
+ * Shows the per-terminal dry-run table and resolves with the targets left
+ * checked, or undefined when the preview is canceled or closed.
+ */
+export function showDryRunPreview(
+  dryRun: BroadcastDryRun
+): Promise<vscode.Terminal[] | undefined> {
+  const panel = vscode.window.createWebviewPanel(
+    VIEW_TYPE,
+    vscode.l10n.t("Broadcast Dry Run"),
+    vscode.ViewColumn.Active,
+    { enableScripts: true }
+  );
+  panel.webview.html = getWebviewHtml(panel.webview, dryRun);
+
+  return new Promise((resolve) => {
+    let settled = false;
+    const finish = (terminals: vscode.Terminal[] | undefined) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      resolve(terminals);
+      panel.dispose();
+    };
+
+    panel.webview.onDidReceiveMessage((message: DryRunViewMessage) => {
+      if (message?.type === "confirm") {
+        const terminals = message.positions
+          .map((position) => dryRun.targets[position]?.terminal)
+          .filter(
+            (terminal): terminal is vscode.Terminal =>
+              !!terminal && vscode.window.terminals.includes(terminal)
+          );
+        finish(terminals.length > 0 ? terminals : undefined);
+        return;
+      }
+      if (message?.type === "cancel") {
+        finish(undefined);
+      }
+    });
+    panel.onDidDispose(() => finish(undefined));
+  });
+}
+
+function getWebviewHtml(webview: vscode.Webview, dryRun: BroadcastDryRun): string {
+  const nonce = getNonce();
+  const csp = `default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';`;
+  const i18n = {
+    title: vscode.l10n.t("Broadcast Dry Run"),
+    terminal: vscode.l10n.t("Terminal"),
+    state: vscode.l10n.t("State"),
+    item: vscode.l10n.t("Item"),
+    resolvedCommand: vscode.l10n.t("Resolved Command"),
+    policy: vscode.l10n.t("Policy"),
+    busySkipped: vscode.l10n.t("Busy: would be skipped unless checked"),
+    blocked: vscode.l10n.t("Blocked"),
+    noPolicyHits: vscode.l10n.t("No rule matched"),
+    queuedItems: vscode.l10n.t("{0} more value(s) will be queued for terminals that become ready."),
+    sendTo: vscode.l10n.t("Send to {0} terminal(s)"),
+    cancel: vscode.l10n.t("Cancel")
+  };
+  const rows = dryRun.targets.map((target, position) => ({
+    position,
+    index: target.index,
+    name: target.terminal.name,
+    state: target.state,
+    busy: target.busy,
+    item: target.item,
+    command: target.command,
+    error: target.error,
+    severity: target.policy.severity,
+    hits: target.policy.hits.map((hit) => `${hit.description || hit.ruleId} (${hit.severity})`)
+  }));
+  const payload = JSON.stringify({ i18n, command: dryRun.command, queuedItems: dryRun.queuedItems, rows })
+    .replace(/</g, "\\u003c");
+
+  return `<!DOCTYPE html>
+<html lang="${vscode.env.language}">
+<head>
+  <meta charset="UTF-8" />
+  <meta http-equiv="Content-Security-Policy" content="${csp}">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>${i18n.title}</title>
+  <style>
+    :root {
+      color-scheme: light dark;
+      --muted: var(--vscode-descriptionForeground);
+      --border: var(--vscode-panel-border);
+    }
+    body {
+      margin: 0;
+      padding: 12px;
+      font-family: var(--vscode-font-family);
+      color: var(--vscode-foreground);
+      background: var(--vscode-editor-background);
+      font-size: 12px;
+      line-height: 1.45;
+    }
+    .row {
+      display: flex;
+      gap: 6px;
+      align-items: center;
+      flex-wrap: wrap;
+      margin-bottom: 8px;
+    }
+    .sub {
+      color: var(--muted);
+      font-size: 11px;
+    }
+    table {
+      width: 100%;
+      border-collapse: collapse;
+      margin-bottom: 10px;
+    }
+    th, td {
+      border-bottom: 1px solid var(--border);
+      padding: 4px 6px;
+      text-align: left;
+      vertical-align: top;
+    }
+    th {
+      color: var(--muted);
+      font-weight: 600;
+    }
+    tr.unchecked td {
+      opacity: 0.55;
+    }
+    pre {
+      margin: 0;
+      font-family: var(--vscode-editor-font-family, monospace);
+      font-size: 11px;
+      white-space: pre-wrap;
+      word-break: break-word;
+    }
+    .busy, .warn {
+      color: var(--vscode-terminal-ansiYellow, #d29922);
+    }
+    .error, .block {
+      color: var(--vscode-errorForeground, #f85149);
+    }
+    button {
+      border: 1px solid var(--border);
+      border-radius: 6px;
+      font-size: 12px;
+      cursor: pointer;
+      padding: 3px 10px;
+      background: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+    }
+    button.primary {
+      background: var(--vscode-button-background);
+      color: var(--vscode-button-foreground);
+    }
+    button:disabled {
+      opacity: 0.5;
+      cursor: default;
+    }
+  </style>
+</head>
+<body>
+  <pre id="command" class="row"></pre>
+  <div id="queued" class="row sub"></div>
+  <table>
+    <thead>
+      <tr>
+        <th><input id="toggleAll" type="checkbox" /></th>
+        <th>#</th>
+        <th>${i18n.terminal}</th>
+        <th>${i18n.state}</th>
+        <th>${i18n.item}</th>
+        <th>${i18n.resolvedCommand}</th>
+        <th>${i18n.policy}</th>
+      </tr>
+    </thead>
+    <tbody id="rows"></tbody>
+  </table>
+  <div class="row">
+    <button id="confirmBtn" class="primary"></button>
+    <button id="cancelBtn">${i18n.cancel}</button>
+  </div>
+
+  <script nonce="${nonce}">
+    const data = ${payload};
+    const i18n = data.i18n;
+    const vscode = acquireVsCodeApi();
+
+    const rowsBody = document.getElementById("rows");
+    const toggleAll = document.getElementById("toggleAll");
+    const confirmBtn = document.getElementById("confirmBtn");
+    const checkboxes = [];
+
+    function format(message, ...args) {
+      return message.replace(/\\{(\\d+)\\}/g, (_, index) => String(args[Number(index)] ?? ""));
+    }
+
+    function cell(text, className) {
+      const td = document.createElement("td");
+      if (className) {
+        td.className = className;
+      }
+      td.textContent = text;
+      return td;
+    }
+
+    function renderRow(row) {
+      const tr = document.createElement("tr");
+      const sendable = !row.error && row.severity !== "block";
+
+      const checkCell = document.createElement("td");
+      const checkbox = document.createElement("input");
+      checkbox.type = "checkbox";
+      checkbox.disabled = !sendable;
+      checkbox.checked = sendable && !row.busy;
+      checkbox.dataset.position = String(row.position);
+      checkbox.addEventListener("change", update);
+      checkboxes.push(checkbox);
+      checkCell.appendChild(checkbox);
+      tr.appendChild(checkCell);
+
+      tr.appendChild(cell(String(row.index)));
+      tr.appendChild(cell(row.name));
+      const stateCell = cell(row.state, row.busy ? "busy" : "");
+      if (row.busy) {
+        stateCell.title = i18n.busySkipped;
+      }
+      tr.appendChild(stateCell);
+      tr.appendChild(cell(row.item ?? "-"));
+
+      const commandCell = document.createElement("td");
+      const pre = document.createElement("pre");
+      pre.textContent = row.error || row.command || "";
+      if (row.error) {
+        pre.className = "error";
+      }
+      commandCell.appendChild(pre);
+      tr.appendChild(commandCell);
+
+      const policyText = row.hits.length > 0 ? row.hits.join("\\n") : i18n.noPolicyHits;
+      const policyCell = document.createElement("td");
+      const policyPre = document.createElement("pre");
+      policyPre.className = row.severity || "sub";
+      policyPre.textContent = row.severity === "block" ? i18n.blocked + "\\n" + policyText : policyText;
+      policyCell.appendChild(policyPre);
+      tr.appendChild(policyCell);
+
+      rowsBody.appendChild(tr);
+    }
+
+    function update() {
+      const checked = checkboxes.filter((checkbox) => checkbox.checked);
+      const enabled = checkboxes.filter((checkbox) => !checkbox.disabled);
+      checkboxes.forEach((checkbox) => {
+        checkbox.closest("tr").classList.toggle("unchecked", !checkbox.checked);
+      });
+      toggleAll.checked = enabled.length > 0 && checked.length === enabled.length;
+      confirmBtn.textContent = format(i18n.sendTo, checked.length);
+      confirmBtn.disabled = checked.length === 0;
+    }
+
+    document.getElementById("command").textContent = data.command;
+    document.getElementById("queued").textContent =
+      data.queuedItems > 0 ? format(i18n.queuedItems, data.queuedItems) : "";
+    data.rows.forEach(renderRow);
+    update();
+
+    toggleAll.addEventListener("change", () => {
+      checkboxes.forEach((checkbox) => {
+        if (!checkbox.disabled) {
+          checkbox.checked = toggleAll.checked;
+        }
+      });
+      update();
+    });
+    confirmBtn.addEventListener("click", () => {
+      vscode.postMessage({
+        type: "confirm",
+        positions: checkboxes
+          .filter((checkbox) => checkbox.checked)
+          .map((checkbox) => Number(checkbox.dataset.position))
+      });
+    });
+    document.getElementById("cancelBtn").addEventListener("click", () => {
+      vscode.postMessage({ type: "cancel" });
+    });
+  </script>
+</body>
+</html>`;
+}
+
+function getNonce(): string {
+  const characters =
+    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  let nonce = "";
+  for (let i = 0; i < 24; i += 1) {
+    nonce += characters.charAt(Math.floor(Math.random() * characters.length));
+  }
+  return nonce;
+}
@@ -0,0 +1,66 @@
+import * as vscode from "vscode";
+
+/**
+ * Text of the active editor's selections, joined in document order. An empty
+ * selection stands for its whole line, like copy and cut do.
+ */
+export function readEditorSelection(): string | undefined {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    void vscode.window.showInformationMessage(vscode.l10n.t("Open an editor to broadcast from."));
+    return undefined;
+  }
+
+  const selections = [...editor.selections].sort((a, b) => a.start.compareTo(b.start));
+  const text = selections
+    .map((selection) =>
+      selection.isEmpty
+        ? editor.document.lineAt(selection.active.line).text
+        : editor.document.getText(selection)
+    )
+    .join("\n");
+  if (!text.trim()) {
+    void vscode.window.showInformationMessage(
+      vscode.l10n.t("The selection is empty. Nothing to broadcast.")
+    );
+    return undefined;
+  }
+  return text;
+}
+
+/**
+ * Contents of the given file, or of the active editor when invoked without
+ * one. Open documents are read from the editor so unsaved edits are sent. The
+ * file's final line break is dropped; the broadcast submits the last line.
+ */
+export async function readFileForBroadcast(uri?: vscode.Uri): Promise<string | undefined> {
+  const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+  if (!target) {
+    void vscode.window.showInformationMessage(vscode.l10n.t("Open or pick a file to broadcast."));
+    return undefined;
+  }
+
+  let text: string;
+  try {
+    text = (await vscode.workspace.openTextDocument(target)).getText();
+  } catch (error) {
+    void vscode.window.showErrorMessage(
+      vscode.l10n.t(
+        "Failed to read {0}: {1}",
+        vscode.workspace.asRelativePath(target, false),
+        error instanceof Error ? error.message : String(error)
+      )
+    );
+    return undefined;
+  }
+  if (!text.trim()) {
+    void vscode.window.showInformationMessage(
+      vscode.l10n.t(
+        "{0} is empty. Nothing to broadcast.",
+        vscode.workspace.asRelativePath(target, false)
+      )
+    );
+    return undefined;
+  }
+  return text.replace(/\r?\n$/, "");
+}
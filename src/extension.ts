@@ -1,57 +1,640 @@
 import * as vscode from "vscode";
+import { BroadcastAuditLog } from "./auditLog";
+import { AuditLogPanel } from "./auditLogPanel";
+import { BroadcastResultsPanel } from "./broadcastResultsPanel";
+import {
+  BroadcastRunTracker,
+  formatRunSummary,
+  summarizeRun
+} from "./broadcastRuns";
 import { Broadcaster } from "./broadcaster";
+import { CommandPolicyStore } from "./commandPolicy";
 import { readNexusConfig } from "./config";
-import { ControlPanelProvider } from "./controlPanelProvider";
+import { ControlPanelProvider, InterruptScope } from "./controlPanelProvider";
+import { showDryRunPreview } from "./dryRunPreviewPanel";
+import { readEditorSelection, readFileForBroadcast } from "./editorSources";
+import { promptForItems } from "./itemSources";
+import { templateUsesItem } from "./placeholders";
+import { findFleetProfile, promptForFleet, spawnFleet } from "./terminalFleet";
+import {
+  pickLayout,
+  readLayouts,
+  restoreLayout,
+  saveLayout,
+  sendStartupCommands
+} from "./terminalLayouts";
+import { promptForUpload, ScriptUploader } from "./scriptUploader";
+import { ShellTypeRegistry } from "./shellTypes";
+import { InventoryHostRegistry, pickInventoryHosts, readInventory } from "./sshInventory";
 import { QuickCommands } from "./quickCommands";
+import { TargetMatcher } from "./targetQuery";
+import { promptForTargetSet, TargetSetStore } from "./targetSets";
+import { TerminalIdentityRegistry } from "./terminalIdentity";
 import { TerminalManager } from "./terminalManager";
 import { TerminalStateManager } from "./terminalStateManager";
+import { promptForAnnotation, TerminalTagStore } from "./terminalTags";
+
+interface SpawnFleetCommandArgs {
+  profile?: string;
+}
+
+interface RestoreLayoutCommandArgs {
+  layout?: string;
+}
+
+interface OpenInventoryHostsCommandArgs {
+  /** Inventory group whose hosts are opened without asking. */
+  group?: string;
+  /** Host names opened without asking. */
+  hosts?: string[];
+}
+
+interface BroadcastCommandArgs {
+  dryRun?: boolean;
+  canary?: boolean;
+  rolling?: boolean;
+  /** Target query that replaces the terminal QuickPick, e.g. `tag:api and state:ready`. */
+  query?: string;
+  /** Name of a saved target set that replaces the terminal QuickPick. */
+  targetSet?: string;
+}
+
+const MAX_HOSTS_WITHOUT_CONFIRM = 20;
 
 export function activate(context: vscode.ExtensionContext): void {
-  const terminalManager = new TerminalManager();
+  const terminalIdentities = new TerminalIdentityRegistry(context.workspaceState);
+  const terminalTags = new TerminalTagStore(context.workspaceState, terminalIdentities);
+  const terminalManager = new TerminalManager(terminalIdentities, terminalTags);
   const terminalStateManager = new TerminalStateManager();
   const quickCommands = new QuickCommands(context);
-  const broadcaster = new Broadcaster(terminalStateManager);
+  const broadcastRunTracker = new BroadcastRunTracker();
+  const shellTypes = new ShellTypeRegistry();
+  const commandPolicy = new CommandPolicyStore();
+  const auditLog = new BroadcastAuditLog(context.storageUri ?? context.globalStorageUri);
+  const auditLogPanel = new AuditLogPanel(auditLog);
+  const broadcastResultsPanel = new BroadcastResultsPanel(broadcastRunTracker);
+  const inventoryHosts = new InventoryHostRegistry(
+    context.workspaceState,
+    terminalManager,
+    terminalTags
+  );
+  const broadcaster = new Broadcaster(
+    terminalStateManager,
+    terminalManager,
+    broadcastRunTracker,
+    shellTypes,
+    commandPolicy,
+    auditLog,
+    inventoryHosts
+  );
+  const scriptUploader = new ScriptUploader(broadcaster, shellTypes);
+  const targetMatcher = new TargetMatcher(terminalManager, terminalStateManager);
+  const targetSets = new TargetSetStore(context, terminalManager, targetMatcher);
   const controlPanelProvider = new ControlPanelProvider(
     context,
     terminalManager,
     terminalStateManager,
     quickCommands,
-    broadcaster
+    broadcaster,
+    broadcastRunTracker,
+    shellTypes,
+    scriptUploader,
+    targetMatcher,
+    targetSets
   );
 
+  /**
+   * The panel's selected terminals when preferred and non-empty, otherwise a
+   * saved target set or a QuickPick.
+   */
+  const pickTargets = async (preferPanelSelection: boolean): Promise<vscode.Terminal[]> => {
+    const allTerminals = await terminalManager.listTerminals();
+    const panelTargets = preferPanelSelection ? controlPanelProvider.getSelectedTerminals() : [];
+    const setTargets = panelTargets.length > 0 ? [] : await targetSets.pickSetTerminals();
+    if (setTargets === undefined) {
+      return [];
+    }
+    const targets =
+      panelTargets.length > 0
+        ? panelTargets
+        : setTargets.length > 0
+          ? setTargets
+          : await terminalManager.pickTerminals(
+              allTerminals,
+              readNexusConfig().autoSelectRegex,
+              targetMatcher
+            );
+    if (targets.length === 0 && allTerminals.length > 0) {
+      vscode.window.showInformationMessage(
+        vscode.l10n.t("No terminal selected. Broadcast canceled.")
+      );
+    }
+    return targets;
+  };
+
+  /**
+   * Broadcasts typed text to terminals picked in a QuickPick. Text from the
+   * editor goes to the panel's selected terminals instead, when there are any.
+   */
+  const runBroadcastCommand = async (
+    { dryRun, canary, rolling, query, targetSet }: BroadcastCommandArgs,
+    editorText?: string
+  ) => {
+    let targets: vscode.Terminal[];
+    if (targetSet) {
+      const set = targetSets.get(targetSet);
+      if (!set) {
+        void vscode.window.showErrorMessage(
+          vscode.l10n.t("Target set \"{0}\" not found.", targetSet)
+        );
+        return;
+      }
+      targets = await targetSets.findTerminals(set);
+      if (targets.length === 0) {
+        void vscode.window.showInformationMessage(
+          vscode.l10n.t("Target set \"{0}\" has no open terminal.", targetSet)
+        );
+      }
+    } else if (query) {
+      try {
+        targets = await targetMatcher.findTerminals(query);
+      } catch (error) {
+        void vscode.window.showErrorMessage(
+          vscode.l10n.t(
+            "Invalid target query: {0}",
+            error instanceof Error ? error.message : String(error)
+          )
+        );
+        return;
+      }
+      if (targets.length === 0) {
+        void vscode.window.showInformationMessage(
+          vscode.l10n.t("No terminal matches the query {0}.", query)
+        );
+      }
+    } else {
+      targets = await pickTargets(editorText !== undefined);
+    }
+    if (targets.length === 0) {
+      return;
+    }
+    const config = readNexusConfig();
+
+    const commandText = editorText ?? (await quickCommands.promptForCommand(targets.length));
+    if (!commandText) {
+      return;
+    }
+
+    const raw = editorText !== undefined && !config.expandEditorPlaceholders;
+    const needsItems = !raw && templateUsesItem(commandText);
+    const items = needsItems ? await promptForItems() : undefined;
+    if (needsItems && !items) {
+      return;
+    }
+
+    let confirmedTargets = targets;
+    if (dryRun) {
+      let preview: vscode.Terminal[] | undefined;
+      try {
+        preview = await showDryRunPreview(
+          await broadcaster.planDryRun(targets, commandText, config.options, items)
+        );
+      } catch (error) {
+        void vscode.window.showErrorMessage(
+          vscode.l10n.t(
+            "Broadcast canceled: {0}",
+            error instanceof Error ? error.message : String(error)
+          )
+        );
+        return;
+      }
+      if (!preview) {
+        return;
+      }
+      confirmedTargets = preview;
+    }
+
+    const run = await broadcaster.broadcast(confirmedTargets, commandText, config.options, {
+      items,
+      skipBusyFilter: dryRun,
+      source: "command",
+      canary: canary ? { marked: controlPanelProvider.getCanaryTerminals() } : undefined,
+      rollingWindow: rolling ? config.options.rollingWindow : undefined,
+      raw
+    });
+    if (!run) {
+      return;
+    }
+
+    if (editorText === undefined) {
+      quickCommands.record(commandText);
+    }
+    const sentMessage = vscode.window.setStatusBarMessage(
+      vscode.l10n.t("$(zap) Broadcast sent to {0} terminal(s)", String(run.targets.length)),
+      3000
+    );
+    void broadcastRunTracker.whenFinished(run).then((finished) => {
+      sentMessage.dispose();
+      vscode.window.setStatusBarMessage(
+        `$(zap) ${formatRunSummary(summarizeRun(finished))}`,
+        5000
+      );
+    });
+  };
+
   const command = vscode.commands.registerCommand(
     "cursorTerminalNexus.broadcast",
+    (args?: BroadcastCommandArgs) =>
+      runBroadcastCommand({
+        dryRun: args?.dryRun === true,
+        canary: args?.canary === true,
+        rolling: args?.rolling === true,
+        query: typeof args?.query === "string" && args.query.trim() ? args.query.trim() : undefined,
+        targetSet: typeof args?.targetSet === "string" ? args.targetSet : undefined
+      })
+  );
+
+  const dryRunCommand = vscode.commands.registerCommand(
+    "cursorTerminalNexus.broadcastDryRun",
+    () => runBroadcastCommand({ dryRun: true })
+  );
+
+  const canaryCommand = vscode.commands.registerCommand(
+    "cursorTerminalNexus.broadcastCanary",
+    () => runBroadcastCommand({ canary: true })
+  );
+
+  const rollingCommand = vscode.commands.registerCommand(
+    "cursorTerminalNexus.broadcastRolling",
+    () => runBroadcastCommand({ rolling: true })
+  );
+
+  const broadcastSelectionCommand = vscode.commands.registerCommand(
+    "cursorTerminalNexus.broadcastSelection",
+    () => {
+      const text = readEditorSelection();
+      return text === undefined ? undefined : runBroadcastCommand({}, text);
+    }
+  );
+
+  const broadcastFileCommand = vscode.commands.registerCommand(
+    "cursorTerminalNexus.broadcastFile",
+    async (uri?: vscode.Uri) => {
+      const text = await readFileForBroadcast(uri instanceof vscode.Uri ? uri : undefined);
+      return text === undefined ? undefined : runBroadcastCommand({}, text);
+    }
+  );
+
+  const uploadScriptCommand = vscode.commands.registerCommand(
+    "cursorTerminalNexus.uploadScript",
+    async (uri?: vscode.Uri) => {
+      try {
+        const request = await promptForUpload(uri instanceof vscode.Uri ? uri : undefined);
+        if (!request) {
+          return;
+        }
+        const targets = await pickTargets(true);
+        if (targets.length === 0) {
+          return;
+        }
+
+        const run = await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: vscode.l10n.t("Uploading {0}", request.fileName),
+            cancellable: true
+          },
+          async (progress, token) => {
+            let reported = 0;
+            const statusListener = scriptUploader.onDidChangeStatus((status) => {
+              const percent =
+                status.totalChunks > 0 ? (status.sentChunks / status.totalChunks) * 100 : 0;
+              progress.report({
+                increment: percent - reported,
+                message: `${status.sentChunks}/${status.totalChunks}`
+              });
+              reported = percent;
+            });
+            const cancelListener = token.onCancellationRequested(() => scriptUploader.cancel());
+            try {
+              return await scriptUploader.upload(targets, request, readNexusConfig().options);
+            } finally {
+              statusListener.dispose();
+              cancelListener.dispose();
+            }
+          }
+        );
+        if (!run) {
+          return;
+        }
+        void broadcastRunTracker.whenFinished(run).then((finished) => {
+          vscode.window.setStatusBarMessage(
+            `$(cloud-upload) ${formatRunSummary(summarizeRun(finished))}`,
+            5000
+          );
+        });
+      } catch (error) {
+        void vscode.window.showErrorMessage(
+          vscode.l10n.t(
+            "Upload failed: {0}",
+            error instanceof Error ? error.message : String(error)
+          )
+        );
+      }
+    }
+  );
+
+  const spawnFleetCommand = vscode.commands.registerCommand(
+    "cursorTerminalNexus.spawnFleet",
+    async (args?: SpawnFleetCommandArgs) => {
+      try {
+        const profile =
+          typeof args?.profile === "string"
+            ? findFleetProfile(args.profile)
+            : await promptForFleet();
+        if (!profile) {
+          if (typeof args?.profile === "string") {
+            void vscode.window.showErrorMessage(
+              vscode.l10n.t("Fleet profile \"{0}\" not found.", args.profile)
+            );
+          }
+          return;
+        }
+
+        const terminals = await spawnFleet(profile);
+        await controlPanelProvider.selectTerminals(terminals);
+        vscode.window.setStatusBarMessage(
+          vscode.l10n.t("$(terminal) Spawned {0} terminal(s)", String(terminals.length)),
+          3000
+        );
+        if (!profile.startupCommand) {
+          return;
+        }
+        try {
+          await broadcaster.broadcastNonInteractive(
+            terminals,
+            profile.startupCommand,
+            readNexusConfig().options,
+            { source: "command" }
+          );
+        } catch (error) {
+          void vscode.window.showErrorMessage(
+            vscode.l10n.t(
+              "The fleet was spawned, but its startup command failed: {0}",
+              error instanceof Error ? error.message : String(error)
+            )
+          );
+        }
+      } catch (error) {
+        void vscode.window.showErrorMessage(
+          vscode.l10n.t(
+            "Failed to spawn the fleet: {0}",
+            error instanceof Error ? error.message : String(error)
+          )
+        );
+      }
+    }
+  );
+
+  const saveLayoutCommand = vscode.commands.registerCommand(
+    "cursorTerminalNexus.saveLayout",
     async () => {
-      const allTerminals = await terminalManager.listTerminals();
-      const config = readNexusConfig();
-      const targets = await terminalManager.pickTerminals(
-        allTerminals,
-        config.autoSelectRegex
-      );
+      try {
+        const descriptors = await terminalManager.listTerminals();
+        if (descriptors.length === 0) {
+          void vscode.window.showInformationMessage(
+            vscode.l10n.t("No terminal found. Open at least one integrated terminal first.")
+          );
+          return;
+        }
+        const layouts = await readLayouts();
+        const name = (
+          await vscode.window.showInputBox({
+            title: vscode.l10n.t("Save Terminal Layout"),
+            prompt: vscode.l10n.t("Layout name"),
+            value: layouts[0]?.name ?? "default",
+            validateInput: (value) =>
+              value.trim() ? undefined : vscode.l10n.t("Enter a layout name.")
+          })
+        )?.trim();
+        if (!name) {
+          return;
+        }
+        if (layouts.some((layout) => layout.name === name)) {
+          const replaceLabel = vscode.l10n.t("Replace");
+          const picked = await vscode.window.showWarningMessage(
+            vscode.l10n.t("Layout \"{0}\" already exists. Replace it?", name),
+            { modal: true },
+            replaceLabel
+          );
+          if (picked !== replaceLabel) {
+            return;
+          }
+        }
 
-      if (targets.length === 0) {
-        if (allTerminals.length > 0) {
-          vscode.window.showInformationMessage(
-            vscode.l10n.t("No terminal selected. Broadcast canceled.")
+        const uri = await saveLayout(name, descriptors);
+        const openLabel = vscode.l10n.t("Open File");
+        const picked = await vscode.window.showInformationMessage(
+          vscode.l10n.t(
+            "Saved layout \"{0}\" with {1} terminal(s).",
+            name,
+            String(descriptors.length)
+          ),
+          openLabel
+        );
+        if (picked === openLabel) {
+          await vscode.window.showTextDocument(uri);
+        }
+      } catch (error) {
+        void vscode.window.showErrorMessage(
+          vscode.l10n.t(
+            "Failed to save the layout: {0}",
+            error instanceof Error ? error.message : String(error)
+          )
+        );
+      }
+    }
+  );
+
+  const restoreLayoutCommand = vscode.commands.registerCommand(
+    "cursorTerminalNexus.restoreLayout",
+    async (args?: RestoreLayoutCommandArgs) => {
+      try {
+        const layout = await pickLayout(
+          typeof args?.layout === "string" ? args.layout : undefined
+        );
+        if (!layout) {
+          return;
+        }
+        const { terminals, created } = await restoreLayout(layout);
+        await controlPanelProvider.selectTerminals(terminals);
+        vscode.window.setStatusBarMessage(
+          vscode.l10n.t(
+            "$(layout) Layout {0}: {1} created, {2} already open",
+            layout.name,
+            String(created.size),
+            String(terminals.length - created.size)
+          ),
+          5000
+        );
+        await sendStartupCommands(broadcaster, created, readNexusConfig().options);
+      } catch (error) {
+        void vscode.window.showErrorMessage(
+          vscode.l10n.t(
+            "Failed to restore the layout: {0}",
+            error instanceof Error ? error.message : String(error)
+          )
+        );
+      }
+    }
+  );
+
+  const openInventoryHostsCommand = vscode.commands.registerCommand(
+    "cursorTerminalNexus.openInventoryHosts",
+    async (args?: OpenInventoryHostsCommandArgs) => {
+      try {
+        const inventory = await readInventory();
+        if (!inventory) {
+          void vscode.window.showInformationMessage(
+            vscode.l10n.t(
+              "No inventory found. Add inventory.ini or inventory.yml to the workspace, or set cursorTerminalNexus.inventoryFile."
+            )
+          );
+          return;
+        }
+        const named = typeof args?.group === "string" || Array.isArray(args?.hosts);
+        const hosts = named
+          ? inventory.hosts.filter(
+              (host) =>
+                (typeof args?.group === "string" && host.groups.includes(args.group)) ||
+                (Array.isArray(args?.hosts) && args.hosts.includes(host.name))
+            )
+          : await pickInventoryHosts(inventory);
+        if (hosts.length === 0) {
+          if (named) {
+            void vscode.window.showInformationMessage(
+              vscode.l10n.t("No inventory host matches the given group or names.")
+            );
+          }
+          return;
+        }
+        if (hosts.length > MAX_HOSTS_WITHOUT_CONFIRM) {
+          const openLabel = vscode.l10n.t("Open");
+          const confirmed = await vscode.window.showWarningMessage(
+            vscode.l10n.t("Open {0} SSH terminals?", String(hosts.length)),
+            { modal: true },
+            openLabel
           );
+          if (confirmed !== openLabel) {
+            return;
+          }
         }
+
+        const { terminals, created } = await inventoryHosts.open(hosts);
+        await controlPanelProvider.selectTerminals(terminals);
+        vscode.window.setStatusBarMessage(
+          vscode.l10n.t(
+            "$(remote) Opened {0} SSH terminal(s), {1} already open",
+            String(created),
+            String(terminals.length - created)
+          ),
+          5000
+        );
+      } catch (error) {
+        void vscode.window.showErrorMessage(
+          vscode.l10n.t(
+            "Failed to open inventory hosts: {0}",
+            error instanceof Error ? error.message : String(error)
+          )
+        );
+      }
+    }
+  );
+
+  const saveTargetSetCommand = vscode.commands.registerCommand(
+    "cursorTerminalNexus.saveTargetSet",
+    async () => {
+      const selected = controlPanelProvider.getSelectedTerminals();
+      const descriptors = (await terminalManager.listTerminals()).filter((descriptor) =>
+        selected.includes(descriptor.terminal)
+      );
+      const set = await promptForTargetSet(
+        descriptors,
+        controlPanelProvider.getTargetQuery(),
+        targetSets.list()
+      );
+      if (!set) {
         return;
       }
+      await targetSets.save(set);
+      vscode.window.setStatusBarMessage(
+        vscode.l10n.t("$(layers) Saved target set {0}", set.name),
+        3000
+      );
+    }
+  );
 
-      const commandText = await quickCommands.promptForCommand(targets.length);
-      if (!commandText) {
+  const deleteTargetSetCommand = vscode.commands.registerCommand(
+    "cursorTerminalNexus.deleteTargetSet",
+    async (args?: { name?: string }) => {
+      const sets = targetSets.list();
+      const set =
+        typeof args?.name === "string"
+          ? sets.find((item) => item.name === args.name)
+          : (
+              await vscode.window.showQuickPick(
+                sets.map((item) => ({
+                  label: item.name,
+                  description:
+                    item.scope === "global"
+                      ? vscode.l10n.t("All Workspaces")
+                      : vscode.l10n.t("This Workspace"),
+                  set: item
+                })),
+                { title: vscode.l10n.t("Delete Target Set") }
+              )
+            )?.set;
+      if (!set) {
         return;
       }
+      const deleteLabel = vscode.l10n.t("Delete");
+      const confirmed = await vscode.window.showWarningMessage(
+        vscode.l10n.t("Delete target set \"{0}\"?", set.name),
+        { modal: true },
+        deleteLabel
+      );
+      if (confirmed === deleteLabel) {
+        await targetSets.delete(set);
+      }
+    }
+  );
 
-      const sentCount = await broadcaster.broadcast(targets, commandText, config.options);
-      if (sentCount === 0) {
+  const editTerminalTagsCommand = vscode.commands.registerCommand(
+    "cursorTerminalNexus.editTerminalTags",
+    async (arg?: unknown) => {
+      const terminal =
+        arg && vscode.window.terminals.includes(arg as vscode.Terminal)
+          ? (arg as vscode.Terminal)
+          : vscode.window.activeTerminal;
+      if (!terminal) {
+        void vscode.window.showInformationMessage(
+          vscode.l10n.t("No terminal found. Open at least one integrated terminal first.")
+        );
         return;
       }
+      const id = terminalManager.getId(terminal);
+      const annotation = await promptForAnnotation(terminal.name, terminalTags.get(id));
+      if (annotation) {
+        await terminalTags.set(id, annotation);
+      }
+    }
+  );
 
-      quickCommands.record(commandText);
-      vscode.window.setStatusBarMessage(
-        vscode.l10n.t("$(zap) Broadcast sent to {0} terminal(s)", String(sentCount)),
-        3000
+  const interruptCommand = vscode.commands.registerCommand(
+    "cursorTerminalNexus.interrupt",
+    (args?: { target?: InterruptScope }) => {
+      controlPanelProvider.interruptTerminals(
+        args?.target === "selected" ? "selected" : "lastBroadcast"
       );
     }
   );
@@ -72,6 +655,23 @@ export function activate(context: vscode.ExtensionContext): void {
     }
   );
 
+  const showBroadcastResultsCommand = vscode.commands.registerCommand(
+    BroadcastResultsPanel.showCommand,
+    (runId?: number) => {
+      broadcastResultsPanel.show(typeof runId === "number" ? runId : undefined);
+    }
+  );
+
+  const showAuditLogCommand = vscode.commands.registerCommand(
+    AuditLogPanel.showCommand,
+    () => auditLogPanel.show()
+  );
+
+  const exportAuditLogCommand = vscode.commands.registerCommand(
+    AuditLogPanel.exportCommand,
+    () => auditLogPanel.exportEntries()
+  );
+
   const viewRegistration = vscode.window.registerWebviewViewProvider(
     ControlPanelProvider.viewType,
     controlPanelProvider,
@@ -84,10 +684,36 @@ export function activate(context: vscode.ExtensionContext): void {
 
   context.subscriptions.push(
     command,
+    dryRunCommand,
+    canaryCommand,
+    rollingCommand,
+    broadcastSelectionCommand,
+    broadcastFileCommand,
+    uploadScriptCommand,
+    spawnFleetCommand,
+    saveLayoutCommand,
+    restoreLayoutCommand,
+    openInventoryHostsCommand,
+    saveTargetSetCommand,
+    deleteTargetSetCommand,
+    editTerminalTagsCommand,
+    interruptCommand,
     openControlPanelCommand,
+    showBroadcastResultsCommand,
+    showAuditLogCommand,
+    exportAuditLogCommand,
     viewRegistration,
     terminalManager,
+    terminalIdentities,
+    terminalTags,
+    targetSets,
     terminalStateManager,
+    broadcastRunTracker,
+    broadcastResultsPanel,
+    commandPolicy,
+    auditLog,
+    auditLogPanel,
+    scriptUploader,
     controlPanelProvider
   );
 }
@@ -0,0 +1,143 @@
+import * as vscode from "vscode";
+import { BroadcastItems, ItemDistributionMode } from "./broadcaster";
+
+const MAX_GLOB_RESULTS = 5000;
+
+interface ItemSourcePickItem extends vscode.QuickPickItem {
+  source: "paste" | "file" | "glob";
+}
+
+interface DistributionPickItem extends vscode.QuickPickItem {
+  mode: ItemDistributionMode;
+}
+
+export function parseItemLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+export async function readItemsFromFile(uri: vscode.Uri): Promise<string[]> {
+  const content = await vscode.workspace.fs.readFile(uri);
+  return parseItemLines(Buffer.from(content).toString("utf8"));
+}
+
+export async function pickItemsFile(): Promise<string[] | undefined> {
+  const picked = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    openLabel: vscode.l10n.t("Load Values"),
+    title: vscode.l10n.t("Select a file with one value per line")
+  });
+  if (!picked || picked.length === 0) {
+    return undefined;
+  }
+  return readItemsFromFile(picked[0]);
+}
+
+/**
+ * Expands a workspace glob into workspace-relative paths, sorted so shard
+ * assignment is stable between runs.
+ */
+export async function findItemsByGlob(pattern: string): Promise<string[]> {
+  const text = pattern.trim();
+  if (!text) {
+    return [];
+  }
+  const uris = await vscode.workspace.findFiles(text, undefined, MAX_GLOB_RESULTS);
+  return uris
+    .map((uri) => vscode.workspace.asRelativePath(uri, false))
+    .sort((a, b) => a.localeCompare(b));
+}
+
+export async function promptForItems(): Promise<BroadcastItems | undefined> {
+  const sourceItems: ItemSourcePickItem[] = [
+    {
+      label: vscode.l10n.t("$(list-flat) Paste Values"),
+      description: vscode.l10n.t("Comma or newline separated"),
+      source: "paste"
+    },
+    {
+      label: vscode.l10n.t("$(file) From File..."),
+      description: vscode.l10n.t("One value per line"),
+      source: "file"
+    },
+    {
+      label: vscode.l10n.t("$(search) From Workspace Glob..."),
+      description: vscode.l10n.t("Each matching file path becomes a value"),
+      source: "glob"
+    }
+  ];
+  const source = await vscode.window.showQuickPick(sourceItems, {
+    title: vscode.l10n.t("TQ Terminal Nexus"),
+    placeHolder: vscode.l10n.t("Where do the {item} values come from?"),
+    ignoreFocusOut: true
+  });
+  if (!source) {
+    return undefined;
+  }
+
+  const values = await readValuesFromSource(source.source);
+  if (!values) {
+    return undefined;
+  }
+  if (values.length === 0) {
+    void vscode.window.showWarningMessage(vscode.l10n.t("No values found for {item}."));
+    return undefined;
+  }
+
+  const modeItems: DistributionPickItem[] = [
+    {
+      label: vscode.l10n.t("One-to-one"),
+      description: vscode.l10n.t("Extra values go to whichever terminal is ready first"),
+      mode: "one-to-one"
+    },
+    {
+      label: vscode.l10n.t("Round-robin"),
+      description: vscode.l10n.t("Values are assigned to terminals in turn"),
+      mode: "round-robin"
+    }
+  ];
+  const mode = await vscode.window.showQuickPick(modeItems, {
+    title: vscode.l10n.t("TQ Terminal Nexus"),
+    placeHolder: vscode.l10n.t("Distribute {0} value(s) across terminals", String(values.length)),
+    ignoreFocusOut: true
+  });
+  if (!mode) {
+    return undefined;
+  }
+
+  return { values, mode: mode.mode };
+}
+
+async function readValuesFromSource(
+  source: ItemSourcePickItem["source"]
+): Promise<string[] | undefined> {
+  if (source === "file") {
+    return pickItemsFile();
+  }
+
+  if (source === "glob") {
+    const pattern = await vscode.window.showInputBox({
+      title: vscode.l10n.t("TQ Terminal Nexus"),
+      prompt: vscode.l10n.t("Workspace glob pattern"),
+      placeHolder: "tests/**/*.spec.ts",
+      ignoreFocusOut: true
+    });
+    if (pattern === undefined) {
+      return undefined;
+    }
+    return findItemsByGlob(pattern);
+  }
+
+  const pasted = await vscode.window.showInputBox({
+    title: vscode.l10n.t("TQ Terminal Nexus"),
+    prompt: vscode.l10n.t("Values for {item}"),
+    placeHolder: "shard-1, shard-2, shard-3",
+    ignoreFocusOut: true
+  });
+  if (pasted === undefined) {
+    return undefined;
+  }
+  return parseItemLines(pasted.replace(/,/g, "\n"));
+}
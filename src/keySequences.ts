@@ -0,0 +1,111 @@
+const KEYS_PREFIX_PATTERN = /^keys\s*:/i;
+const KEY_TOKEN_PATTERN = /<([^<>\s]+)>/g;
+
+/**
+ * How broadcast text reaches the terminal: `text` submits with Enter,
+ * `textNoEnter` types the text without submitting the last line, and `keys`
+ * translates the key DSL (`<C-c>`, `<Up><Enter>`, ...) and sends it verbatim.
+ */
+export type InputMode = "text" | "textNoEnter" | "keys";
+
+const NAMED_KEYS: Record<string, string> = {
+  enter: "\r",
+  cr: "\r",
+  return: "\r",
+  tab: "\t",
+  "s-tab": "\u001b[Z",
+  esc: "\u001b",
+  escape: "\u001b",
+  bs: "\u007f",
+  backspace: "\u007f",
+  del: "\u001b[3~",
+  delete: "\u001b[3~",
+  insert: "\u001b[2~",
+  up: "\u001b[A",
+  down: "\u001b[B",
+  right: "\u001b[C",
+  left: "\u001b[D",
+  home: "\u001b[H",
+  end: "\u001b[F",
+  pageup: "\u001b[5~",
+  pgup: "\u001b[5~",
+  pagedown: "\u001b[6~",
+  pgdn: "\u001b[6~",
+  space: " ",
+  lt: "<",
+  gt: ">",
+  f1: "\u001bOP",
+  f2: "\u001bOQ",
+  f3: "\u001bOR",
+  f4: "\u001bOS",
+  f5: "\u001b[15~",
+  f6: "\u001b[17~",
+  f7: "\u001b[18~",
+  f8: "\u001b[19~",
+  f9: "\u001b[20~",
+  f10: "\u001b[21~",
+  f11: "\u001b[23~",
+  f12: "\u001b[24~"
+};
+
+const CONTROL_SYMBOLS: Record<string, string> = {
+  "@": "\u0000",
+  space: "\u0000",
+  "[": "\u001b",
+  "\\": "\u001c",
+  "]": "\u001d",
+  "^": "\u001e",
+  _: "\u001f"
+};
+
+export function isInputMode(value: unknown): value is InputMode {
+  return value === "text" || value === "textNoEnter" || value === "keys";
+}
+
+/** Splits a leading `keys:` prefix off the text, which switches to key mode. */
+export function parseInputPrefix(text: string): { text: string; keys: boolean } {
+  const match = KEYS_PREFIX_PATTERN.exec(text);
+  if (!match) {
+    return { text, keys: false };
+  }
+  return { text: text.slice(match[0].length).trimStart(), keys: true };
+}
+
+/**
+ * Replaces every `<key>` token with its control bytes. Text outside tokens is
+ * sent as typed; write `<lt>word>` to type a literal `<word>`.
+ */
+export function translateKeySequence(text: string): string {
+  return text.replace(KEY_TOKEN_PATTERN, (token: string, name: string) => {
+    const bytes = translateKey(name);
+    if (bytes === undefined) {
+      throw new Error(`Unknown key ${token}. Use e.g. <C-c>, <Esc>, <Up>, <Tab> or <Enter>.`);
+    }
+    return bytes;
+  });
+}
+
+function translateKey(name: string): string | undefined {
+  const lowered = name.toLowerCase();
+  if (NAMED_KEYS[lowered] !== undefined) {
+    return NAMED_KEYS[lowered];
+  }
+
+  const modified = /^([cma])-(.+)$/i.exec(name);
+  if (!modified) {
+    return undefined;
+  }
+  const modifier = modified[1].toLowerCase();
+  const key = modified[2];
+
+  if (modifier === "c") {
+    if (/^[a-z]$/i.test(key)) {
+      return String.fromCharCode(key.toLowerCase().charCodeAt(0) - 96);
+    }
+    return CONTROL_SYMBOLS[key.toLowerCase()];
+  }
+
+  // Meta/Alt is sent as an Esc prefix.
+  const base = key.length === 1 ? key : translateKey(key);
+  return base === undefined ? undefined : `\u001b${base}`;
+}
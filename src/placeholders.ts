@@ -0,0 +1,306 @@
+import { quoteForShellType, ShellType } from "./shellTypes";
+
+export interface PlaceholderContext {
+  name: string;
+  index: number;
+  count: number;
+  group: string;
+  pid?: number;
+  cwd?: string;
+  item?: string;
+  /** Inventory host the terminal was opened for, if any. */
+  host?: { name: string; vars: Record<string, string> };
+  shellType: ShellType;
+  now: Date;
+  env: NodeJS.ProcessEnv;
+}
+
+type TemplateSegment =
+  | { kind: "text"; text: string }
+  | {
+      kind: "placeholder";
+      key: string;
+      arg?: string;
+      filters: string[];
+      source: string;
+    };
+
+export interface CompiledTemplate {
+  segments: TemplateSegment[];
+  usesPid: boolean;
+  usesCwd: boolean;
+  usesItem: boolean;
+}
+
+const PLACEHOLDER_PATTERN =
+  /(?<!\$)\{([a-z][a-z0-9_]*)(?::([^{}|]*))?((?:\|[a-z][a-z0-9_]*)*)\}/i;
+const RAW_PREFIX = "{raw:";
+const DATE_TOKEN_PATTERN = /YYYY|MM|DD|HH|mm|ss|SSS/g;
+const DEFAULT_DATE_FORMAT = "YYYY-MM-DD";
+const MAX_INDEX_PADDING = 12;
+
+const KNOWN_PLACEHOLDERS = new Set([
+  "index",
+  "name",
+  "pid",
+  "cwd",
+  "count",
+  "group",
+  "env",
+  "date",
+  "item",
+  "host"
+]);
+
+const FILTERS: Record<string, (value: string, context: PlaceholderContext) => string> = {
+  lower: (value) => value.toLowerCase(),
+  upper: (value) => value.toUpperCase(),
+  trim: (value) => value.trim(),
+  slug: (value) =>
+    value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, ""),
+  quoted: (value, context) => quoteForShellType(value, context.shellType)
+};
+
+/** A template that renders `text` as written, without expanding placeholders. */
+export function literalTemplate(text: string): CompiledTemplate {
+  return {
+    segments: [{ kind: "text", text }],
+    usesPid: false,
+    usesCwd: false,
+    usesItem: false
+  };
+}
+
+export function compileTemplate(template: string): CompiledTemplate {
+  const segments: TemplateSegment[] = [];
+  let usesPid = false;
+  let usesCwd = false;
+  let usesItem = false;
+  let cursor = 0;
+  const pattern = new RegExp(PLACEHOLDER_PATTERN.source, "gi");
+
+  while (cursor < template.length) {
+    pattern.lastIndex = cursor;
+    const match = pattern.exec(template);
+    const rawStart = findRawStart(template, cursor);
+    const start =
+      rawStart >= 0 && (!match || rawStart <= match.index) ? rawStart : match?.index ?? -1;
+    if (start < 0) {
+      break;
+    }
+    if (start > cursor) {
+      segments.push({ kind: "text", text: template.slice(cursor, start) });
+    }
+
+    if (start === rawStart) {
+      const end = findRawEnd(template, start);
+      segments.push({ kind: "text", text: template.slice(start + RAW_PREFIX.length, end) });
+      cursor = end + 1;
+      continue;
+    }
+
+    const found = match as RegExpExecArray;
+    cursor = start + found[0].length;
+
+    const source = found[0];
+    const key = found[1].toLowerCase();
+    const arg = found[2];
+    const filters = found[3]
+      ? found[3].slice(1).split("|").map((item) => item.toLowerCase())
+      : [];
+
+    validatePlaceholder(source, key, arg);
+    for (const filter of filters) {
+      if (!FILTERS[filter]) {
+        throw new Error(`Unknown placeholder filter "${filter}" in ${source}.`);
+      }
+    }
+
+    usesPid ||= key === "pid";
+    usesCwd ||= key === "cwd";
+    usesItem ||= key === "item";
+    segments.push({ kind: "placeholder", key, arg, filters, source });
+  }
+
+  if (cursor < template.length) {
+    segments.push({ kind: "text", text: template.slice(cursor) });
+  }
+
+  return { segments, usesPid, usesCwd, usesItem };
+}
+
+export function templateUsesItem(template: string): boolean {
+  try {
+    return compileTemplate(template).usesItem;
+  } catch {
+    return false;
+  }
+}
+
+export function renderTemplate(
+  compiled: CompiledTemplate,
+  context: PlaceholderContext
+): string {
+  return compiled.segments
+    .map((segment) => {
+      if (segment.kind === "text") {
+        return segment.text;
+      }
+      const value = resolvePlaceholder(segment.source, segment.key, segment.arg, context);
+      return segment.filters.reduce(
+        (current, filter) => FILTERS[filter](current, context),
+        value
+      );
+    })
+    .join("");
+}
+
+function validatePlaceholder(source: string, key: string, arg: string | undefined): void {
+  if (!KNOWN_PLACEHOLDERS.has(key)) {
+    throw new Error(`Unknown placeholder ${source}.`);
+  }
+
+  switch (key) {
+    case "index":
+      if (arg !== undefined && (!/^0?\d+$/.test(arg) || Number(arg) > MAX_INDEX_PADDING)) {
+        throw new Error(
+          `Invalid index padding in ${source}. Use e.g. {index:03}, up to ${MAX_INDEX_PADDING} digits.`
+        );
+      }
+      return;
+    case "name":
+      if (arg !== undefined && arg !== "quoted") {
+        throw new Error(`Unknown name option in ${source}. Use {name:quoted}.`);
+      }
+      return;
+    case "env":
+      if (!arg || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(arg)) {
+        throw new Error(`Invalid environment variable in ${source}. Use e.g. {env:HOME}.`);
+      }
+      return;
+    case "host":
+      if (arg !== undefined && !/^[A-Za-z_][A-Za-z0-9_]*$/.test(arg)) {
+        throw new Error(`Invalid host variable in ${source}. Use e.g. {host:ansible_host}.`);
+      }
+      return;
+    case "date":
+      return;
+    default:
+      if (arg !== undefined) {
+        throw new Error(`Placeholder ${source} does not take an argument.`);
+      }
+  }
+}
+
+/**
+ * Throws when the value is missing for this terminal, so a command such as
+ * `rm -rf {env:DIR}/` is never sent with an empty value.
+ */
+function resolvePlaceholder(
+  source: string,
+  key: string,
+  arg: string | undefined,
+  context: PlaceholderContext
+): string {
+  switch (key) {
+    case "index":
+      return arg ? String(context.index).padStart(Number(arg), "0") : String(context.index);
+    case "name":
+      return arg === "quoted" ? quoteForShellType(context.name, context.shellType) : context.name;
+    case "pid":
+      if (context.pid === undefined) {
+        throw new Error(`${source} is unknown: the terminal has not reported its process ID.`);
+      }
+      return String(context.pid);
+    case "cwd":
+      if (!context.cwd) {
+        throw new Error(
+          `${source} is unknown: the terminal reports no working directory (shell integration is off).`
+        );
+      }
+      return context.cwd;
+    case "count":
+      return String(context.count);
+    case "item":
+      return context.item ?? "";
+    case "group":
+      return context.group;
+    case "env": {
+      const value = context.env[arg ?? ""];
+      if (!value) {
+        throw new Error(`${source} has no value: environment variable ${arg} is not set.`);
+      }
+      return value;
+    }
+    case "host": {
+      if (!context.host) {
+        throw new Error(`${source} needs a terminal opened from an SSH inventory.`);
+      }
+      const value = arg ? context.host.vars[arg] : context.host.name;
+      if (!value) {
+        throw new Error(`${source} has no value: host ${context.host.name} does not set ${arg}.`);
+      }
+      return value;
+    }
+    case "date":
+      return formatDate(context.now, arg?.trim() || DEFAULT_DATE_FORMAT);
+    default:
+      return "";
+  }
+}
+
+function findRawStart(template: string, fromIndex: number): number {
+  let index = template.indexOf(RAW_PREFIX, fromIndex);
+  while (index > 0 && template[index - 1] === "$") {
+    index = template.indexOf(RAW_PREFIX, index + 1);
+  }
+  return index;
+}
+
+/**
+ * Returns the index of the brace closing a `{raw:...}` block. Nested braces
+ * are kept so shell snippets such as `{raw:awk '{print $1}'}` survive.
+ */
+function findRawEnd(template: string, start: number): number {
+  let depth = 0;
+  for (let index = start; index < template.length; index += 1) {
+    const char = template[index];
+    if (char === "{") {
+      depth += 1;
+    } else if (char === "}") {
+      depth -= 1;
+      if (depth === 0) {
+        return index;
+      }
+    }
+  }
+  throw new Error("Unterminated {raw:...} placeholder.");
+}
+
+function formatDate(date: Date, format: string): string {
+  return format.replace(DATE_TOKEN_PATTERN, (token) => {
+    switch (token) {
+      case "YYYY":
+        return String(date.getFullYear());
+      case "MM":
+        return pad(date.getMonth() + 1, 2);
+      case "DD":
+        return pad(date.getDate(), 2);
+      case "HH":
+        return pad(date.getHours(), 2);
+      case "mm":
+        return pad(date.getMinutes(), 2);
+      case "ss":
+        return pad(date.getSeconds(), 2);
+      default:
+        return pad(date.getMilliseconds(), 3);
+    }
+  });
+}
+
+function pad(value: number, width: number): string {
+  return String(value).padStart(width, "0");
+}
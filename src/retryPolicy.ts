@@ -0,0 +1,67 @@
+import {
+  BroadcastTargetResult,
+  getTargetExitCode,
+  getTargetOutcome
+} from "./broadcastRuns";
+
+/**
+ * Per-terminal retry of failed broadcasts. `maxAttempts` counts the first send,
+ * so 1 disables retries. With neither exit codes nor output patterns set, any
+ * non-zero exit code is retryable; otherwise a failure must match one of them.
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  backoffMs: number;
+  backoffMultiplier: number;
+  exitCodes: number[];
+  outputPatterns: string[];
+}
+
+export interface CompiledRetryPolicy {
+  maxAttempts: number;
+  backoffMs: number;
+  backoffMultiplier: number;
+  exitCodes: number[];
+  outputPatterns: RegExp[];
+}
+
+export function isRetryEnabled(policy: RetryPolicy): boolean {
+  return policy.maxAttempts > 1;
+}
+
+export function compileRetryPolicy(policy: RetryPolicy): CompiledRetryPolicy {
+  return {
+    ...policy,
+    outputPatterns: policy.outputPatterns.map((pattern) => {
+      try {
+        return new RegExp(pattern, "m");
+      } catch (error) {
+        throw new Error(
+          `Invalid retry output pattern "${pattern}": ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    })
+  };
+}
+
+export function shouldRetryTarget(
+  target: BroadcastTargetResult,
+  policy: CompiledRetryPolicy
+): boolean {
+  if (target.attempt >= policy.maxAttempts || getTargetOutcome(target) !== "failed") {
+    return false;
+  }
+  if (policy.exitCodes.length === 0 && policy.outputPatterns.length === 0) {
+    return true;
+  }
+  const exitCode = getTargetExitCode(target);
+  return (
+    (exitCode !== undefined && policy.exitCodes.includes(exitCode)) ||
+    policy.outputPatterns.some((pattern) => pattern.test(target.output))
+  );
+}
+
+/** Delay before the given retry (1 = first retry), growing by the multiplier. */
+export function getRetryDelayMs(policy: CompiledRetryPolicy, retry: number): number {
+  return Math.round(policy.backoffMs * Math.pow(policy.backoffMultiplier, retry - 1));
+}
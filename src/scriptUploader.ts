@@ -0,0 +1,471 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import * as path from "path";
+import { BroadcastRun } from "./broadcastRuns";
+import { Broadcaster, BroadcastOptions } from "./broadcaster";
+import { templateUsesItem } from "./placeholders";
+import { quoteForShellType, ShellType, ShellTypeRegistry } from "./shellTypes";
+
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+const HEREDOC_MAX_BYTES = 64 * 1024;
+const HEREDOC_MAX_LINE_CHARS = 1000;
+const HEREDOC_LINES_PER_CHUNK = 20;
+// Keeps every typed line well below the 4096-byte canonical tty line limit.
+const BASE64_CHUNK_CHARS = 760;
+
+export type TransferMethod = "heredoc" | "base64";
+
+export interface UploadRequest {
+  fileName: string;
+  content: Uint8Array;
+  remotePath: string;
+  makeExecutable: boolean;
+  /** Runs the script once the checksum matches; placeholders in `args` resolve per terminal. */
+  run: boolean;
+  args: string;
+}
+
+/** Lines typed into one terminal: transfer chunks, then a checked finalize command. */
+export interface UploadPlan {
+  method: TransferMethod;
+  chunks: string[];
+  finalize: string;
+  /** Typed when the upload is canceled between chunks, to close an open heredoc. */
+  abort?: string;
+}
+
+export interface UploadStatus {
+  active: boolean;
+  fileName: string;
+  targetCount: number;
+  sentChunks: number;
+  totalChunks: number;
+  error: string;
+}
+
+interface UploadOptionPickItem extends vscode.QuickPickItem {
+  option: "chmod" | "run";
+}
+
+/**
+ * Writes a local file into terminals by typing it, so it also reaches shells
+ * on SSH hosts. Small plain-text files go to POSIX shells as a heredoc; other
+ * files and shells get base64 chunks that are decoded in place. The finalize
+ * command compares the SHA-256 checksum and exits non-zero on a mismatch, so
+ * the results report shows which hosts did not receive the file intact.
+ */
+export class ScriptUploader implements vscode.Disposable {
+  private readonly statusEmitter = new vscode.EventEmitter<UploadStatus>();
+  private uploadId = 0;
+  /** Terminals that received some but not all chunks of the current upload. */
+  private readonly partialUploads = new Map<vscode.Terminal, UploadPlan>();
+  private uploadOptions?: BroadcastOptions;
+  private status: UploadStatus = {
+    active: false,
+    fileName: "",
+    targetCount: 0,
+    sentChunks: 0,
+    totalChunks: 0,
+    error: ""
+  };
+
+  public readonly onDidChangeStatus = this.statusEmitter.event;
+
+  constructor(
+    private readonly broadcaster: Broadcaster,
+    private readonly shellTypes: ShellTypeRegistry
+  ) {}
+
+  public dispose(): void {
+    this.uploadId += 1;
+    this.statusEmitter.dispose();
+  }
+
+  public getStatus(): UploadStatus {
+    return this.status;
+  }
+
+  public cancel(): void {
+    if (!this.status.active) {
+      return;
+    }
+    this.uploadId += 1;
+    // Queued behind the chunk still being typed, so the terminator ends the heredoc.
+    for (const [terminal, plan] of this.partialUploads) {
+      if (plan.abort && this.uploadOptions) {
+        void this.broadcaster.sendLines(terminal, plan.abort, this.uploadOptions);
+      }
+    }
+    this.partialUploads.clear();
+    this.status = { ...this.status, active: false, error: "Upload canceled." };
+    this.emitStatus();
+  }
+
+  public async upload(
+    terminals: vscode.Terminal[],
+    request: UploadRequest,
+    options: BroadcastOptions
+  ): Promise<BroadcastRun | undefined> {
+    if (this.status.active) {
+      throw new Error("Another upload is still in progress.");
+    }
+    const targets = await this.broadcaster.filterBusyTerminals([...new Set(terminals)]);
+    if (targets.length === 0) {
+      return undefined;
+    }
+    const checksum = crypto.createHash("sha256").update(request.content).digest("hex");
+    const plans = new Map<vscode.Terminal, UploadPlan>();
+    for (const terminal of targets) {
+      plans.set(
+        terminal,
+        buildUploadPlan(this.shellTypes.getShellType(terminal), request, checksum)
+      );
+    }
+
+    const uploadId = ++this.uploadId;
+    this.partialUploads.clear();
+    this.uploadOptions = options;
+    this.status = {
+      active: true,
+      fileName: request.fileName,
+      targetCount: targets.length,
+      sentChunks: 0,
+      totalChunks: [...plans.values()].reduce((sum, plan) => sum + plan.chunks.length, 0),
+      error: ""
+    };
+    this.emitStatus();
+
+    await this.broadcaster.recordTransfer(
+      "upload",
+      `${request.fileName} -> ${request.remotePath} (sha256 ${checksum})`,
+      new Map(
+        [...plans].map(([terminal, plan]) => [
+          terminal,
+          `${plan.method} upload to ${request.remotePath}`
+        ])
+      )
+    );
+
+    const delivered: vscode.Terminal[] = [];
+    await Promise.all(
+      targets.map(async (terminal) => {
+        const plan = plans.get(terminal);
+        const chunks = plan?.chunks ?? [];
+        for (const [position, chunk] of chunks.entries()) {
+          if (uploadId !== this.uploadId) {
+            return;
+          }
+          if (plan && position < chunks.length - 1) {
+            this.partialUploads.set(terminal, plan);
+          } else {
+            this.partialUploads.delete(terminal);
+          }
+          if (!(await this.broadcaster.sendLines(terminal, chunk, options))) {
+            this.partialUploads.delete(terminal);
+            return;
+          }
+          this.status = { ...this.status, sentChunks: this.status.sentChunks + 1 };
+          this.emitStatus();
+        }
+        delivered.push(terminal);
+      })
+    );
+    if (uploadId !== this.uploadId) {
+      return undefined;
+    }
+
+    try {
+      if (delivered.length === 0) {
+        throw new Error("The upload was interrupted in every terminal.");
+      }
+      const ordered = targets.filter((terminal) => delivered.includes(terminal));
+      const commands = new Map(
+        ordered.map((terminal) => [terminal, plans.get(terminal)?.finalize ?? ""])
+      );
+      const run = await this.broadcaster.broadcastNonInteractive(
+        ordered,
+        commands.get(ordered[0]) ?? "",
+        options,
+        { source: "upload", commands }
+      );
+      this.status = { ...this.status, active: false };
+      this.emitStatus();
+      return run;
+    } catch (error) {
+      this.status = { ...this.status, active: false, error: toErrorMessage(error) };
+      this.emitStatus();
+      throw error;
+    }
+  }
+
+  private emitStatus(): void {
+    this.statusEmitter.fire(this.status);
+  }
+}
+
+/** Asks for the file, destination and follow-up steps of an upload. */
+export async function promptForUpload(uri?: vscode.Uri): Promise<UploadRequest | undefined> {
+  let source = uri;
+  if (!source) {
+    const picked = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+      openLabel: vscode.l10n.t("Upload"),
+      title: vscode.l10n.t("Select a file to upload into the target terminals")
+    });
+    source = picked?.[0];
+  }
+  if (!source) {
+    return undefined;
+  }
+
+  const content = await vscode.workspace.fs.readFile(source);
+  if (content.byteLength > MAX_UPLOAD_BYTES) {
+    throw new Error(
+      `${path.basename(source.fsPath)} is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MiB.`
+    );
+  }
+
+  const fileName = path.basename(source.fsPath);
+  const remotePath = await vscode.window.showInputBox({
+    title: vscode.l10n.t("Upload {0}", fileName),
+    prompt: vscode.l10n.t("Destination path in each terminal (~/ is expanded by POSIX and fish shells)"),
+    value: `/tmp/${fileName}`,
+    validateInput: (value) =>
+      !value.trim()
+        ? vscode.l10n.t("Enter a destination path.")
+        : /[{}\r\n]/.test(value)
+          ? vscode.l10n.t("The destination path cannot contain braces or line breaks.")
+          : undefined
+  });
+  if (!remotePath) {
+    return undefined;
+  }
+
+  const optionItems: UploadOptionPickItem[] = [
+    {
+      label: vscode.l10n.t("Make executable (chmod +x)"),
+      description: vscode.l10n.t("POSIX and fish shells"),
+      option: "chmod",
+      picked: true
+    },
+    {
+      label: vscode.l10n.t("Run after upload"),
+      description: vscode.l10n.t("Only when the checksum matches"),
+      option: "run",
+      picked: true
+    }
+  ];
+  const picked = await vscode.window.showQuickPick(optionItems, {
+    canPickMany: true,
+    title: vscode.l10n.t("Upload {0}", fileName),
+    placeHolder: vscode.l10n.t("After the checksum check")
+  });
+  if (!picked) {
+    return undefined;
+  }
+  const run = picked.some((item) => item.option === "run");
+
+  let args = "";
+  if (run) {
+    const input = await vscode.window.showInputBox({
+      title: vscode.l10n.t("Upload {0}", fileName),
+      prompt: vscode.l10n.t("Script arguments; placeholders such as {index} or {name} resolve per terminal"),
+      placeHolder: "--shard {index} --of {count}",
+      validateInput: (value) =>
+        templateUsesItem(value)
+          ? vscode.l10n.t("Item placeholders are not available for uploads.")
+          : undefined
+    });
+    if (input === undefined) {
+      return undefined;
+    }
+    args = input.trim();
+  }
+
+  return {
+    fileName,
+    content,
+    remotePath: remotePath.trim(),
+    makeExecutable: picked.some((item) => item.option === "chmod"),
+    run,
+    args
+  };
+}
+
+export function buildUploadPlan(
+  shellType: ShellType,
+  request: UploadRequest,
+  checksum: string
+): UploadPlan {
+  const target = quotePath(request.remotePath, shellType);
+  const delimiter = `NEXUS_EOF_${checksum.slice(0, 12).toUpperCase()}`;
+  const text = shellType === "posix" ? readHeredocText(request.content, delimiter) : undefined;
+  if (text !== undefined) {
+    const lines = [`cat > ${target} <<'${delimiter}'`, ...text.slice(0, -1).split("\n"), delimiter];
+    return {
+      method: "heredoc",
+      chunks: groupLines(lines, HEREDOC_LINES_PER_CHUNK),
+      finalize: buildFinalize(shellType, request, checksum),
+      abort: `${delimiter}\nrm -f ${target}`
+    };
+  }
+
+  const encoded = Buffer.from(request.content).toString("base64");
+  const pieces: string[] = [];
+  for (let offset = 0; offset < encoded.length; offset += BASE64_CHUNK_CHARS) {
+    pieces.push(encoded.slice(offset, offset + BASE64_CHUNK_CHARS));
+  }
+  const temp = quotePath(`${request.remotePath}.b64`, shellType);
+  return {
+    method: "base64",
+    chunks: [
+      truncateCommand(shellType, temp),
+      ...pieces.map((piece) => appendCommand(shellType, temp, piece)),
+      decodeCommand(shellType, temp, target)
+    ],
+    finalize: buildFinalize(shellType, request, checksum)
+  };
+}
+
+/**
+ * Returns the file as text when typing it into a quoted heredoc reproduces it
+ * byte for byte: valid UTF-8 ending in a newline, without tabs (completion),
+ * `!` (history expansion), control characters or overlong lines.
+ */
+function readHeredocText(content: Uint8Array, delimiter: string): string | undefined {
+  if (content.byteLength > HEREDOC_MAX_BYTES) {
+    return undefined;
+  }
+  const text = Buffer.from(content).toString("utf8");
+  if (
+    !text.endsWith("\n") ||
+    !Buffer.from(text, "utf8").equals(Buffer.from(content)) ||
+    /[\u0000-\u0009\u000b-\u001f\u007f!]/.test(text)
+  ) {
+    return undefined;
+  }
+  const lines = text.slice(0, -1).split("\n");
+  if (lines.some((line) => line.length > HEREDOC_MAX_LINE_CHARS || line === delimiter)) {
+    return undefined;
+  }
+  return text;
+}
+
+function truncateCommand(shellType: ShellType, temp: string): string {
+  switch (shellType) {
+    case "powershell":
+      return `Set-Content -NoNewline -Path ${temp} -Value ''`;
+    case "cmd":
+      return `type nul > ${temp}`;
+    default:
+      return `printf '' > ${temp}`;
+  }
+}
+
+function appendCommand(shellType: ShellType, temp: string, piece: string): string {
+  switch (shellType) {
+    case "powershell":
+      return `Add-Content -NoNewline -Path ${temp} -Value '${piece}'`;
+    case "cmd":
+      // Parentheses keep a trailing digit from being read as a handle redirect.
+      return `(echo ${piece})>>${temp}`;
+    default:
+      return `printf '%s' '${piece}' >> ${temp}`;
+  }
+}
+
+function decodeCommand(shellType: ShellType, temp: string, target: string): string {
+  switch (shellType) {
+    case "powershell":
+      return (
+        "[IO.File]::WriteAllBytes(" +
+        `$ExecutionContext.SessionState.Path.GetUnresolvedProviderPathFromPSPath(${target}), ` +
+        `[Convert]::FromBase64String((Get-Content -Raw ${temp}))); Remove-Item ${temp}`
+      );
+    case "cmd":
+      return `certutil -f -decode ${temp} ${target} >nul && del ${temp}`;
+    case "fish":
+      return `begin; base64 -d < ${temp} 2>/dev/null; or base64 -D < ${temp}; end > ${target}; and rm -f ${temp}`;
+    default:
+      return `(base64 -d < ${temp} 2>/dev/null || base64 -D < ${temp}) > ${target} && rm -f ${temp}`;
+  }
+}
+
+function buildFinalize(shellType: ShellType, request: UploadRequest, checksum: string): string {
+  const target = quotePath(request.remotePath, shellType);
+  const runPath = quotePath(toRunnablePath(request.remotePath, shellType), shellType);
+  const invocation = [runPath, request.args].filter(Boolean).join(" ");
+
+  switch (shellType) {
+    case "powershell":
+      return (
+        `if ((Get-FileHash -Algorithm SHA256 ${target}).Hash -eq '${checksum}') ` +
+        `{ 'nexus: checksum OK'${request.run ? `; & ${invocation}` : ""} } ` +
+        "else { Write-Error 'nexus: checksum mismatch' }"
+      );
+    case "cmd": {
+      // `cmd /c exit 1` sets a failing exit code without closing the interactive shell.
+      const check =
+        `certutil -hashfile ${target} SHA256 | findstr /i ${checksum} >nul` +
+        " || (echo nexus: checksum mismatch& cmd /c exit 1)";
+      return request.run
+        ? `${check} && (echo nexus: checksum OK& ${invocation})`
+        : `${check} && echo nexus: checksum OK`;
+    }
+    case "fish": {
+      const parts = [
+        `test (begin; sha256sum ${target} 2>/dev/null; or shasum -a 256 ${target}; end | string split -f 1 ' ') = ${checksum}`,
+        "and echo 'nexus: checksum OK'",
+        "or begin; echo 'nexus: checksum mismatch' >&2; false; end"
+      ];
+      if (request.makeExecutable) {
+        parts.push(`and chmod +x ${target}`);
+      }
+      if (request.run) {
+        parts.push(`and ${invocation}`);
+      }
+      return parts.join("; ");
+    }
+    case "posix":
+    default: {
+      const parts = [
+        `[ "$( (sha256sum ${target} 2>/dev/null || shasum -a 256 ${target}) | cut -d ' ' -f 1)" = ${checksum} ] && echo 'nexus: checksum OK' || (echo 'nexus: checksum mismatch' >&2; exit 1)`
+      ];
+      if (request.makeExecutable) {
+        parts.push(`chmod +x ${target}`);
+      }
+      if (request.run) {
+        parts.push(invocation);
+      }
+      return parts.join(" && ");
+    }
+  }
+}
+
+function quotePath(value: string, shellType: ShellType): string {
+  if ((shellType === "posix" || shellType === "fish") && value.startsWith("~/")) {
+    return `~/${quoteForShellType(value.slice(2), shellType)}`;
+  }
+  return quoteForShellType(value, shellType);
+}
+
+/** A bare file name would be looked up on PATH, so run it from the current directory. */
+function toRunnablePath(value: string, shellType: ShellType): string {
+  if (shellType === "cmd" || /[\\/]/.test(value) || value.startsWith("~")) {
+    return value;
+  }
+  return `./${value}`;
+}
+
+function groupLines(lines: string[], size: number): string[] {
+  const chunks: string[] = [];
+  for (let index = 0; index < lines.length; index += size) {
+    chunks.push(lines.slice(index, index + size).join("\n"));
+  }
+  return chunks;
+}
+
+function toErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
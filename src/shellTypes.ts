@@ -0,0 +1,96 @@
+import * as vscode from "vscode";
+
+export type ShellType = "posix" | "fish" | "powershell" | "cmd";
+
+export const SHELL_TYPES: ShellType[] = ["posix", "fish", "powershell", "cmd"];
+
+export class ShellTypeRegistry {
+  private readonly overrides = new WeakMap<vscode.Terminal, ShellType>();
+
+  public getShellType(terminal: vscode.Terminal): ShellType {
+    return this.overrides.get(terminal) ?? detectShellType(terminal);
+  }
+
+  public getOverride(terminal: vscode.Terminal): ShellType | undefined {
+    return this.overrides.get(terminal);
+  }
+
+  public setOverride(terminal: vscode.Terminal, shellType: ShellType | undefined): void {
+    if (shellType) {
+      this.overrides.set(terminal, shellType);
+    } else {
+      this.overrides.delete(terminal);
+    }
+  }
+}
+
+/**
+ * Detects the shell from shell integration first, then the configured shell
+ * path, then the terminal name, falling back to the platform default.
+ */
+export function detectShellType(terminal: vscode.Terminal): ShellType {
+  const options = terminal.creationOptions;
+  const shellPath = "shellPath" in options ? options.shellPath : undefined;
+  const candidates = [terminal.state?.shell, shellPath, terminal.name];
+  for (const candidate of candidates) {
+    const detected = classifyShell(candidate);
+    if (detected) {
+      return detected;
+    }
+  }
+  return defaultShellType();
+}
+
+/** Shell type of a terminal about to be created with `shellPath`. */
+export function detectShellTypeForPath(shellPath: string | undefined): ShellType {
+  return classifyShell(shellPath) ?? defaultShellType();
+}
+
+export function isShellType(value: unknown): value is ShellType {
+  return value === "posix" || value === "fish" || value === "powershell" || value === "cmd";
+}
+
+/**
+ * Quotes one argument for the shell. POSIX values are single-quoted, so `$`,
+ * backticks and `!` (history expansion) stay literal. cmd quoting is
+ * best-effort: `%VAR%` inside the double quotes is still expanded.
+ */
+export function quoteForShellType(value: string, shellType: ShellType): string {
+  switch (shellType) {
+    case "fish":
+      return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+    case "powershell":
+      return `'${value.replace(/'/g, "''")}'`;
+    case "cmd":
+      return `"${value.replace(/"/g, "\"\"")}"`;
+    case "posix":
+    default:
+      return `'${value.replace(/'/g, "'\\''")}'`;
+  }
+}
+
+function defaultShellType(): ShellType {
+  return process.platform === "win32" ? "powershell" : "posix";
+}
+
+function classifyShell(raw: string | undefined): ShellType | undefined {
+  const text = String(raw ?? "").trim().toLowerCase();
+  if (!text) {
+    return undefined;
+  }
+
+  const base = text.split(/[\\/]/).pop()?.replace(/\.exe$/, "") ?? text;
+  if (/^(pwsh|powershell)$/.test(base) || /\b(pwsh|powershell)\b/.test(text)) {
+    return "powershell";
+  }
+  if (base === "cmd" || /\bcmd(?:\.exe)?\b/.test(text)) {
+    return "cmd";
+  }
+  if (base === "fish" || /\bfish\b/.test(text)) {
+    return "fish";
+  }
+  if (/^(bash|zsh|sh|dash|ksh|ash|gitbash|ssh)$/.test(base) || /\b(bash|zsh|sh)\b/.test(text)) {
+    return "posix";
+  }
+  return undefined;
+}
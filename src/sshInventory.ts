@@ -0,0 +1,613 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { TerminalManager } from "./terminalManager";
+import { TerminalTagStore } from "./terminalTags";
+
+const INVENTORY_CANDIDATES = [
+  "inventory.ini",
+  "inventory.yml",
+  "inventory.yaml",
+  "inventory",
+  "hosts.ini",
+  "hosts.yml",
+  "hosts.yaml",
+  "hosts"
+];
+const IMPLICIT_GROUPS = new Set(["all", "ungrouped"]);
+
+/** One inventory host with its groups (ancestors included) and merged variables. */
+export interface InventoryHost {
+  name: string;
+  groups: string[];
+  vars: Record<string, string>;
+}
+
+export interface Inventory {
+  source: string;
+  hosts: InventoryHost[];
+  groups: string[];
+}
+
+/** Host name and variables of an inventory terminal, for `{host}` and `{host:VAR}`. */
+export interface HostPlaceholders {
+  name: string;
+  vars: Record<string, string>;
+}
+
+interface InventoryGroup {
+  hosts: Map<string, Record<string, string>>;
+  children: Set<string>;
+  vars: Record<string, string>;
+}
+
+type YamlValue = string | null | YamlValue[] | { [key: string]: YamlValue };
+
+interface InventoryPickItem extends vscode.QuickPickItem {
+  hosts: InventoryHost[];
+}
+
+/**
+ * Reads the inventory named by `cursorTerminalNexus.inventoryFile`, or the
+ * first of `inventory.ini`, `inventory.yml`, `hosts`, ... in the first
+ * workspace folder. Resolves undefined when there is none. Throws in
+ * untrusted workspaces, since inventory variables become `ssh` arguments.
+ */
+export async function readInventory(): Promise<Inventory | undefined> {
+  if (!vscode.workspace.isTrusted) {
+    throw new Error(vscode.l10n.t("Trust this workspace to open SSH hosts from its inventory."));
+  }
+  const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+  const configured = vscode.workspace
+    .getConfiguration("cursorTerminalNexus")
+    .get<string>("inventoryFile", "")
+    .trim();
+  const candidates = configured
+    ? [path.isAbsolute(configured) ? vscode.Uri.file(configured) : folder && vscode.Uri.joinPath(folder, configured)]
+    : INVENTORY_CANDIDATES.map((name) => folder && vscode.Uri.joinPath(folder, name));
+
+  for (const uri of candidates) {
+    if (!uri) {
+      continue;
+    }
+    let content: Uint8Array;
+    try {
+      content = await vscode.workspace.fs.readFile(uri);
+    } catch {
+      if (configured) {
+        throw new Error(`Inventory file "${configured}" not found.`);
+      }
+      continue;
+    }
+    const source = vscode.workspace.asRelativePath(uri, true);
+    return parseInventory(Buffer.from(content).toString("utf8"), source);
+  }
+  return undefined;
+}
+
+/** Parses an Ansible inventory in INI or YAML form; YAML is recognized by its extension or layout. */
+export function parseInventory(text: string, source: string): Inventory {
+  const groups = new Map<string, InventoryGroup>();
+  const isYaml =
+    /\.ya?ml$/i.test(source) ||
+    /^(---|[\w.-]+:\s*(#.*)?$)/m.test(
+      text.split(/\r?\n/).find((line) => line.trim() && !/^\s*[#;]/.test(line)) ?? ""
+    );
+  if (isYaml) {
+    readYamlGroups(parseYaml(text, source), groups, source);
+  } else {
+    readIniGroups(text, groups, source);
+  }
+  return resolveInventory(groups, source);
+}
+
+/**
+ * `ssh` arguments from the host's connection variables. Throws when the
+ * user, address or jump host starts with `-`, which ssh would read as an option.
+ */
+export function buildSshArgs(host: InventoryHost): string[] {
+  const vars = host.vars;
+  const args: string[] = [];
+  const port = vars.ansible_port ?? vars.ansible_ssh_port;
+  if (port) {
+    args.push("-p", port);
+  }
+  const identity = vars.ansible_ssh_private_key_file ?? vars.ansible_private_key_file;
+  if (identity) {
+    args.push("-i", identity);
+  }
+  if (vars.nexus_jump_host) {
+    args.push("-J", rejectOption(host, vars.nexus_jump_host));
+  }
+  args.push(
+    ...splitArgs(vars.ansible_ssh_common_args ?? ""),
+    ...splitArgs(vars.ansible_ssh_extra_args ?? "")
+  );
+  const user = vars.ansible_user ?? vars.ansible_ssh_user;
+  const address = rejectOption(host, vars.ansible_host ?? vars.ansible_ssh_host ?? host.name);
+  args.push(user ? `${rejectOption(host, user)}@${address}` : address);
+  return args;
+}
+
+/** Asks for hosts, listing each group first so a whole group is one check. */
+export async function pickInventoryHosts(inventory: Inventory): Promise<InventoryHost[]> {
+  const items: InventoryPickItem[] = [
+    { label: vscode.l10n.t("Groups"), kind: vscode.QuickPickItemKind.Separator, hosts: [] },
+    ...inventory.groups.map((group) => {
+      const hosts = inventory.hosts.filter((host) => host.groups.includes(group));
+      return {
+        label: `$(folder) ${group}`,
+        description: vscode.l10n.t("{0} host(s)", String(hosts.length)),
+        hosts
+      };
+    }),
+    { label: vscode.l10n.t("Hosts"), kind: vscode.QuickPickItemKind.Separator, hosts: [] },
+    ...inventory.hosts.map((host) => ({
+      label: `$(remote) ${host.name}`,
+      description: describeSshArgs(host),
+      detail: host.groups.filter((group) => !IMPLICIT_GROUPS.has(group)).join(", ") || undefined,
+      hosts: [host]
+    }))
+  ];
+  const picked = await vscode.window.showQuickPick(items, {
+    title: vscode.l10n.t("Open SSH Hosts ({0})", inventory.source),
+    placeHolder: vscode.l10n.t("Select hosts or whole groups"),
+    canPickMany: true,
+    matchOnDescription: true,
+    matchOnDetail: true
+  });
+  const hosts = new Set((picked ?? []).flatMap((item) => item.hosts));
+  return inventory.hosts.filter((host) => hosts.has(host));
+}
+
+/**
+ * Remembers which terminal runs which inventory host, by durable terminal ID,
+ * so `{host:VAR}` placeholders keep working after a reload.
+ */
+export class InventoryHostRegistry {
+  private static readonly stateKey = "cursorTerminalNexus.inventoryHosts";
+
+  constructor(
+    private readonly memento: vscode.Memento,
+    private readonly terminalManager: TerminalManager,
+    private readonly tags: TerminalTagStore
+  ) {}
+
+  public get(terminal: vscode.Terminal): HostPlaceholders | undefined {
+    return this.read()[this.terminalManager.getId(terminal)];
+  }
+
+  /**
+   * Opens one `ssh` terminal per host, reusing open terminals of the same
+   * host, and tags new ones with the host's inventory groups.
+   */
+  public async open(
+    hosts: InventoryHost[]
+  ): Promise<{ terminals: vscode.Terminal[]; created: number }> {
+    const sshCommand =
+      vscode.workspace.getConfiguration("cursorTerminalNexus").get<string>("sshCommand", "ssh").trim() ||
+      "ssh";
+    // Checked up front so a bad host opens nothing rather than half the list.
+    const sshArgs = new Map(hosts.map((host) => [host, buildSshArgs(host)]));
+    const entries = this.read();
+    const terminals: vscode.Terminal[] = [];
+    let created = 0;
+
+    for (const host of hosts) {
+      const openId = Object.keys(entries).find(
+        (id) => entries[id].name === host.name && this.terminalManager.findTerminalById(id)
+      );
+      if (openId) {
+        entries[openId] = { name: host.name, vars: host.vars };
+        terminals.push(this.terminalManager.findTerminalById(openId)!);
+        continue;
+      }
+
+      const terminal = vscode.window.createTerminal({
+        name: host.name,
+        shellPath: sshCommand,
+        shellArgs: sshArgs.get(host),
+        iconPath: new vscode.ThemeIcon("remote")
+      });
+      const id = this.terminalManager.getId(terminal);
+      entries[id] = { name: host.name, vars: host.vars };
+      const annotation = this.tags.get(id);
+      await this.tags.set(id, {
+        tags: [...annotation.tags, ...host.groups.filter((group) => !IMPLICIT_GROUPS.has(group))],
+        note: annotation.note || (host.vars.ansible_host ?? "")
+      });
+      terminals.push(terminal);
+      created += 1;
+    }
+
+    await this.memento.update(
+      InventoryHostRegistry.stateKey,
+      Object.fromEntries(
+        Object.entries(entries).filter(([id]) => this.terminalManager.isKnownId(id))
+      )
+    );
+    terminals[0]?.show(true);
+    return { terminals, created };
+  }
+
+  private read(): Record<string, HostPlaceholders> {
+    const raw = this.memento.get<unknown>(InventoryHostRegistry.stateKey, {});
+    const entries: Record<string, HostPlaceholders> = {};
+    if (!raw || typeof raw !== "object") {
+      return entries;
+    }
+    for (const [id, value] of Object.entries(raw as Record<string, unknown>)) {
+      const entry = value as Partial<HostPlaceholders> | null;
+      if (entry && typeof entry.name === "string" && entry.vars && typeof entry.vars === "object") {
+        entries[id] = { name: entry.name, vars: toStringRecord(entry.vars) };
+      }
+    }
+    return entries;
+  }
+}
+
+function getGroup(groups: Map<string, InventoryGroup>, name: string): InventoryGroup {
+  let group = groups.get(name);
+  if (!group) {
+    group = { hosts: new Map(), children: new Set(), vars: {} };
+    groups.set(name, group);
+  }
+  return group;
+}
+
+function readIniGroups(text: string, groups: Map<string, InventoryGroup>, source: string): void {
+  let section = { group: "ungrouped", kind: "hosts" };
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("#") || line.startsWith(";")) {
+      return;
+    }
+    const header = /^\[([^\]:]+)(?::(vars|children))?\]$/.exec(line);
+    if (header) {
+      section = { group: header[1].trim(), kind: header[2] ?? "hosts" };
+      getGroup(groups, section.group);
+      return;
+    }
+
+    const group = getGroup(groups, section.group);
+    if (section.kind === "children") {
+      getGroup(groups, line);
+      group.children.add(line);
+      return;
+    }
+    if (section.kind === "vars") {
+      const pair = /^([A-Za-z_][\w.]*)\s*=\s*(.*)$/.exec(line);
+      if (!pair) {
+        throw new Error(`${source}:${index + 1}: expected key=value.`);
+      }
+      group.vars[pair[1]] = unquote(pair[2].trim());
+      return;
+    }
+
+    const [pattern, ...assignments] = splitArgs(line.replace(/\s+#.*$/, ""));
+    const vars: Record<string, string> = {};
+    for (const assignment of assignments) {
+      const separator = assignment.indexOf("=");
+      if (separator <= 0) {
+        throw new Error(`${source}:${index + 1}: expected key=value after the host name.`);
+      }
+      vars[assignment.slice(0, separator)] = assignment.slice(separator + 1);
+    }
+    for (const name of expandHostPattern(pattern, `${source}:${index + 1}`)) {
+      group.hosts.set(name, { ...group.hosts.get(name), ...vars });
+    }
+  });
+}
+
+function readYamlGroups(
+  document: Record<string, YamlValue>,
+  groups: Map<string, InventoryGroup>,
+  source: string
+): void {
+  const visit = (name: string, node: YamlValue) => {
+    const group = getGroup(groups, name);
+    if (node === null) {
+      return;
+    }
+    if (!isYamlMap(node)) {
+      throw new Error(`${source}: group "${name}" must be a mapping.`);
+    }
+    if (isYamlMap(node.hosts)) {
+      for (const [pattern, vars] of Object.entries(node.hosts)) {
+        const hostVars = isYamlMap(vars) ? toStringRecord(vars) : {};
+        for (const hostName of expandHostPattern(pattern, source)) {
+          group.hosts.set(hostName, { ...group.hosts.get(hostName), ...hostVars });
+        }
+      }
+    }
+    if (isYamlMap(node.vars)) {
+      Object.assign(group.vars, toStringRecord(node.vars));
+    }
+    if (isYamlMap(node.children)) {
+      for (const [child, childNode] of Object.entries(node.children)) {
+        group.children.add(child);
+        visit(child, childNode);
+      }
+    }
+  };
+  for (const [name, node] of Object.entries(document)) {
+    visit(name, node);
+  }
+}
+
+/**
+ * Gives every host its groups and variables with Ansible precedence: `all`,
+ * then groups from parents to children (by name at equal depth), then the
+ * host's own variables.
+ */
+function resolveInventory(groups: Map<string, InventoryGroup>, source: string): Inventory {
+  const all = getGroup(groups, "all");
+  const parents = new Map<string, string[]>();
+  for (const [name, group] of groups) {
+    for (const child of group.children) {
+      parents.set(child, [...(parents.get(child) ?? []), name]);
+    }
+  }
+  for (const name of groups.keys()) {
+    if (name !== "all" && !parents.has(name)) {
+      all.children.add(name);
+      parents.set(name, ["all"]);
+    }
+  }
+
+  const depths = new Map<string, number>();
+  const depthOf = (name: string, seen: Set<string>): number => {
+    const known = depths.get(name);
+    if (known !== undefined) {
+      return known;
+    }
+    if (seen.has(name)) {
+      throw new Error(`${source}: group "${name}" is its own ancestor.`);
+    }
+    seen.add(name);
+    const depth =
+      name === "all"
+        ? 0
+        : 1 + Math.max(...(parents.get(name) ?? ["all"]).map((parent) => depthOf(parent, seen)));
+    seen.delete(name);
+    depths.set(name, depth);
+    return depth;
+  };
+  const ancestorsOf = (name: string, result: Set<string>): Set<string> => {
+    if (!result.has(name)) {
+      result.add(name);
+      for (const parent of parents.get(name) ?? []) {
+        ancestorsOf(parent, result);
+      }
+    }
+    return result;
+  };
+
+  for (const name of groups.keys()) {
+    depthOf(name, new Set());
+  }
+
+  const hostNames: string[] = [];
+  for (const group of groups.values()) {
+    for (const name of group.hosts.keys()) {
+      if (!hostNames.includes(name)) {
+        hostNames.push(name);
+      }
+    }
+  }
+
+  const hosts = hostNames.map((name) => {
+    const direct = [...groups].filter(([, group]) => group.hosts.has(name)).map(([id]) => id);
+    const memberOf = new Set<string>();
+    for (const group of direct) {
+      ancestorsOf(group, memberOf);
+    }
+    const ordered = [...memberOf].sort(
+      (a, b) => depths.get(a)! - depths.get(b)! || a.localeCompare(b)
+    );
+    const vars: Record<string, string> = {};
+    for (const group of ordered) {
+      Object.assign(vars, groups.get(group)?.vars);
+    }
+    for (const group of direct) {
+      Object.assign(vars, groups.get(group)?.hosts.get(name));
+    }
+    return { name, groups: ordered, vars };
+  });
+
+  return {
+    source,
+    hosts,
+    groups: [...groups.keys()]
+      .filter((name) => name !== "ungrouped" && hosts.some((host) => host.groups.includes(name)))
+      .sort((a, b) => (a === "all" ? -1 : b === "all" ? 1 : a.localeCompare(b)))
+  };
+}
+
+/** Expands Ansible ranges such as `web[01:03].example.com` or `db-[a:c]`. */
+function expandHostPattern(pattern: string, location: string): string[] {
+  const range = /\[([0-9]+|[a-z]):([0-9]+|[a-z])\]/i.exec(pattern);
+  if (!range) {
+    return [pattern];
+  }
+  const [token, from, to] = range;
+  const prefix = pattern.slice(0, range.index);
+  const suffix = pattern.slice(range.index + token.length);
+  const values: string[] = [];
+  if (/^\d+$/.test(from) && /^\d+$/.test(to)) {
+    for (let value = Number(from); value <= Number(to); value += 1) {
+      values.push(String(value).padStart(from.length, "0"));
+    }
+  } else if (/^[a-z]$/i.test(from) && /^[a-z]$/i.test(to)) {
+    for (let code = from.charCodeAt(0); code <= to.charCodeAt(0); code += 1) {
+      values.push(String.fromCharCode(code));
+    }
+  }
+  if (values.length === 0) {
+    throw new Error(`${location}: invalid host range ${token}.`);
+  }
+  return values.flatMap((value) => expandHostPattern(`${prefix}${value}${suffix}`, location));
+}
+
+/**
+ * Reads the YAML subset inventories use: nested block mappings, scalars,
+ * lists of scalars and empty `{}` / `[]`. Anchors and multi-line strings are
+ * not supported.
+ */
+function parseYaml(text: string, source: string): Record<string, YamlValue> {
+  const root: Record<string, YamlValue> = {};
+  const stack: Array<{ indent: number; owner: Record<string, YamlValue>; key?: string }> = [
+    { indent: -1, owner: root }
+  ];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const location = `${source}:${index + 1}`;
+    const trimmed = raw.trim();
+    if (!trimmed || trimmed.startsWith("#") || trimmed === "---" || trimmed === "...") {
+      return;
+    }
+    const indent = raw.length - raw.trimStart().length;
+    if (raw.slice(0, indent).includes("\t")) {
+      throw new Error(`${location}: tabs are not allowed for indentation.`);
+    }
+    const content = stripYamlComment(trimmed);
+    const isListItem = content === "-" || content.startsWith("- ");
+    while (
+      stack.length > 1 &&
+      (indent < stack[stack.length - 1].indent ||
+        (indent === stack[stack.length - 1].indent && !isListItem))
+    ) {
+      stack.pop();
+    }
+    const frame = stack[stack.length - 1];
+
+    if (isListItem) {
+      if (frame.key === undefined) {
+        throw new Error(`${location}: unexpected list item.`);
+      }
+      const current = frame.owner[frame.key];
+      const list = current === null ? [] : current;
+      if (!Array.isArray(list)) {
+        throw new Error(`${location}: cannot mix a list into a mapping.`);
+      }
+      const item = content.slice(1).trim();
+      if (/^[^"'][^:]*:(\s|$)/.test(item)) {
+        throw new Error(`${location}: lists of mappings are not supported in inventories.`);
+      }
+      list.push(parseYamlScalar(item));
+      frame.owner[frame.key] = list;
+      return;
+    }
+
+    const pair = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^:]+?)\s*:(?:\s+(.*))?$/.exec(content);
+    if (!pair) {
+      throw new Error(`${location}: expected "key: value".`);
+    }
+    let container = frame.owner;
+    if (frame.key !== undefined) {
+      const current = frame.owner[frame.key];
+      if (current === null) {
+        container = {};
+        frame.owner[frame.key] = container;
+      } else if (isYamlMap(current)) {
+        container = current;
+      } else {
+        throw new Error(`${location}: "${frame.key}" already has a value.`);
+      }
+    }
+    const key = unquote(pair[1]);
+    const value = pair[2]?.trim();
+    if (!value) {
+      container[key] = null;
+      stack.push({ indent, owner: container, key });
+    } else {
+      container[key] = parseYamlScalar(value);
+    }
+  });
+  return root;
+}
+
+function parseYamlScalar(value: string): YamlValue {
+  if (value === "" || value === "~" || value === "null") {
+    return null;
+  }
+  if (value === "{}") {
+    return {};
+  }
+  if (value.startsWith("[") && value.endsWith("]")) {
+    const inner = value.slice(1, -1).trim();
+    return inner ? inner.split(",").map((item) => parseYamlScalar(item.trim())) : [];
+  }
+  return unquote(value);
+}
+
+function stripYamlComment(line: string): string {
+  let quote = "";
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (quote) {
+      quote = char === quote ? "" : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#" && (index === 0 || /\s/.test(line[index - 1]))) {
+      return line.slice(0, index).trimEnd();
+    }
+  }
+  return line;
+}
+
+function isYamlMap(value: YamlValue | undefined): value is { [key: string]: YamlValue } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toStringRecord(value: object): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (item === null || item === undefined) {
+      continue;
+    }
+    result[key] = Array.isArray(item)
+      ? item.join(",")
+      : typeof item === "object"
+        ? JSON.stringify(item)
+        : String(item);
+  }
+  return result;
+}
+
+function unquote(value: string): string {
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    return value.slice(1, -1).replace(/\\(.)/g, (_, char: string) => (char === "n" ? "\n" : char));
+  }
+  if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value;
+}
+
+/** Splits on whitespace, keeping single- or double-quoted runs together. */
+function rejectOption(host: InventoryHost, value: string): string {
+  if (value.startsWith("-")) {
+    throw new Error(`Host ${host.name}: "${value}" cannot start with "-".`);
+  }
+  return value;
+}
+
+/** The ssh command line shown in the host picker, or why the host cannot be opened. */
+function describeSshArgs(host: InventoryHost): string {
+  try {
+    return buildSshArgs(host).join(" ");
+  } catch (error) {
+    return `$(warning) ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+function splitArgs(text: string): string[] {
+  const args: string[] = [];
+  const pattern = /(?:[^\s"']+|"(?:[^"\\]|\\.)*"|'[^']*')+/g;
+  for (const match of text.matchAll(pattern)) {
+    args.push(match[0].replace(/"((?:[^"\\]|\\.)*)"|'([^']*)'/g, (_, double, single) =>
+      double !== undefined ? double.replace(/\\(.)/g, "$1") : single
+    ));
+  }
+  return args;
+}
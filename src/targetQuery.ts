@@ -0,0 +1,406 @@
+import * as vscode from "vscode";
+import * as os from "os";
+import { inferGroupId } from "./terminalGroups";
+import { TerminalDescriptor, TerminalManager } from "./terminalManager";
+import { isReadyState, TerminalState, TerminalStateManager } from "./terminalStateManager";
+
+/** What a target query can see of one terminal. */
+export interface TargetFields {
+  name: string;
+  tags: string[];
+  state: TerminalState;
+  cwd?: string;
+  group: string;
+  pid?: number;
+  exitCode?: number;
+}
+
+export type TargetPredicate = (fields: TargetFields) => boolean;
+
+/** Any terminal entry that carries the descriptor fields a query reads. */
+export type TargetCandidate = Pick<TerminalDescriptor, "terminal" | "name" | "processId" | "tags">;
+
+type Field = "name" | "tag" | "state" | "cwd" | "group" | "pid" | "exit";
+type Operator = ":" | "!=" | ">" | ">=" | "<" | "<=";
+
+type Token =
+  | { kind: "open" | "close"; column: number }
+  | { kind: "keyword"; word: "and" | "or" | "not"; column: number }
+  | { kind: "term"; predicate: TargetPredicate; column: number };
+
+const FIELDS = new Set<string>(["name", "tag", "state", "cwd", "group", "pid", "exit"]);
+const NUMERIC_FIELDS = new Set<Field>(["pid", "exit"]);
+const STATE_ALIASES: Record<string, (state: TerminalState) => boolean> = {
+  ready: isReadyState,
+  busy: (state) => !isReadyState(state),
+  idle: (state) => state === TerminalState.IDLE,
+  running: (state) => state === TerminalState.RUNNING_PROGRAM,
+  waiting: (state) => state === TerminalState.CLI_WAITING,
+  thinking: (state) => state === TerminalState.CLI_THINKING
+};
+
+/**
+ * Compiles a query such as `tag:api and state:ready and not name:/prod/`.
+ * Terms are `field:value` or `field != value`, with `>`, `>=`, `<` and `<=`
+ * for `pid` and `exit`. Values may be `/regex/flags`, quoted, or globs with
+ * `*` and `?`; `name:` and `cwd:` otherwise match a substring. Adjacent terms
+ * are joined with `and`; a bare word matches names. Numeric terms never
+ * match a terminal without a known PID or exit code. Throws on syntax errors.
+ */
+export function compileTargetQuery(query: string): TargetPredicate {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) {
+    throw new Error(vscode.l10n.t("Target query is empty."));
+  }
+  let position = 0;
+
+  const parseOr = (): TargetPredicate => {
+    const parts = [parseAnd()];
+    while (isKeyword(tokens[position], "or")) {
+      position += 1;
+      parts.push(parseAnd());
+    }
+    return parts.length === 1 ? parts[0] : (fields) => parts.some((part) => part(fields));
+  };
+
+  const parseAnd = (): TargetPredicate => {
+    const parts = [parseUnary()];
+    while (
+      position < tokens.length &&
+      tokens[position].kind !== "close" &&
+      !isKeyword(tokens[position], "or")
+    ) {
+      if (isKeyword(tokens[position], "and")) {
+        position += 1;
+      }
+      parts.push(parseUnary());
+    }
+    return parts.length === 1 ? parts[0] : (fields) => parts.every((part) => part(fields));
+  };
+
+  const parseUnary = (): TargetPredicate => {
+    const token = tokens[position];
+    if (!token) {
+      throw new Error(vscode.l10n.t("Target query ends unexpectedly."));
+    }
+    position += 1;
+    if (token.kind === "term") {
+      return token.predicate;
+    }
+    if (token.kind === "keyword" && token.word === "not") {
+      const inner = parseUnary();
+      return (fields) => !inner(fields);
+    }
+    if (token.kind === "open") {
+      const inner = parseOr();
+      if (tokens[position]?.kind !== "close") {
+        throw new Error(
+          vscode.l10n.t("Missing \")\" for \"(\" at column {0}.", String(token.column))
+        );
+      }
+      position += 1;
+      return inner;
+    }
+    throw unexpectedToken(token);
+  };
+
+  const predicate = parseOr();
+  if (position < tokens.length) {
+    throw unexpectedToken(tokens[position]);
+  }
+  return predicate;
+}
+
+/** Evaluates target queries against terminal names, tags, states and last exit codes. */
+export class TargetMatcher {
+  constructor(
+    private readonly terminalManager: TerminalManager,
+    private readonly terminalStateManager: TerminalStateManager
+  ) {}
+
+  /** The candidates the predicate accepts, in their given order. */
+  public filter<T extends TargetCandidate>(predicate: TargetPredicate, candidates: T[]): T[] {
+    return candidates.filter((candidate) => predicate(this.describe(candidate)));
+  }
+
+  /** Open terminals matching the query; throws when the query does not parse. */
+  public async findTerminals(query: string): Promise<vscode.Terminal[]> {
+    const predicate = compileTargetQuery(query);
+    const descriptors = await this.terminalManager.listTerminals();
+    return this.filter(predicate, descriptors).map((descriptor) => descriptor.terminal);
+  }
+
+  private describe(candidate: TargetCandidate): TargetFields {
+    return {
+      name: candidate.name,
+      tags: candidate.tags,
+      state: this.terminalStateManager.getState(candidate.terminal),
+      cwd: readCwd(candidate.terminal),
+      group: inferGroupId(candidate.name),
+      pid: candidate.processId,
+      exitCode: this.terminalStateManager.getLastExitCode(candidate.terminal)
+    };
+  }
+}
+
+function readCwd(terminal: vscode.Terminal): string | undefined {
+  const live = terminal.shellIntegration?.cwd?.fsPath;
+  if (live) {
+    return live;
+  }
+  const options = terminal.creationOptions;
+  const cwd = "pty" in options ? undefined : (options as vscode.TerminalOptions).cwd;
+  return typeof cwd === "string" ? cwd : cwd?.fsPath;
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < query.length) {
+    const char = query[index];
+    const column = index + 1;
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+    if (char === "(" || char === ")") {
+      tokens.push({ kind: char === "(" ? "open" : "close", column });
+      index += 1;
+      continue;
+    }
+
+    const fieldMatch = /^([a-z]+)\s*(!=|>=|<=|[:=<>])\s*/i.exec(query.slice(index));
+    let field: Field = "name";
+    let operator: Operator = ":";
+    if (fieldMatch) {
+      const name = fieldMatch[1].toLowerCase();
+      if (!FIELDS.has(name)) {
+        throw new Error(
+          vscode.l10n.t(
+            "Unknown field \"{0}\" at column {1}. Use name, tag, state, cwd, group, pid or exit.",
+            fieldMatch[1],
+            String(column)
+          )
+        );
+      }
+      field = name as Field;
+      operator = fieldMatch[2] === "=" ? ":" : (fieldMatch[2] as Operator);
+      index += fieldMatch[0].length;
+    }
+
+    const value = readValue(query, index, column);
+    index = value.end;
+    if (!fieldMatch && value.kind === "word") {
+      const word = value.text.toLowerCase();
+      if (word === "and" || word === "or" || word === "not") {
+        tokens.push({ kind: "keyword", word, column });
+        continue;
+      }
+    }
+    tokens.push({ kind: "term", predicate: compileTerm(field, operator, value, column), column });
+  }
+  return tokens;
+}
+
+interface QueryValue {
+  kind: "word" | "quoted" | "regex";
+  text: string;
+  regex?: RegExp;
+  end: number;
+}
+
+function readValue(query: string, start: number, column: number): QueryValue {
+  const first = query[start];
+  if (first === undefined || /\s|\)/.test(first)) {
+    throw new Error(vscode.l10n.t("Missing value at column {0}.", String(column)));
+  }
+  if (first === '"') {
+    let text = "";
+    for (let index = start + 1; index < query.length; index += 1) {
+      if (query[index] === "\\" && index + 1 < query.length) {
+        text += query[index + 1];
+        index += 1;
+        continue;
+      }
+      if (query[index] === '"') {
+        return { kind: "quoted", text, end: index + 1 };
+      }
+      text += query[index];
+    }
+    throw new Error(vscode.l10n.t("Unterminated quote at column {0}.", String(column)));
+  }
+  if (first === "/") {
+    for (let index = start + 1; index < query.length; index += 1) {
+      if (query[index] === "\\") {
+        index += 1;
+        continue;
+      }
+      if (query[index] === "/") {
+        const flags = /^[a-z]*/i.exec(query.slice(index + 1))?.[0] ?? "";
+        const source = query.slice(start + 1, index);
+        // g and y make test() resume from lastIndex, so matches would depend on earlier terminals.
+        const stateful = /[gy]/.exec(flags);
+        if (stateful) {
+          throw new Error(
+            vscode.l10n.t(
+              "Regex flag \"{0}\" at column {1} is not supported. Use i, m, s or u.",
+              stateful[0],
+              String(column)
+            )
+          );
+        }
+        try {
+          return {
+            kind: "regex",
+            text: source,
+            regex: new RegExp(source, flags),
+            end: index + 1 + flags.length
+          };
+        } catch (error) {
+          throw new Error(
+            vscode.l10n.t(
+              "Invalid regex at column {0}: {1}",
+              String(column),
+              error instanceof Error ? error.message : String(error)
+            )
+          );
+        }
+      }
+    }
+    throw new Error(vscode.l10n.t("Unterminated regex at column {0}.", String(column)));
+  }
+  let end = start;
+  while (end < query.length && !/[\s()]/.test(query[end])) {
+    end += 1;
+  }
+  return { kind: "word", text: query.slice(start, end), end };
+}
+
+function compileTerm(
+  field: Field,
+  operator: Operator,
+  value: QueryValue,
+  column: number
+): TargetPredicate {
+  if (NUMERIC_FIELDS.has(field)) {
+    const expected = Number(value.text);
+    if (value.kind === "regex" || !/^-?\d+$/.test(value.text)) {
+      throw new Error(
+        vscode.l10n.t("\"{0}\" needs a whole number at column {1}.", field, String(column))
+      );
+    }
+    const read = (fields: TargetFields) => (field === "pid" ? fields.pid : fields.exitCode);
+    return (fields) => {
+      const actual = read(fields);
+      return actual !== undefined && compareNumbers(actual, operator, expected);
+    };
+  }
+
+  if (operator !== ":" && operator !== "!=") {
+    throw new Error(
+      vscode.l10n.t(
+        "\"{0}\" does not support \"{1}\" at column {2}.",
+        field,
+        operator,
+        String(column)
+      )
+    );
+  }
+  const matches = compileTextMatch(field, value, column);
+  return operator === "!=" ? (fields) => !matches(fields) : matches;
+}
+
+function compileTextMatch(field: Field, value: QueryValue, column: number): TargetPredicate {
+  if (field === "state" && value.kind !== "regex") {
+    const alias = value.text.toLowerCase();
+    const byAlias = STATE_ALIASES[alias];
+    const exact = Object.values(TerminalState).find((state) => state.toLowerCase() === alias);
+    if (!byAlias && !exact) {
+      throw new Error(
+        vscode.l10n.t(
+          "Unknown state \"{0}\" at column {1}. Use ready, busy, idle, running, waiting or thinking.",
+          value.text,
+          String(column)
+        )
+      );
+    }
+    return (fields) => (byAlias ? byAlias(fields.state) : fields.state === exact);
+  }
+
+  const text = field === "cwd" ? expandHome(value.text) : value.text;
+  const test = value.regex
+    ? (candidate: string) => value.regex!.test(candidate)
+    : /[*?]/.test(text)
+      ? globTest(text)
+      : field === "name" || field === "cwd"
+        ? (candidate: string) => candidate.toLowerCase().includes(text.toLowerCase())
+        : (candidate: string) => candidate.toLowerCase() === text.toLowerCase();
+
+  switch (field) {
+    case "tag":
+      return (fields) => fields.tags.some(test);
+    case "cwd":
+      return (fields) => fields.cwd !== undefined && test(normalizeSlashes(fields.cwd));
+    case "group":
+      return (fields) => test(fields.group);
+    case "state":
+      return (fields) => test(fields.state);
+    default:
+      return (fields) => test(fields.name);
+  }
+}
+
+function compareNumbers(actual: number, operator: Operator, expected: number): boolean {
+  switch (operator) {
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+    case "!=":
+      return actual !== expected;
+    default:
+      return actual === expected;
+  }
+}
+
+function globTest(glob: string): (candidate: string) => boolean {
+  const source = glob
+    .split("")
+    .map((char) =>
+      char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("");
+  const regex = new RegExp(`^${source}$`, "i");
+  return (candidate) => regex.test(candidate);
+}
+
+function expandHome(value: string): string {
+  const home = normalizeSlashes(os.homedir());
+  const expanded = value === "~" || value.startsWith("~/") ? home + value.slice(1) : value;
+  return normalizeSlashes(expanded);
+}
+
+function normalizeSlashes(value: string): string {
+  return value.replace(/\\/g, "/");
+}
+
+function isKeyword(token: Token | undefined, word: "and" | "or" | "not"): boolean {
+  return token?.kind === "keyword" && token.word === word;
+}
+
+function unexpectedToken(token: Token): Error {
+  return new Error(
+    vscode.l10n.t("Unexpected {0} at column {1}.", describeToken(token), String(token.column))
+  );
+}
+
+function describeToken(token: Token): string {
+  if (token.kind === "keyword") {
+    return `"${token.word}"`;
+  }
+  return token.kind === "term" ? vscode.l10n.t("term") : `"${token.kind === "open" ? "(" : ")"}"`;
+}
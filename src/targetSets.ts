@@ -0,0 +1,288 @@
+import * as vscode from "vscode";
+import { compileTargetQuery, TargetCandidate, TargetMatcher } from "./targetQuery";
+import { TerminalDescriptor, TerminalManager } from "./terminalManager";
+
+const STATE_KEY = "cursorTerminalNexus.targetSets";
+
+export type TargetSetScope = "workspace" | "global";
+
+/** A remembered terminal; the name is the fallback once the ID is gone. */
+export interface TargetSetMember {
+  id: string;
+  name: string;
+}
+
+/** A named subset of terminals: fixed members, or every terminal matching a query. */
+export type TargetSet =
+  | { name: string; scope: TargetSetScope; members: TargetSetMember[] }
+  | { name: string; scope: TargetSetScope; query: string };
+
+interface TargetSetPickItem extends vscode.QuickPickItem {
+  set?: TargetSet;
+}
+
+/** Target sets from workspace state and, for sets shared across workspaces, global state. */
+export class TargetSetStore implements vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+  public readonly onDidChange = this.changeEmitter.event;
+
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly terminalManager: TerminalManager,
+    private readonly targetMatcher: TargetMatcher
+  ) {
+    this.context.globalState.setKeysForSync([STATE_KEY]);
+  }
+
+  public dispose(): void {
+    this.changeEmitter.dispose();
+  }
+
+  /** Workspace sets first; a workspace set hides a global one of the same name. */
+  public list(): TargetSet[] {
+    const workspace = this.read("workspace");
+    const names = new Set(workspace.map((set) => set.name));
+    return [...workspace, ...this.read("global").filter((set) => !names.has(set.name))];
+  }
+
+  public get(name: string): TargetSet | undefined {
+    return this.list().find((set) => set.name === name);
+  }
+
+  public async save(set: TargetSet): Promise<void> {
+    const sets = this.read(set.scope).filter((item) => item.name !== set.name);
+    await this.memento(set.scope).update(STATE_KEY, [...sets, set]);
+    this.changeEmitter.fire();
+  }
+
+  public async delete(set: TargetSet): Promise<void> {
+    const sets = this.read(set.scope).filter((item) => item.name !== set.name);
+    await this.memento(set.scope).update(STATE_KEY, sets);
+    this.changeEmitter.fire();
+  }
+
+  /**
+   * The candidates in the set, in candidate order. Members are found by ID,
+   * then by name, so a set outlives the terminals it was saved from.
+   */
+  public match<T extends TargetCandidate>(
+    set: TargetSet,
+    candidates: T[],
+    getId: (candidate: T) => string
+  ): T[] {
+    if ("query" in set) {
+      try {
+        return this.targetMatcher.filter(compileTargetQuery(set.query), candidates);
+      } catch {
+        return [];
+      }
+    }
+    const matched = new Set<T>();
+    for (const member of set.members) {
+      const byId = candidates.find((candidate) => getId(candidate) === member.id);
+      const found =
+        byId ??
+        candidates.find((candidate) => candidate.name === member.name && !matched.has(candidate));
+      if (found) {
+        matched.add(found);
+      }
+    }
+    return candidates.filter((candidate) => matched.has(candidate));
+  }
+
+  public async findTerminals(set: TargetSet): Promise<vscode.Terminal[]> {
+    const descriptors = await this.terminalManager.listTerminals();
+    return this.match(set, descriptors, (descriptor) => descriptor.id).map(
+      (descriptor) => descriptor.terminal
+    );
+  }
+
+  /**
+   * The QuickPick step before picking terminals. Resolves a set's terminals,
+   * `[]` to pick terminals by hand, or undefined when dismissed.
+   */
+  public async pickSetTerminals(): Promise<vscode.Terminal[] | undefined> {
+    const sets = this.list();
+    if (sets.length === 0) {
+      return [];
+    }
+    const descriptors = await this.terminalManager.listTerminals();
+    const picked = await vscode.window.showQuickPick<TargetSetPickItem>(
+      [
+        { label: vscode.l10n.t("$(checklist) Pick Terminals...") },
+        { label: vscode.l10n.t("Target Sets"), kind: vscode.QuickPickItemKind.Separator },
+        ...sets.map((set) => ({
+          label: `$(${set.scope === "global" ? "globe" : "layers"}) ${set.name}`,
+          description: vscode.l10n.t(
+            "{0} terminal(s)",
+            String(this.match(set, descriptors, (descriptor) => descriptor.id).length)
+          ),
+          detail: describeTargetSet(set),
+          set
+        }))
+      ],
+      { title: vscode.l10n.t("TQ Terminal Nexus"), placeHolder: vscode.l10n.t("Broadcast to") }
+    );
+    if (!picked) {
+      return undefined;
+    }
+    if (!picked.set) {
+      return [];
+    }
+    const terminals = this.match(picked.set, descriptors, (descriptor) => descriptor.id);
+    if (terminals.length === 0) {
+      void vscode.window.showInformationMessage(
+        vscode.l10n.t("Target set \"{0}\" has no open terminal.", picked.set.name)
+      );
+      return undefined;
+    }
+    return terminals.map((descriptor) => descriptor.terminal);
+  }
+
+  private memento(scope: TargetSetScope): vscode.Memento {
+    return scope === "global" ? this.context.globalState : this.context.workspaceState;
+  }
+
+  private read(scope: TargetSetScope): TargetSet[] {
+    const raw = this.memento(scope).get<unknown>(STATE_KEY, []);
+    return (Array.isArray(raw) ? raw : [])
+      .map((item) => sanitizeTargetSet(item, scope))
+      .filter((set): set is TargetSet => set !== undefined);
+  }
+}
+
+export function describeTargetSet(set: TargetSet): string {
+  return "query" in set ? set.query : set.members.map((member) => member.name).join(", ");
+}
+
+/**
+ * Asks for the name, whether to keep the given terminals or a rule, and the
+ * scope. `query` prefills the rule, e.g. from the panel filter box.
+ */
+export async function promptForTargetSet(
+  selected: TerminalDescriptor[],
+  query: string,
+  existing: TargetSet[]
+): Promise<TargetSet | undefined> {
+  const title = vscode.l10n.t("Save Target Set");
+  const name = (
+    await vscode.window.showInputBox({
+      title,
+      prompt: vscode.l10n.t("Target set name"),
+      placeHolder: vscode.l10n.t("e.g. claude agents"),
+      validateInput: (value) => (value.trim() ? undefined : vscode.l10n.t("Enter a name."))
+    })
+  )?.trim();
+  if (!name) {
+    return undefined;
+  }
+
+  const staticLabel = vscode.l10n.t("$(pinned) Selected Terminals");
+  const ruleLabel = vscode.l10n.t("$(filter) Rule");
+  const kind = await vscode.window.showQuickPick(
+    [
+      ...(selected.length > 0
+        ? [
+            {
+              label: staticLabel,
+              description: vscode.l10n.t("{0} terminal(s)", String(selected.length)),
+              detail: selected.map((descriptor) => descriptor.name).join(", ")
+            }
+          ]
+        : []),
+      {
+        label: ruleLabel,
+        description: query,
+        detail: vscode.l10n.t("Matches terminals by target query each time the set is used")
+      }
+    ],
+    { title }
+  );
+  if (!kind) {
+    return undefined;
+  }
+
+  let rule: string | undefined;
+  if (kind.label === ruleLabel) {
+    rule = (
+      await vscode.window.showInputBox({
+        title,
+        prompt: vscode.l10n.t("Target query, e.g. tag:frontend or name:/^claude/"),
+        value: query,
+        validateInput: (value) => {
+          try {
+            compileTargetQuery(value);
+            return undefined;
+          } catch (error) {
+            return error instanceof Error ? error.message : String(error);
+          }
+        }
+      })
+    )?.trim();
+    if (!rule) {
+      return undefined;
+    }
+  }
+
+  const workspaceLabel = vscode.l10n.t("This Workspace");
+  const scopePick = await vscode.window.showQuickPick(
+    [
+      { label: workspaceLabel },
+      {
+        label: vscode.l10n.t("All Workspaces"),
+        detail: vscode.l10n.t("Saved terminals are then matched by name in other workspaces")
+      }
+    ],
+    { title }
+  );
+  if (!scopePick) {
+    return undefined;
+  }
+  const scope: TargetSetScope = scopePick.label === workspaceLabel ? "workspace" : "global";
+
+  if (existing.some((set) => set.name === name && set.scope === scope)) {
+    const replaceLabel = vscode.l10n.t("Replace");
+    const confirmed = await vscode.window.showWarningMessage(
+      vscode.l10n.t("Target set \"{0}\" already exists. Replace it?", name),
+      { modal: true },
+      replaceLabel
+    );
+    if (confirmed !== replaceLabel) {
+      return undefined;
+    }
+  }
+
+  return rule !== undefined
+    ? { name, scope, query: rule }
+    : {
+        name,
+        scope,
+        members: selected.map((descriptor) => ({ id: descriptor.id, name: descriptor.name }))
+      };
+}
+
+function sanitizeTargetSet(raw: unknown, scope: TargetSetScope): TargetSet | undefined {
+  if (!raw || typeof raw !== "object") {
+    return undefined;
+  }
+  const value = raw as Record<string, unknown>;
+  const name = typeof value.name === "string" ? value.name.trim() : "";
+  if (!name) {
+    return undefined;
+  }
+  if (typeof value.query === "string" && value.query.trim()) {
+    return { name, scope, query: value.query.trim() };
+  }
+  if (!Array.isArray(value.members)) {
+    return undefined;
+  }
+  const members = value.members.filter(
+    (member): member is TargetSetMember =>
+      !!member &&
+      typeof member === "object" &&
+      typeof (member as TargetSetMember).id === "string" &&
+      typeof (member as TargetSetMember).name === "string"
+  );
+  return members.length > 0 ? { name, scope, members } : undefined;
+}
@@ -1,5 +1,8 @@
 import * as vscode from "vscode";
+import { BroadcastRun, findLastTarget } from "./broadcastRuns";
 import { Broadcaster, BroadcastOptions } from "./broadcaster";
+import { parseInputPrefix, translateKeySequence } from "./keySequences";
+import { compileTargetQuery, TargetMatcher } from "./targetQuery";
 import { isReadyState, TerminalStateManager } from "./terminalStateManager";
 
 const READY_PROBE_INTERVAL_MS = 200;
@@ -30,6 +33,7 @@ export interface AutomationStatus {
 
 export type ChainStep =
   | { kind: "command"; command: string; sourceLine: number }
+  | { kind: "target"; query: string; sourceLine: number }
   | { kind: "delay"; delayMs: number; sourceLine: number }
   | {
       kind: "waitReady";
@@ -69,7 +73,8 @@ export class TaskAutomationManager implements vscode.Disposable {
 
   constructor(
     private readonly terminalStateManager: TerminalStateManager,
-    private readonly broadcaster: Broadcaster
+    private readonly broadcaster: Broadcaster,
+    private readonly targetMatcher: TargetMatcher
   ) {}
 
   public dispose(): void {
@@ -127,11 +132,13 @@ export class TaskAutomationManager implements vscode.Disposable {
           throw new Error("All polling targets are closed.");
         }
 
-        const sentCount = await this.broadcaster.broadcastNonInteractive(
+        const run = await this.broadcaster.broadcastNonInteractive(
           activeTargets,
           text,
-          options
+          options,
+          { source: "polling" }
         );
+        const sentCount = run?.targets.length ?? 0;
 
         if (!this.isPollingRunActive(runId)) {
           return;
@@ -200,8 +207,13 @@ export class TaskAutomationManager implements vscode.Disposable {
       throw new Error("Task chain is empty.");
     }
 
+    // A target directive before the first command or wait replaces the selection.
     const targets = dedupeTerminals(terminals);
-    if (targets.length === 0) {
+    const firstTarget = steps.findIndex((step) => step.kind === "target");
+    const firstSend = steps.findIndex(
+      (step) => step.kind === "command" || step.kind === "waitReady"
+    );
+    if (targets.length === 0 && (firstTarget < 0 || (firstSend >= 0 && firstSend < firstTarget))) {
       throw new Error("Select at least one target terminal first.");
     }
 
@@ -246,6 +258,8 @@ export class TaskAutomationManager implements vscode.Disposable {
     defaultWaitTimeoutMs: number,
     options: BroadcastOptions
   ): Promise<void> {
+    let lastRun: BroadcastRun | undefined;
+    let scope = terminals;
     try {
       for (let stepIndex = 0; stepIndex < steps.length; stepIndex += 1) {
         const step = steps[stepIndex];
@@ -263,20 +277,35 @@ export class TaskAutomationManager implements vscode.Disposable {
         };
         this.emitStatus();
 
-        const activeTargets = getOpenTerminals(terminals);
+        if (step.kind === "target") {
+          scope = await this.targetMatcher.findTerminals(step.query);
+          if (scope.length === 0) {
+            throw new Error(`Line ${step.sourceLine}: target "${step.query}" matched no terminal.`);
+          }
+          this.status = {
+            ...this.status,
+            chain: { ...this.status.chain, targetCount: scope.length }
+          };
+          this.emitStatus();
+          continue;
+        }
+
+        const activeTargets = getOpenTerminals(scope);
         if (activeTargets.length === 0) {
           throw new Error("All chain targets are closed.");
         }
 
         if (step.kind === "command") {
-          const sentCount = await this.broadcaster.broadcastNonInteractive(
+          const run = await this.broadcaster.broadcastNonInteractive(
             activeTargets,
             step.command,
-            options
+            options,
+            { source: "chain", retry: true }
           );
-          if (sentCount === 0) {
+          if (!run) {
             throw new Error(`Step ${stepIndex + 1} sent nothing.`);
           }
+          lastRun = run;
           continue;
         }
 
@@ -290,7 +319,8 @@ export class TaskAutomationManager implements vscode.Disposable {
           activeTargets,
           step.stableMs,
           step.timeoutMs ?? defaultWaitTimeoutMs,
-          stepIndex + 1
+          stepIndex + 1,
+          lastRun
         );
       }
 
@@ -342,7 +372,8 @@ export class TaskAutomationManager implements vscode.Disposable {
     terminals: vscode.Terminal[],
     stableMs: number,
     timeoutMs: number,
-    stepIndex: number
+    stepIndex: number,
+    lastRun: BroadcastRun | undefined
   ): Promise<void> {
     const startAt = Date.now();
     const readySince = new Map<vscode.Terminal, number>();
@@ -359,7 +390,10 @@ export class TaskAutomationManager implements vscode.Disposable {
 
       const now = Date.now();
       for (const terminal of activeTargets) {
-        if (isReadyState(this.terminalStateManager.getState(terminal))) {
+        // A terminal waiting out a retry backoff looks idle but is not done yet.
+        const retryPending =
+          lastRun !== undefined && findLastTarget(lastRun, terminal)?.retryAt !== undefined;
+        if (!retryPending && isReadyState(this.terminalStateManager.getState(terminal))) {
           if (!readySince.has(terminal)) {
             readySince.set(terminal, now);
           }
@@ -418,6 +452,21 @@ export function parseChainScript(script: string): ChainStep[] {
       continue;
     }
 
+    const targetDirective =
+      line.match(/^target\s*:\s*(.*)$/i) ?? line.match(/^\{\s*target\s*:\s*(.*)\}$/i);
+    if (targetDirective) {
+      const query = targetDirective[1].trim();
+      try {
+        compileTargetQuery(query);
+      } catch (error) {
+        throw new Error(
+          `Line ${sourceLine}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      steps.push({ kind: "target", query, sourceLine });
+      continue;
+    }
+
     const plainDirective = line.match(/^(wait_ready|wait_idle|delay)\s*:\s*(.+)$/i);
     if (plainDirective) {
       const name = plainDirective[1].toLowerCase();
@@ -478,6 +527,17 @@ export function parseChainScript(script: string): ChainStep[] {
       throw new Error(`Line ${sourceLine}: unknown directive.`);
     }
 
+    const input = parseInputPrefix(line);
+    if (input.keys) {
+      try {
+        translateKeySequence(input.text);
+      } catch (error) {
+        throw new Error(
+          `Line ${sourceLine}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
     steps.push({ kind: "command", command: rawLine, sourceLine });
   }
 
@@ -488,6 +548,9 @@ function describeStep(step: ChainStep): string {
   if (step.kind === "command") {
     return `Command (line ${step.sourceLine})`;
   }
+  if (step.kind === "target") {
+    return `Target ${step.query} (line ${step.sourceLine})`;
+  }
   if (step.kind === "delay") {
     return `Delay ${step.delayMs}ms (line ${step.sourceLine})`;
   }
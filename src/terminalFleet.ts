@@ -0,0 +1,258 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { compileTemplate, PlaceholderContext, renderTemplate } from "./placeholders";
+import { detectShellTypeForPath } from "./shellTypes";
+import { inferGroupId } from "./terminalGroups";
+
+const MAX_FLEET_SIZE = 64;
+const SHELL_START_TIMEOUT_MS = 5000;
+const DEFAULT_NAME_TEMPLATE = "{name}-{index}";
+const CUSTOM_FLEET_NAME = "agent";
+
+/**
+ * A set of terminals created together. `nameTemplate`, `env` values and
+ * `startupCommand` take the broadcast placeholders, with `{index}` counting
+ * from 1 and `{name}` standing for the profile name in the first two.
+ */
+export interface FleetProfile {
+  name: string;
+  count: number;
+  nameTemplate: string;
+  cwd?: string;
+  env?: Record<string, string>;
+  shellPath?: string;
+  shellArgs?: string[];
+  icon?: string;
+  color?: string;
+  startupCommand: string;
+  split: boolean;
+}
+
+interface FleetProfilePickItem extends vscode.QuickPickItem {
+  profile?: FleetProfile;
+}
+
+export function readFleetProfiles(): FleetProfile[] {
+  const raw = vscode.workspace
+    .getConfiguration("cursorTerminalNexus")
+    .get<unknown[]>("fleetProfiles", []);
+  const profiles: FleetProfile[] = [];
+  for (const entry of Array.isArray(raw) ? raw : []) {
+    const profile = sanitizeFleetProfile(entry);
+    if (profile) {
+      profiles.push(profile);
+    }
+  }
+  return profiles;
+}
+
+export function findFleetProfile(name: string): FleetProfile | undefined {
+  return readFleetProfiles().find((profile) => profile.name === name);
+}
+
+/** Picks a configured profile, or asks for count, names and startup command. */
+export async function promptForFleet(): Promise<FleetProfile | undefined> {
+  const profiles = readFleetProfiles();
+  let picked: FleetProfilePickItem | undefined;
+  if (profiles.length > 0) {
+    picked = await vscode.window.showQuickPick<FleetProfilePickItem>(
+      [
+        ...profiles.map((profile) => ({
+          label: `$(${profile.icon || "terminal"}) ${profile.name}`,
+          description: vscode.l10n.t("{0} terminal(s)", String(profile.count)),
+          detail: profile.startupCommand || undefined,
+          profile
+        })),
+        { label: vscode.l10n.t("Custom Fleet...") }
+      ],
+      { title: vscode.l10n.t("Spawn Terminal Fleet") }
+    );
+    if (!picked) {
+      return undefined;
+    }
+    if (picked.profile) {
+      return picked.profile;
+    }
+  }
+
+  const countText = await vscode.window.showInputBox({
+    title: vscode.l10n.t("Spawn Terminal Fleet"),
+    prompt: vscode.l10n.t("Number of terminals"),
+    value: "4",
+    validateInput: (value) => {
+      const count = Number(value);
+      return Number.isInteger(count) && count >= 1 && count <= MAX_FLEET_SIZE
+        ? undefined
+        : vscode.l10n.t("Enter a whole number from 1 to {0}.", String(MAX_FLEET_SIZE));
+    }
+  });
+  if (!countText) {
+    return undefined;
+  }
+
+  const nameTemplate = await vscode.window.showInputBox({
+    title: vscode.l10n.t("Spawn Terminal Fleet"),
+    prompt: vscode.l10n.t("Terminal name template; {index} counts from 1"),
+    value: DEFAULT_NAME_TEMPLATE,
+    validateInput: validateTemplate
+  });
+  if (!nameTemplate) {
+    return undefined;
+  }
+
+  const startupCommand = await vscode.window.showInputBox({
+    title: vscode.l10n.t("Spawn Terminal Fleet"),
+    prompt: vscode.l10n.t("Startup command sent to every new terminal (optional)"),
+    placeHolder: "npm run worker -- --shard {index} --of {count}",
+    validateInput: validateTemplate
+  });
+  if (startupCommand === undefined) {
+    return undefined;
+  }
+
+  return {
+    name: CUSTOM_FLEET_NAME,
+    count: Number(countText),
+    nameTemplate,
+    startupCommand: startupCommand.trim(),
+    split: false
+  };
+}
+
+/**
+ * Creates the profile's terminals, as splits of the first one when `split` is
+ * set, and resolves once each shell has started or a few seconds have passed.
+ */
+export async function spawnFleet(profile: FleetProfile): Promise<vscode.Terminal[]> {
+  const nameTemplate = compileTemplate(profile.nameTemplate || DEFAULT_NAME_TEMPLATE);
+  const envTemplates = Object.entries(profile.env ?? {}).map(
+    ([key, value]) => [key, compileTemplate(value)] as const
+  );
+  const cwd = resolveWorkspaceCwd(profile.cwd);
+  const shellType = detectShellTypeForPath(profile.shellPath);
+  const terminals: vscode.Terminal[] = [];
+
+  for (let index = 1; index <= profile.count; index += 1) {
+    const context: PlaceholderContext = {
+      name: profile.name,
+      index,
+      count: profile.count,
+      group: inferGroupId(profile.name),
+      cwd,
+      shellType,
+      now: new Date(),
+      env: process.env
+    };
+    const name = renderTemplate(nameTemplate, context);
+    // Env values see the group the new terminal will be sorted into.
+    const envContext = { ...context, group: inferGroupId(name) };
+    const options: vscode.TerminalOptions = {
+      name,
+      cwd,
+      env:
+        envTemplates.length > 0
+          ? Object.fromEntries(
+              envTemplates.map(([key, template]) => [key, renderTemplate(template, envContext)])
+            )
+          : undefined,
+      shellPath: profile.shellPath,
+      shellArgs: profile.shellArgs,
+      iconPath: profile.icon ? new vscode.ThemeIcon(profile.icon) : undefined,
+      color: profile.color ? new vscode.ThemeColor(profile.color) : undefined,
+      location:
+        profile.split && terminals.length > 0 ? { parentTerminal: terminals[0] } : undefined
+    };
+    terminals.push(vscode.window.createTerminal(options));
+  }
+  terminals[0]?.show(true);
+
+  await Promise.all(terminals.map((terminal) => waitForShellStart(terminal)));
+  return terminals;
+}
+
+/** Resolves once shell integration activates, the terminal closes or a few seconds pass. */
+export function waitForShellStart(terminal: vscode.Terminal): Promise<void> {
+  if (terminal.shellIntegration) {
+    return Promise.resolve();
+  }
+  return new Promise<void>((resolve) => {
+    const finish = () => {
+      clearTimeout(timer);
+      integrationListener.dispose();
+      closeListener.dispose();
+      resolve();
+    };
+    const timer = setTimeout(finish, SHELL_START_TIMEOUT_MS);
+    const integrationListener = vscode.window.onDidChangeTerminalShellIntegration((event) => {
+      if (event.terminal === terminal) {
+        finish();
+      }
+    });
+    const closeListener = vscode.window.onDidCloseTerminal((closed) => {
+      if (closed === terminal) {
+        finish();
+      }
+    });
+  });
+}
+
+/** Resolves `~`, `${workspaceFolder}` and paths relative to the first workspace folder. */
+export function resolveWorkspaceCwd(cwd: string | undefined): string | undefined {
+  const folder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  if (!cwd?.trim()) {
+    return folder;
+  }
+  const value = cwd.trim().replace(/\$\{workspaceFolder\}/g, folder ?? "");
+  if (value === "~" || value.startsWith("~/")) {
+    return path.join(process.env.HOME ?? process.env.USERPROFILE ?? "", value.slice(1));
+  }
+  return path.isAbsolute(value) || !folder ? value : path.join(folder, value);
+}
+
+function validateTemplate(value: string): string | undefined {
+  try {
+    compileTemplate(value);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+function sanitizeFleetProfile(raw: unknown): FleetProfile | undefined {
+  if (!raw || typeof raw !== "object") {
+    return undefined;
+  }
+  const value = raw as Record<string, unknown>;
+  const name = typeof value.name === "string" ? value.name.trim() : "";
+  if (!name) {
+    return undefined;
+  }
+  const count = Number(value.count ?? 1);
+  const env: Record<string, string> = {};
+  if (value.env && typeof value.env === "object") {
+    for (const [key, item] of Object.entries(value.env as Record<string, unknown>)) {
+      if (typeof item === "string") {
+        env[key] = item;
+      }
+    }
+  }
+  return {
+    name,
+    count: Number.isFinite(count) ? Math.min(MAX_FLEET_SIZE, Math.max(1, Math.floor(count))) : 1,
+    nameTemplate: readString(value.nameTemplate) ?? DEFAULT_NAME_TEMPLATE,
+    cwd: readString(value.cwd),
+    env: Object.keys(env).length > 0 ? env : undefined,
+    shellPath: readString(value.shellPath),
+    shellArgs: Array.isArray(value.shellArgs)
+      ? value.shellArgs.filter((item): item is string => typeof item === "string")
+      : undefined,
+    icon: readString(value.icon),
+    color: readString(value.color),
+    startupCommand: readString(value.startupCommand) ?? "",
+    split: value.split === true
+  };
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
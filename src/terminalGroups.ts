@@ -0,0 +1,42 @@
+export type TerminalGroupId =
+  | "basic"
+  | "security"
+  | "network"
+  | "devops"
+  | "data"
+  | "other";
+
+export const TERMINAL_GROUP_ORDER: TerminalGroupId[] = [
+  "basic",
+  "security",
+  "network",
+  "devops",
+  "data",
+  "other"
+];
+
+export function inferGroupId(name: string): TerminalGroupId {
+  const raw = String(name || "").toLowerCase();
+
+  if (/(security|sec|crypto|crypt|hash|jwt|scan|audit|pentest|vuln|ssh|gpg|openssl|nmap|sqlmap|burp|metasploit)/.test(raw)) {
+    return "security";
+  }
+
+  if (/(network|net|http|https|dns|proxy|socket|tcp|udp|ping|curl|wget|wireshark)/.test(raw)) {
+    return "network";
+  }
+
+  if (/(devops|docker|k8s|kubernetes|helm|terraform|ansible|jenkins|ci|cd|deploy|aws|gcp|azure)/.test(raw)) {
+    return "devops";
+  }
+
+  if (/(data|db|mysql|postgres|redis|mongodb|sqlite|elasticsearch|kafka)/.test(raw)) {
+    return "data";
+  }
+
+  if (/(bash|zsh|sh|pwsh|powershell|cmd|terminal|shell)/.test(raw)) {
+    return "basic";
+  }
+
+  return "other";
+}
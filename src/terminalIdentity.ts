@@ -0,0 +1,155 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+
+/** Terminals opened this soon after activation count as revived by the window. */
+const REVIVAL_WINDOW_MS = 5000;
+
+interface IdentityRecord {
+  id: string;
+  name: string;
+  pid?: number;
+}
+
+/**
+ * Durable terminal IDs for everything the panel stores per terminal:
+ * selection, custom order, shell overrides, canary marks and tags. An ID
+ * follows its terminal object, so renames keep it. Records of open
+ * terminals are kept in workspace state; after a window reload, revived
+ * persistent sessions claim their old ID by PID first, then by name. Only
+ * terminals open at activation or revived right after it may claim; records
+ * left unclaimed then are dropped, so a new terminal that happens to share an
+ * old name does not inherit its tags and target sets.
+ */
+export class TerminalIdentityRegistry implements vscode.Disposable {
+  private static readonly recordsStateKey = "cursorTerminalNexus.terminalIdentities";
+
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly records = new Map<vscode.Terminal, IdentityRecord>();
+  private unclaimed: IdentityRecord[];
+  private readonly revived = new Set<vscode.Terminal>(vscode.window.terminals);
+  private reviving = true;
+
+  constructor(private readonly memento: vscode.Memento) {
+    this.unclaimed = readRecords(memento.get(TerminalIdentityRegistry.recordsStateKey));
+    const revivalTimer = setTimeout(() => void this.endRevival(), REVIVAL_WINDOW_MS);
+    this.disposables.push(
+      { dispose: () => clearTimeout(revivalTimer) },
+      vscode.window.onDidOpenTerminal((terminal) => {
+        if (this.reviving) {
+          this.revived.add(terminal);
+        }
+      }),
+      // Not persisted here: closes during window shutdown would erase the
+      // records that revived sessions need. The next assignment prunes them.
+      vscode.window.onDidCloseTerminal((terminal) => {
+        this.records.delete(terminal);
+      })
+    );
+  }
+
+  public dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+  }
+
+  /** The terminal's ID, assigned on first sight; a late PID updates its record. */
+  public getId(terminal: vscode.Terminal, pid?: number): string {
+    const existing = this.records.get(terminal);
+    if (existing) {
+      if (existing.name !== terminal.name || (pid !== undefined && existing.pid !== pid)) {
+        existing.name = terminal.name;
+        existing.pid = pid ?? existing.pid;
+        this.persist();
+      }
+      return existing.id;
+    }
+
+    const claimed = this.claim(terminal, pid);
+    const record: IdentityRecord = {
+      id: claimed?.id ?? createId(),
+      name: terminal.name,
+      pid
+    };
+    this.records.set(terminal, record);
+    this.persist();
+    return record.id;
+  }
+
+  public findTerminal(id: string): vscode.Terminal | undefined {
+    for (const [terminal, record] of this.records) {
+      if (record.id === id) {
+        return terminal;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether the ID belongs to an open terminal or to one from the previous
+   * session that may still be revived. Stored per-terminal state for other
+   * IDs can be dropped.
+   */
+  public isKnown(id: string): boolean {
+    return (
+      this.unclaimed.some((record) => record.id === id) ||
+      [...this.records.values()].some((record) => record.id === id)
+    );
+  }
+
+  /** Lets every revived terminal claim its record, then forgets the rest. */
+  private async endRevival(): Promise<void> {
+    this.reviving = false;
+    for (const terminal of this.revived) {
+      if (!this.records.has(terminal) && vscode.window.terminals.includes(terminal)) {
+        this.getId(terminal, await terminal.processId);
+      }
+    }
+    this.revived.clear();
+    this.unclaimed = [];
+    this.persist();
+  }
+
+  private claim(terminal: vscode.Terminal, pid: number | undefined): IdentityRecord | undefined {
+    if (!this.revived.has(terminal)) {
+      return undefined;
+    }
+    let index = pid !== undefined ? this.unclaimed.findIndex((record) => record.pid === pid) : -1;
+    if (index < 0) {
+      index = this.unclaimed.findIndex((record) => record.name === terminal.name);
+    }
+    return index >= 0 ? this.unclaimed.splice(index, 1)[0] : undefined;
+  }
+
+  private persist(): void {
+    void this.memento.update(TerminalIdentityRegistry.recordsStateKey, [
+      ...this.records.values()
+    ]);
+  }
+}
+
+function createId(): string {
+  return `t-${crypto.randomBytes(6).toString("hex")}`;
+}
+
+function readRecords(raw: unknown): IdentityRecord[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  const records: IdentityRecord[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== "object") {
+      continue;
+    }
+    const value = item as Record<string, unknown>;
+    if (typeof value.id !== "string" || typeof value.name !== "string") {
+      continue;
+    }
+    records.push({
+      id: value.id,
+      name: value.name,
+      pid: typeof value.pid === "number" ? value.pid : undefined
+    });
+  }
+  return records;
+}
@@ -0,0 +1,336 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { Broadcaster, BroadcastOptions } from "./broadcaster";
+import { resolveWorkspaceCwd, waitForShellStart } from "./terminalFleet";
+import { TerminalDescriptor } from "./terminalManager";
+
+const LAYOUT_FILE = "nexus-layout.json";
+
+/** One terminal of a layout; terminals sharing a `group` open as splits of its first one. */
+export interface LayoutTerminal {
+  name: string;
+  cwd?: string;
+  env?: Record<string, string>;
+  shellPath?: string;
+  shellArgs?: string[];
+  startupCommands?: string[];
+  group?: string;
+}
+
+export interface TerminalLayout {
+  name: string;
+  terminals: LayoutTerminal[];
+}
+
+interface LayoutFile {
+  layouts: TerminalLayout[];
+}
+
+export interface LayoutRestoreResult {
+  /** Every terminal of the layout in file order, whether created or reused. */
+  terminals: vscode.Terminal[];
+  created: Map<vscode.Terminal, LayoutTerminal>;
+}
+
+export function getLayoutFileUri(): vscode.Uri | undefined {
+  const folder = vscode.workspace.workspaceFolders?.[0];
+  return folder ? vscode.Uri.joinPath(folder.uri, ".vscode", LAYOUT_FILE) : undefined;
+}
+
+/** Layouts from `.vscode/nexus-layout.json` in the first workspace folder. */
+export async function readLayouts(): Promise<TerminalLayout[]> {
+  const uri = getLayoutFileUri();
+  if (!uri) {
+    return [];
+  }
+  let content: Uint8Array;
+  try {
+    content = await vscode.workspace.fs.readFile(uri);
+  } catch {
+    return [];
+  }
+  const source = vscode.workspace.asRelativePath(uri, true);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(content).toString("utf8"));
+  } catch (error) {
+    throw new Error(`${source}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const layouts = (parsed as Partial<LayoutFile> | null)?.layouts;
+  if (!Array.isArray(layouts)) {
+    throw new Error(`${source}: expected a "layouts" array.`);
+  }
+  return layouts
+    .map(sanitizeLayout)
+    .filter((layout): layout is TerminalLayout => layout !== undefined);
+}
+
+/** Picks a layout by name, or with a QuickPick when there is more than one. */
+export async function pickLayout(name?: string): Promise<TerminalLayout | undefined> {
+  const layouts = await readLayouts();
+  if (name !== undefined) {
+    const layout = layouts.find((item) => item.name === name);
+    if (!layout) {
+      throw new Error(`Layout "${name}" not found.`);
+    }
+    return layout;
+  }
+  if (layouts.length === 0) {
+    void vscode.window.showInformationMessage(
+      vscode.l10n.t("No layout saved yet. Run Save Terminal Layout first.")
+    );
+    return undefined;
+  }
+  if (layouts.length === 1) {
+    return layouts[0];
+  }
+  const picked = await vscode.window.showQuickPick(
+    layouts.map((layout) => ({
+      label: layout.name,
+      description: vscode.l10n.t("{0} terminal(s)", String(layout.terminals.length)),
+      detail: layout.terminals.map((terminal) => terminal.name).join(", "),
+      layout
+    })),
+    { title: vscode.l10n.t("Restore Terminal Layout") }
+  );
+  return picked?.layout;
+}
+
+/**
+ * Creates the layout's terminals. Each entry first claims an open terminal of
+ * the same name, so restoring twice does not duplicate anything.
+ */
+export async function restoreLayout(layout: TerminalLayout): Promise<LayoutRestoreResult> {
+  const unclaimed = [...vscode.window.terminals];
+  const terminals: vscode.Terminal[] = [];
+  const created = new Map<vscode.Terminal, LayoutTerminal>();
+  const groupParents = new Map<string, vscode.Terminal>();
+
+  for (const entry of layout.terminals) {
+    const existingIndex = unclaimed.findIndex((terminal) => terminal.name === entry.name);
+    if (existingIndex >= 0) {
+      const [existing] = unclaimed.splice(existingIndex, 1);
+      terminals.push(existing);
+      if (entry.group && !groupParents.has(entry.group)) {
+        groupParents.set(entry.group, existing);
+      }
+      continue;
+    }
+
+    const parentTerminal = entry.group ? groupParents.get(entry.group) : undefined;
+    const terminal = vscode.window.createTerminal({
+      name: entry.name,
+      cwd: resolveWorkspaceCwd(entry.cwd),
+      env: entry.env,
+      shellPath: entry.shellPath,
+      shellArgs: entry.shellArgs,
+      location: parentTerminal ? { parentTerminal } : undefined
+    });
+    if (entry.group && !parentTerminal) {
+      groupParents.set(entry.group, terminal);
+    }
+    terminals.push(terminal);
+    created.set(terminal, entry);
+  }
+
+  await Promise.all([...created.keys()].map((terminal) => waitForShellStart(terminal)));
+  return { terminals, created };
+}
+
+/**
+ * Sends each created terminal its startup commands in order. Step N goes out
+ * as one broadcast to every terminal that has an Nth command.
+ */
+export async function sendStartupCommands(
+  broadcaster: Broadcaster,
+  created: Map<vscode.Terminal, LayoutTerminal>,
+  options: BroadcastOptions
+): Promise<void> {
+  const steps = Math.max(
+    0,
+    ...[...created.values()].map((entry) => entry.startupCommands?.length ?? 0)
+  );
+  for (let step = 0; step < steps; step += 1) {
+    const commands = new Map<vscode.Terminal, string>();
+    for (const [terminal, entry] of created) {
+      const command = entry.startupCommands?.[step];
+      if (command) {
+        commands.set(terminal, command);
+      }
+    }
+    const targets = [...commands.keys()];
+    if (targets.length > 0) {
+      await broadcaster.broadcastNonInteractive(
+        targets,
+        commands.get(targets[0]) ?? "",
+        options,
+        { source: "command", commands }
+      );
+    }
+  }
+}
+
+/**
+ * Stores the given terminals as a layout, replacing one with the same name.
+ * Startup commands, groups and env of replaced entries are kept by terminal
+ * name, since they cannot be read back from a running terminal. Env values
+ * are only captured for the keys listed in `layoutEnvKeys`, so secrets in a
+ * terminal's environment do not end up in the committed file.
+ */
+export async function saveLayout(
+  name: string,
+  descriptors: TerminalDescriptor[]
+): Promise<vscode.Uri> {
+  const uri = getLayoutFileUri();
+  if (!uri) {
+    throw new Error("Open a workspace folder to save terminal layouts.");
+  }
+  const envKeys = vscode.workspace
+    .getConfiguration("cursorTerminalNexus")
+    .get<unknown[]>("layoutEnvKeys", [])
+    .filter((key): key is string => typeof key === "string");
+  const layouts = await readLayouts();
+  const previous = layouts.find((layout) => layout.name === name);
+  const remaining = [...(previous?.terminals ?? [])];
+  const terminals = descriptors.map((descriptor) => {
+    const index = remaining.findIndex((entry) => entry.name === descriptor.name);
+    const [kept] = index >= 0 ? remaining.splice(index, 1) : [];
+    return snapshotTerminal(descriptor.terminal, envKeys, kept);
+  });
+
+  const next: TerminalLayout = { name, terminals };
+  const file: LayoutFile = {
+    layouts: previous
+      ? layouts.map((layout) => (layout === previous ? next : layout))
+      : [...layouts, next]
+  };
+  await vscode.workspace.fs.writeFile(
+    uri,
+    Buffer.from(`${JSON.stringify(file, null, 2)}\n`, "utf8")
+  );
+  return uri;
+}
+
+/** The layout entry for a running terminal, merged with its entry from the previous save. */
+export function snapshotTerminal(
+  terminal: vscode.Terminal,
+  envKeys: string[],
+  kept?: LayoutTerminal
+): LayoutTerminal {
+  const options = terminal.creationOptions;
+  const launch = "pty" in options ? undefined : (options as vscode.TerminalOptions);
+  const cwd = terminal.shellIntegration?.cwd ?? launch?.cwd;
+  // Keys already in the file were committed on purpose and stay.
+  const savedKeys = [...envKeys, ...Object.keys(kept?.env ?? {})];
+  const env = Object.entries({ ...kept?.env, ...launch?.env }).filter(
+    (entry): entry is [string, string] =>
+      typeof entry[1] === "string" && savedKeys.includes(entry[0])
+  );
+  const shellArgs = typeof launch?.shellArgs === "string" ? [launch.shellArgs] : launch?.shellArgs;
+
+  const entry: LayoutTerminal = { name: terminal.name };
+  const relativeCwd = cwd ? toWorkspaceRelative(cwd) : undefined;
+  if (relativeCwd) {
+    entry.cwd = relativeCwd;
+  }
+  if (env.length > 0) {
+    entry.env = Object.fromEntries(env);
+  }
+  if (launch?.shellPath) {
+    entry.shellPath = launch.shellPath;
+  }
+  if (shellArgs && shellArgs.length > 0) {
+    entry.shellArgs = [...shellArgs];
+  }
+  if (kept?.startupCommands?.length) {
+    entry.startupCommands = kept.startupCommands;
+  }
+  if (kept?.group) {
+    entry.group = kept.group;
+  }
+  return entry;
+}
+
+/** Paths inside the first workspace folder are stored relative, so the file works for everyone. */
+function toWorkspaceRelative(cwd: string | vscode.Uri): string | undefined {
+  const fsPath = typeof cwd === "string" ? cwd : cwd.fsPath;
+  const folder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  if (!folder) {
+    return fsPath;
+  }
+  const relative = path.relative(folder, fsPath);
+  if (!relative) {
+    return undefined;
+  }
+  return relative.startsWith("..") || path.isAbsolute(relative)
+    ? fsPath
+    : relative.split(path.sep).join("/");
+}
+
+function sanitizeLayout(raw: unknown): TerminalLayout | undefined {
+  if (!raw || typeof raw !== "object") {
+    return undefined;
+  }
+  const value = raw as Record<string, unknown>;
+  const name = readString(value.name);
+  if (!name || !Array.isArray(value.terminals)) {
+    return undefined;
+  }
+  return {
+    name,
+    terminals: value.terminals
+      .map(sanitizeLayoutTerminal)
+      .filter((entry): entry is LayoutTerminal => entry !== undefined)
+  };
+}
+
+function sanitizeLayoutTerminal(raw: unknown): LayoutTerminal | undefined {
+  if (!raw || typeof raw !== "object") {
+    return undefined;
+  }
+  const value = raw as Record<string, unknown>;
+  const name = readString(value.name);
+  if (!name) {
+    return undefined;
+  }
+  const entry: LayoutTerminal = { name };
+  const cwd = readString(value.cwd);
+  if (cwd) {
+    entry.cwd = cwd;
+  }
+  if (value.env && typeof value.env === "object") {
+    const env = Object.entries(value.env as Record<string, unknown>).filter(
+      (item): item is [string, string] => typeof item[1] === "string"
+    );
+    if (env.length > 0) {
+      entry.env = Object.fromEntries(env);
+    }
+  }
+  const shellPath = readString(value.shellPath);
+  if (shellPath) {
+    entry.shellPath = shellPath;
+  }
+  const shellArgs = readStrings(value.shellArgs);
+  if (shellArgs.length > 0) {
+    entry.shellArgs = shellArgs;
+  }
+  const startupCommands = readStrings(value.startupCommands).filter((command) => command.trim());
+  if (startupCommands.length > 0) {
+    entry.startupCommands = startupCommands;
+  }
+  const group = readString(value.group);
+  if (group) {
+    entry.group = group;
+  }
+  return entry;
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function readStrings(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+}
@@ -1,13 +1,23 @@
 import * as vscode from "vscode";
+import { compileTargetQuery, TargetMatcher } from "./targetQuery";
+import { TerminalIdentityRegistry } from "./terminalIdentity";
+import { TerminalTagStore } from "./terminalTags";
 
 export interface TerminalDescriptor {
   terminal: vscode.Terminal;
+  /** Durable ID that survives renames and window reloads. */
+  id: string;
   name: string;
   processId?: number;
+  tags: string[];
+  note: string;
 }
 
+/** A terminal, or a tag whose check state selects all terminals carrying it. */
 interface TerminalQuickPickItem extends vscode.QuickPickItem {
-  terminal: vscode.Terminal;
+  terminal?: vscode.Terminal;
+  tag?: string;
+  tagged?: vscode.Terminal[];
 }
 
 const PID_TIMEOUT_MS = 150;
@@ -22,10 +32,21 @@ const CLEAR_ALL_BUTTON: vscode.QuickInputButton = {
 
 export class TerminalManager implements vscode.Disposable {
   private readonly pidCache = new WeakMap<vscode.Terminal, number | undefined>();
+  private readonly pendingPids = new WeakSet<vscode.Terminal>();
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
   private readonly disposables: vscode.Disposable[] = [];
 
-  constructor() {
+  /** Fires when a late PID, tags or a note change what `listTerminals` reports. */
+  public readonly onDidChangeDescriptors = this.changeEmitter.event;
+
+  constructor(
+    private readonly identities: TerminalIdentityRegistry,
+    private readonly tags: TerminalTagStore
+  ) {
     this.disposables.push(
+      this.tags.onDidChange(() => {
+        this.changeEmitter.fire();
+      }),
       vscode.window.onDidOpenTerminal((terminal) => {
         void this.primePid(terminal);
       })
@@ -41,23 +62,45 @@ export class TerminalManager implements vscode.Disposable {
     for (const disposable of this.disposables) {
       disposable.dispose();
     }
+    this.changeEmitter.dispose();
   }
 
   public async listTerminals(): Promise<TerminalDescriptor[]> {
     const terminals = vscode.window.terminals;
     const descriptors = await Promise.all(
-      terminals.map(async (terminal) => ({
-        terminal,
-        name: terminal.name,
-        processId: await this.getPid(terminal)
-      }))
+      terminals.map(async (terminal) => {
+        const processId = await this.getPid(terminal);
+        const id = this.identities.getId(terminal, processId);
+        return {
+          terminal,
+          id,
+          name: terminal.name,
+          processId,
+          ...this.tags.get(id)
+        };
+      })
     );
     return descriptors;
   }
 
+  public getId(terminal: vscode.Terminal): string {
+    return this.identities.getId(terminal, this.pidCache.get(terminal));
+  }
+
+  public findTerminalById(id: string): vscode.Terminal | undefined {
+    return this.identities.findTerminal(id);
+  }
+
+  /** Whether stored state for this ID may still apply to an open or revivable terminal. */
+  public isKnownId(id: string): boolean {
+    return this.identities.isKnown(id);
+  }
+
+  /** Multi-select QuickPick; with a matcher, typing `?query` checks the matching terminals. */
   public async pickTerminals(
     terminals: TerminalDescriptor[],
-    autoSelectRegex: string
+    autoSelectRegex: string,
+    matcher?: TargetMatcher
   ): Promise<vscode.Terminal[]> {
     if (terminals.length === 0) {
       vscode.window.showErrorMessage(
@@ -73,16 +116,40 @@ export class TerminalManager implements vscode.Disposable {
     const preselected = this.findPreselected(terminals, autoSelectRegex);
     const items: TerminalQuickPickItem[] = terminals.map((descriptor, index) => ({
       label: `$(terminal) ${descriptor.name}`,
-      description:
+      description: [
         descriptor.processId !== undefined
           ? vscode.l10n.t("PID: {0}", String(descriptor.processId))
           : vscode.l10n.t("PID: Unknown"),
-      detail: vscode.l10n.t("Terminal {0}", String(index + 1)),
+        ...descriptor.tags.map((tag) => `#${tag}`)
+      ].join("  "),
+      detail: descriptor.note
+        ? `${vscode.l10n.t("Terminal {0}", String(index + 1))} · ${descriptor.note}`
+        : vscode.l10n.t("Terminal {0}", String(index + 1)),
       picked: preselected.has(descriptor.terminal),
       terminal: descriptor.terminal
     }));
 
-    return this.pickWithControls(items);
+    const matchQuery = matcher
+      ? (query: string) =>
+          new Set(
+            matcher
+              .filter(compileTargetQuery(query), terminals)
+              .map((descriptor) => descriptor.terminal)
+          )
+      : undefined;
+    const tagItems = collectTagItems(terminals);
+    if (tagItems.length === 0) {
+      return this.pickWithControls(items, matchQuery);
+    }
+    return this.pickWithControls(
+      [
+        { label: vscode.l10n.t("Tags"), kind: vscode.QuickPickItemKind.Separator },
+        ...tagItems,
+        { label: vscode.l10n.t("Terminals"), kind: vscode.QuickPickItemKind.Separator },
+        ...items
+      ],
+      matchQuery
+    );
   }
 
   private findPreselected(
@@ -114,7 +181,7 @@ export class TerminalManager implements vscode.Disposable {
     await this.getPid(terminal);
   }
 
-  private async getPid(terminal: vscode.Terminal): Promise<number | undefined> {
+  public async getPid(terminal: vscode.Terminal): Promise<number | undefined> {
     if (this.pidCache.has(terminal)) {
       return this.pidCache.get(terminal);
     }
@@ -123,14 +190,39 @@ export class TerminalManager implements vscode.Disposable {
     try {
       pid = await promiseWithTimeout(terminal.processId, PID_TIMEOUT_MS);
     } catch {
-      pid = undefined;
+      this.awaitLatePid(terminal);
+      return undefined;
     }
 
     this.pidCache.set(terminal, pid);
     return pid;
   }
 
-  private async pickWithControls(items: TerminalQuickPickItem[]): Promise<vscode.Terminal[]> {
+  private awaitLatePid(terminal: vscode.Terminal): void {
+    if (this.pendingPids.has(terminal)) {
+      return;
+    }
+    this.pendingPids.add(terminal);
+    void Promise.resolve(terminal.processId).then(
+      (pid) => {
+        this.pendingPids.delete(terminal);
+        this.pidCache.set(terminal, pid);
+        if (pid !== undefined && vscode.window.terminals.includes(terminal)) {
+          this.identities.getId(terminal, pid);
+          this.changeEmitter.fire();
+        }
+      },
+      () => {
+        this.pendingPids.delete(terminal);
+        this.pidCache.set(terminal, undefined);
+      }
+    );
+  }
+
+  private async pickWithControls(
+    items: TerminalQuickPickItem[],
+    matchQuery?: (query: string) => Set<vscode.Terminal>
+  ): Promise<vscode.Terminal[]> {
     return new Promise<vscode.Terminal[]>((resolve) => {
       const quickPick = vscode.window.createQuickPick<TerminalQuickPickItem>();
       quickPick.canSelectMany = true;
@@ -138,13 +230,78 @@ export class TerminalManager implements vscode.Disposable {
       quickPick.matchOnDescription = true;
       quickPick.matchOnDetail = true;
       quickPick.title = vscode.l10n.t("TQ Terminal Nexus");
-      quickPick.placeholder = vscode.l10n.t(
-        "Select target terminals (multi-select supported)"
-      );
+      quickPick.placeholder = matchQuery
+        ? vscode.l10n.t("Select target terminals, or type ?query such as ?tag:api and state:ready")
+        : vscode.l10n.t("Select target terminals (multi-select supported)");
       quickPick.items = items;
-      quickPick.selectedItems = items.filter((item) => item.picked);
       quickPick.buttons = [SELECT_ALL_BUTTON, CLEAR_ALL_BUTTON];
 
+      let previous = new Set<TerminalQuickPickItem>();
+      const applySelection = (terminals: Set<vscode.Terminal>) => {
+        const next = items.filter((item) =>
+          item.terminal
+            ? terminals.has(item.terminal)
+            : item.tagged !== undefined && item.tagged.every((terminal) => terminals.has(terminal))
+        );
+        previous = new Set(next);
+        quickPick.selectedItems = next;
+      };
+      applySelection(
+        new Set(items.filter((item) => item.picked && item.terminal).map((item) => item.terminal!))
+      );
+
+      // Checking a tag selects its terminals; the tag stays checked while all of them are.
+      quickPick.onDidChangeSelection((selection) => {
+        const current = new Set(selection);
+        const terminals = new Set(
+          selection.flatMap((item) => (item.terminal ? [item.terminal] : []))
+        );
+        for (const item of items) {
+          if (!item.tagged || current.has(item) === previous.has(item)) {
+            continue;
+          }
+          for (const terminal of item.tagged) {
+            if (current.has(item)) {
+              terminals.add(terminal);
+            } else {
+              terminals.delete(terminal);
+            }
+          }
+        }
+        applySelection(terminals);
+      });
+
+      // A `?` value is a target query: every terminal stays visible and the matches get checked.
+      let querying = false;
+      quickPick.onDidChangeValue((value) => {
+        if (!matchQuery) {
+          return;
+        }
+        const query = value.startsWith("?") ? value.slice(1).trim() : undefined;
+        if ((query !== undefined) !== querying) {
+          querying = query !== undefined;
+          for (const item of items) {
+            item.alwaysShow = querying;
+          }
+          const terminals = new Set(
+            quickPick.selectedItems.flatMap((item) => (item.terminal ? [item.terminal] : []))
+          );
+          quickPick.items = [...items];
+          applySelection(terminals);
+        }
+        if (!query) {
+          quickPick.title = vscode.l10n.t("TQ Terminal Nexus");
+          return;
+        }
+        try {
+          const matches = matchQuery(query);
+          applySelection(matches);
+          quickPick.title = vscode.l10n.t("Query matches {0} terminal(s)", String(matches.size));
+        } catch (error) {
+          quickPick.title = error instanceof Error ? error.message : String(error);
+        }
+      });
+
       let completed = false;
       const finish = (selected: vscode.Terminal[]) => {
         if (completed) {
@@ -157,16 +314,20 @@ export class TerminalManager implements vscode.Disposable {
 
       quickPick.onDidTriggerButton((button) => {
         if (button === SELECT_ALL_BUTTON) {
-          quickPick.selectedItems = items;
+          applySelection(
+            new Set(items.flatMap((item) => (item.terminal ? [item.terminal] : [])))
+          );
           return;
         }
         if (button === CLEAR_ALL_BUTTON) {
-          quickPick.selectedItems = [];
+          applySelection(new Set());
         }
       });
 
       quickPick.onDidAccept(() => {
-        const selected = quickPick.selectedItems.map((item) => item.terminal);
+        const selected = quickPick.selectedItems.flatMap((item) =>
+          item.terminal ? [item.terminal] : []
+        );
         finish(selected);
       });
 
@@ -179,6 +340,23 @@ export class TerminalManager implements vscode.Disposable {
   }
 }
 
+function collectTagItems(terminals: TerminalDescriptor[]): TerminalQuickPickItem[] {
+  const byTag = new Map<string, vscode.Terminal[]>();
+  for (const descriptor of terminals) {
+    for (const tag of descriptor.tags) {
+      byTag.set(tag, [...(byTag.get(tag) ?? []), descriptor.terminal]);
+    }
+  }
+  return [...byTag.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([tag, tagged]) => ({
+      label: `$(tag) ${tag}`,
+      description: vscode.l10n.t("{0} terminal(s)", String(tagged.length)),
+      tag,
+      tagged
+    }));
+}
+
 async function promiseWithTimeout<T>(
   promise: Thenable<T>,
   timeoutMs: number
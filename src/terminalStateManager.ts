@@ -31,7 +31,9 @@ interface TerminalTracker {
   pendingThinkingSignal: boolean;
   executionVersion: number;
   isInteractiveCli: boolean;
+  interactiveCliName?: string;
   lastOutputAt: number;
+  lastExitCode?: number;
   evaluateTimer?: NodeJS.Timeout;
   quietTimer?: NodeJS.Timeout;
 }
@@ -53,7 +55,7 @@ export class TerminalStateManager implements vscode.Disposable {
         this.handleExecutionStart(event.terminal, event.execution);
       }),
       vscode.window.onDidEndTerminalShellExecution((event) => {
-        this.handleExecutionEnd(event.terminal);
+        this.handleExecutionEnd(event.terminal, event.exitCode);
       }),
       vscode.window.onDidOpenTerminal((terminal) => {
         this.getOrCreateTracker(terminal);
@@ -95,6 +97,14 @@ export class TerminalStateManager implements vscode.Disposable {
     return tracker?.isInteractiveCli ?? false;
   }
 
+  public getInteractiveCliName(terminal: vscode.Terminal): string | undefined {
+    return this.trackers.get(terminal)?.interactiveCliName;
+  }
+
+  public getLastExitCode(terminal: vscode.Terminal): number | undefined {
+    return this.trackers.get(terminal)?.lastExitCode;
+  }
+
   public notifyInputSent(terminal: vscode.Terminal): void {
     const tracker = this.getOrCreateTracker(terminal);
     if (
@@ -119,10 +129,11 @@ export class TerminalStateManager implements vscode.Disposable {
     tracker.executionVersion += 1;
     tracker.buffer = "";
     tracker.pendingThinkingSignal = false;
-    tracker.isInteractiveCli = looksLikeInteractiveCliCommand(
+    tracker.interactiveCliName = detectInteractiveCli(
       execution.commandLine.value,
       terminal.name
     );
+    tracker.isInteractiveCli = tracker.interactiveCliName !== undefined;
     tracker.lastOutputAt = Date.now();
     this.clearTimer(tracker.quietTimer);
     tracker.quietTimer = undefined;
@@ -139,12 +150,14 @@ export class TerminalStateManager implements vscode.Disposable {
     void this.consumeExecutionStream(terminal, execution, tracker.executionVersion);
   }
 
-  private handleExecutionEnd(terminal: vscode.Terminal): void {
+  private handleExecutionEnd(terminal: vscode.Terminal, exitCode: number | undefined): void {
     const tracker = this.getOrCreateTracker(terminal);
     tracker.executionVersion += 1;
+    tracker.lastExitCode = exitCode;
     tracker.buffer = "";
     tracker.pendingThinkingSignal = false;
     tracker.isInteractiveCli = false;
+    tracker.interactiveCliName = undefined;
     tracker.lastOutputAt = 0;
     this.clearTimer(tracker.evaluateTimer);
     tracker.evaluateTimer = undefined;
@@ -331,7 +344,7 @@ export function isReadyState(state: TerminalState): boolean {
   return state === TerminalState.IDLE || state === TerminalState.CLI_WAITING;
 }
 
-function sanitizeTerminalData(input: string): string {
+export function sanitizeTerminalData(input: string): string {
   if (!input) {
     return "";
   }
@@ -370,9 +383,9 @@ function indicatesThinkingSignal(text: string, hasMeaningful: boolean): boolean
   );
 }
 
-function looksLikeInteractiveCliCommand(commandLine: string, terminalName: string): boolean {
+function detectInteractiveCli(commandLine: string, terminalName: string): string | undefined {
   const raw = `${commandLine || ""} ${terminalName || ""}`.toLowerCase();
-  return /\b(codex|claude(?:\s+code)?|qwen|gemini|aider)\b/.test(raw);
+  return /\b(codex|claude|qwen|gemini|aider)\b/.exec(raw)?.[1];
 }
 
 function compilePromptRegexes(patterns: string[]): RegExp[] {
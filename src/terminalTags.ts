@@ -0,0 +1,119 @@
+import * as vscode from "vscode";
+import { TerminalIdentityRegistry } from "./terminalIdentity";
+
+const MAX_NOTE_LENGTH = 200;
+
+/** User-assigned tags and a short note for one terminal. */
+export interface TerminalAnnotation {
+  tags: string[];
+  note: string;
+}
+
+/** Per-workspace tags and notes, keyed by durable terminal ID. */
+export class TerminalTagStore implements vscode.Disposable {
+  private static readonly stateKey = "cursorTerminalNexus.terminalTags";
+
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+  public readonly onDidChange = this.changeEmitter.event;
+
+  constructor(
+    private readonly memento: vscode.Memento,
+    private readonly identities: TerminalIdentityRegistry
+  ) {}
+
+  public dispose(): void {
+    this.changeEmitter.dispose();
+  }
+
+  public get(id: string): TerminalAnnotation {
+    const entry = this.read()[id];
+    return entry ? { tags: [...entry.tags], note: entry.note } : { tags: [], note: "" };
+  }
+
+  /** Stores the annotation and drops entries of terminals that can no longer come back. */
+  public async set(id: string, annotation: TerminalAnnotation): Promise<void> {
+    const entries: Record<string, TerminalAnnotation> = {};
+    for (const [key, entry] of Object.entries(this.read())) {
+      if (key !== id && this.identities.isKnown(key)) {
+        entries[key] = entry;
+      }
+    }
+    const tags = normalizeTags(annotation.tags);
+    const note = annotation.note.trim().slice(0, MAX_NOTE_LENGTH);
+    if (tags.length > 0 || note) {
+      entries[id] = { tags, note };
+    }
+    await this.memento.update(TerminalTagStore.stateKey, entries);
+    this.changeEmitter.fire();
+  }
+
+  private read(): Record<string, TerminalAnnotation> {
+    const raw = this.memento.get<unknown>(TerminalTagStore.stateKey, {});
+    const entries: Record<string, TerminalAnnotation> = {};
+    if (!raw || typeof raw !== "object") {
+      return entries;
+    }
+    for (const [id, value] of Object.entries(raw as Record<string, unknown>)) {
+      if (!value || typeof value !== "object") {
+        continue;
+      }
+      const entry = value as Record<string, unknown>;
+      entries[id] = {
+        tags: normalizeTags(Array.isArray(entry.tags) ? entry.tags : []),
+        note: typeof entry.note === "string" ? entry.note : ""
+      };
+    }
+    return entries;
+  }
+}
+
+/** Splits on commas and whitespace; a leading `#` is optional. */
+export function parseTags(text: string): string[] {
+  return normalizeTags(text.split(/[\s,]+/));
+}
+
+function normalizeTags(values: unknown[]): string[] {
+  const tags: string[] = [];
+  const seen = new Set<string>();
+  for (const value of values) {
+    if (typeof value !== "string") {
+      continue;
+    }
+    const tag = value.trim().replace(/^#+/, "");
+    if (!tag || seen.has(tag.toLowerCase())) {
+      continue;
+    }
+    seen.add(tag.toLowerCase());
+    tags.push(tag);
+  }
+  return tags;
+}
+
+/** Asks for the tags, then the note; resolves undefined when either box is dismissed. */
+export async function promptForAnnotation(
+  terminalName: string,
+  current: TerminalAnnotation
+): Promise<TerminalAnnotation | undefined> {
+  const tagsText = await vscode.window.showInputBox({
+    title: vscode.l10n.t("Tags and Note: {0}", terminalName),
+    prompt: vscode.l10n.t("Tags separated by commas or spaces, e.g. api, review"),
+    value: current.tags.join(", ")
+  });
+  if (tagsText === undefined) {
+    return undefined;
+  }
+  const note = await vscode.window.showInputBox({
+    title: vscode.l10n.t("Tags and Note: {0}", terminalName),
+    prompt: vscode.l10n.t("Short note shown in the control panel (optional)"),
+    value: current.note,
+    validateInput: (value) =>
+      value.length > MAX_NOTE_LENGTH
+        ? vscode.l10n.t("Keep the note under {0} characters.", String(MAX_NOTE_LENGTH))
+        : undefined
+  });
+  if (note === undefined) {
+    return undefined;
+  }
+  return { tags: parseTags(tagsText), note };
+}
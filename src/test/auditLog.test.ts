@@ -0,0 +1,31 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { AuditEntry, formatAuditCsv } from "../auditLog";
+
+const entry: AuditEntry = {
+  timestamp: "2024-01-05T09:07:02.000Z",
+  source: "command",
+  command: "=HYPERLINK(\"http://evil\")",
+  inputMode: "text",
+  outcome: "sent",
+  targets: [{ name: "@build", pid: 42, command: "-rf, now" }],
+  skipped: [{ name: "+db", reason: "busy" }],
+  policy: []
+};
+
+describe("audit log export", () => {
+  it("writes one CSV row per target and skipped terminal", () => {
+    const rows = formatAuditCsv([entry]).trimEnd().split("\n");
+    assert.equal(rows.length, 3);
+    assert.equal(rows[0], "timestamp,source,outcome,template,terminal,pid,status,command,policy");
+  });
+
+  it("defuses fields that spreadsheets would read as formulas", () => {
+    const [, target, skipped] = formatAuditCsv([entry]).trimEnd().split("\n");
+    assert.equal(
+      target,
+      `2024-01-05T09:07:02.000Z,command,sent,"'=HYPERLINK(""http://evil"")",'@build,42,sent,"'-rf, now",`
+    );
+    assert.match(skipped, /,'\+db,,skipped:busy,,$/);
+  });
+});
@@ -0,0 +1,152 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  buildCommandPolicy,
+  PolicyFile,
+  readSettingsPolicy,
+  readUserSetting
+} from "../commandPolicy";
+
+const scope = { name: "api", group: "basic" };
+
+/** A configuration whose `inspect` reports the given per-scope values. */
+function configWith(values: Record<string, Record<string, unknown>>) {
+  return {
+    inspect: <T>(key: string) =>
+      ({ key, ...values[key] }) as { key: string; globalValue?: T; defaultValue?: T }
+  };
+}
+
+function evaluate(policy: PolicyFile, command: string, target = scope) {
+  return buildCommandPolicy([{ source: "settings", policy }]).evaluate(command, target);
+}
+
+describe("command policy", () => {
+  const rmRule: PolicyFile = {
+    rules: [{ id: "rm-rf", tokens: ["rm", "-rf"], severity: "confirm" }]
+  };
+
+  it("matches token rules regardless of short-flag order and grouping", () => {
+    assert.equal(evaluate(rmRule, "rm -rf ./build").severity, "confirm");
+    assert.equal(evaluate(rmRule, "rm -fr ./build").severity, "confirm");
+    assert.equal(evaluate(rmRule, "rm -r -f ./build").severity, "confirm");
+    assert.equal(evaluate(rmRule, "rm -r ./build").severity, undefined);
+  });
+
+  it("treats equivalent flag spellings alike", () => {
+    assert.equal(evaluate(rmRule, "rm -Rf /").severity, "confirm");
+    assert.equal(evaluate(rmRule, "rm -f -R /").severity, "confirm");
+    assert.equal(evaluate(rmRule, "rm --recursive -f /").severity, "confirm");
+    assert.equal(evaluate(rmRule, "rm --force --RECURSIVE /").severity, "confirm");
+    const lsRule: PolicyFile = { rules: [{ id: "ls", tokens: ["ls", "-r"] }] };
+    assert.equal(evaluate(lsRule, "ls -R").severity, undefined);
+  });
+
+  it("sees through wrappers, paths and chained commands", () => {
+    assert.equal(evaluate(rmRule, "sudo /bin/rm -rf /").severity, "confirm");
+    assert.equal(evaluate(rmRule, "cd /tmp && FOO=1 rm  -rf x").severity, "confirm");
+  });
+
+  it("does not match inside quoted arguments", () => {
+    assert.equal(evaluate(rmRule, 'echo "rm -rf /"').severity, undefined);
+  });
+
+  it("matches pattern rules case-insensitively", () => {
+    const policy: PolicyFile = {
+      rules: [{ id: "drop", pattern: "drop\\s+database", severity: "block" }]
+    };
+    assert.deepEqual(evaluate(policy, "psql -c 'DROP DATABASE app'").hits, [
+      { ruleId: "drop", description: undefined, severity: "block", source: "settings" }
+    ]);
+  });
+
+  it("reports the strongest severity", () => {
+    const policy: PolicyFile = {
+      rules: [
+        { id: "git", tokens: ["git"], severity: "warn" },
+        { id: "force", tokens: ["git", "push", "--force"], severity: "block" }
+      ]
+    };
+    const decision = evaluate(policy, "git push --force origin main");
+    assert.equal(decision.severity, "block");
+    assert.deepEqual(
+      decision.hits.map((hit) => hit.ruleId),
+      ["git", "force"]
+    );
+  });
+
+  it("limits rules to matching terminals and groups", () => {
+    const policy: PolicyFile = {
+      rules: [{ id: "prod", tokens: ["reboot"], terminals: "^prod", groups: ["basic"] }]
+    };
+    assert.equal(evaluate(policy, "reboot", { name: "prod-1", group: "basic" }).severity, "confirm");
+    assert.equal(evaluate(policy, "reboot", { name: "dev-1", group: "basic" }).severity, undefined);
+    assert.equal(evaluate(policy, "reboot", { name: "prod-1", group: "network" }).severity, undefined);
+  });
+
+  it("exempts allowlisted commands from the listed rules only", () => {
+    const policy: PolicyFile = {
+      rules: [
+        { id: "rm-rf", tokens: ["rm", "-rf"], severity: "confirm" },
+        { id: "dist", pattern: "dist", severity: "warn" }
+      ],
+      allow: [{ pattern: "^rm -rf \\./dist$", rules: ["rm-rf"] }]
+    };
+    assert.deepEqual(
+      evaluate(policy, "rm -rf ./dist").hits.map((hit) => hit.ruleId),
+      ["dist"]
+    );
+  });
+
+  it("lets workspace policy files exempt only their own rules", () => {
+    const policy = buildCommandPolicy([
+      { source: "settings", policy: { rules: [{ id: "rm-rf", tokens: ["rm", "-rf"] }] } },
+      {
+        source: ".vscode/nexus-policy.json",
+        policy: {
+          rules: [{ id: "push", tokens: ["git", "push"], severity: "warn" }],
+          allow: [{ pattern: ".*" }]
+        }
+      }
+    ]);
+    const decision = policy.evaluate("rm -rf / && git push", scope);
+    assert.deepEqual(
+      decision.hits.map((hit) => hit.ruleId),
+      ["rm-rf"]
+    );
+  });
+
+  it("ignores guard settings from workspace settings files", () => {
+    const config = configWith({
+      policyRules: {
+        defaultValue: [{ id: "rm-rf", tokens: ["rm", "-rf"] }],
+        workspaceValue: []
+      },
+      policyAllowlist: { workspaceValue: [{ pattern: ".*" }] },
+      sensitiveKeywords: { workspaceFolderValue: ["deploy"] },
+      enableSensitiveCommandGuard: { globalValue: true, workspaceValue: false }
+    });
+    const policy = readSettingsPolicy(config);
+    assert.deepEqual(policy.allow, []);
+    assert.equal(evaluate(policy, "rm -rf /").severity, "confirm");
+    assert.equal(evaluate(policy, "deploy now").severity, undefined);
+    assert.equal(readUserSetting(config, "enableSensitiveCommandGuard", true), true);
+  });
+
+  it("collects invalid definitions as errors", () => {
+    const policy = buildCommandPolicy([
+      {
+        source: "settings",
+        policy: {
+          rules: [
+            { id: "empty" },
+            { id: "severity", tokens: ["ls"], severity: "fatal" as "block" },
+            { id: "ok", tokens: ["ls"] }
+          ]
+        }
+      }
+    ]);
+    assert.equal(policy.ruleCount, 1);
+    assert.equal(policy.errors.length, 2);
+  });
+});
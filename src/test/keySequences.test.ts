@@ -0,0 +1,37 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseInputPrefix, translateKeySequence } from "../keySequences";
+
+describe("key sequences", () => {
+  it("translates named keys case-insensitively", () => {
+    assert.equal(translateKeySequence("<Esc><TAB><enter>"), "\u001b\t\r");
+    assert.equal(translateKeySequence("<Up><PgDn><F5>"), "\u001b[A\u001b[6~\u001b[15~");
+  });
+
+  it("translates control and meta modifiers", () => {
+    assert.equal(translateKeySequence("<C-c><c-D>"), "\u0003\u0004");
+    assert.equal(translateKeySequence("<C-[><C-Space>"), "\u001b\u0000");
+    assert.equal(translateKeySequence("<M-b><A-Left>"), "\u001bb\u001b\u001b[D");
+  });
+
+  it("sends repeated tokens and surrounding text as typed", () => {
+    assert.equal(translateKeySequence("<Up><Up><Up><Enter>"), "\u001b[A\u001b[A\u001b[A\r");
+    assert.equal(translateKeySequence("y<Enter>y<Enter>"), "y\ry\r");
+  });
+
+  it("escapes literal angle brackets", () => {
+    assert.equal(translateKeySequence("<lt>word<gt>"), "<word>");
+    assert.equal(translateKeySequence("a < b"), "a < b");
+  });
+
+  it("rejects unknown keys", () => {
+    assert.throws(() => translateKeySequence("<Hyper>"), /Unknown key <Hyper>/);
+    assert.throws(() => translateKeySequence("<C-1>"), /Unknown key <C-1>/);
+    assert.throws(() => translateKeySequence("<M-Nope>"), /Unknown key <M-Nope>/);
+  });
+
+  it("splits off the keys: prefix", () => {
+    assert.deepEqual(parseInputPrefix("KEYS:  <C-c>"), { text: "<C-c>", keys: true });
+    assert.deepEqual(parseInputPrefix("echo keys: 1"), { text: "echo keys: 1", keys: false });
+  });
+});
@@ -0,0 +1,102 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  compileTemplate,
+  literalTemplate,
+  PlaceholderContext,
+  renderTemplate
+} from "../placeholders";
+
+const context: PlaceholderContext = {
+  name: "Api Server",
+  index: 3,
+  count: 8,
+  group: "network",
+  pid: 4242,
+  cwd: "/srv/api",
+  shellType: "posix",
+  now: new Date(2024, 0, 5, 9, 7, 2, 45),
+  env: { HOME: "/home/dev" }
+};
+
+function render(template: string, overrides: Partial<PlaceholderContext> = {}): string {
+  return renderTemplate(compileTemplate(template), { ...context, ...overrides });
+}
+
+describe("placeholders", () => {
+  it("resolves terminal placeholders", () => {
+    assert.equal(
+      render("{name} {index}/{count} {group} {pid} {cwd}"),
+      "Api Server 3/8 network 4242 /srv/api"
+    );
+  });
+
+  it("pads the index", () => {
+    assert.equal(render("agent-{index:03}"), "agent-003");
+  });
+
+  it("reads environment variables", () => {
+    assert.equal(render("cd {env:HOME}"), "cd /home/dev");
+  });
+
+  it("formats dates", () => {
+    assert.equal(render("{date}"), "2024-01-05");
+    assert.equal(render("{date:YYYYMMDD-HHmmss.SSS}"), "20240105-090702.045");
+  });
+
+  it("applies filters in order", () => {
+    assert.equal(render("{name|slug}"), "api-server");
+    assert.equal(render("{name|upper|lower}"), "api server");
+  });
+
+  it("quotes for the terminal's shell", () => {
+    const name = `it's "$HOME"`;
+    assert.equal(render("{name:quoted}", { name }), `'it'\\''s "$HOME"'`);
+    assert.equal(render("{name:quoted}", { name: "deploy!1" }), "'deploy!1'");
+    assert.equal(render("{name|quoted}", { name, shellType: "powershell" }), `'it''s "$HOME"'`);
+    assert.equal(render("{name:quoted}", { name, shellType: "cmd" }), `"it's ""$HOME"""`);
+    // Best-effort: cmd still expands %VAR% inside double quotes.
+    assert.equal(render("{name:quoted}", { name: "50%", shellType: "cmd" }), `"50%"`);
+    assert.equal(render("{name:quoted}", { name: "a!b'c", shellType: "fish" }), `'a!b\\'c'`);
+  });
+
+  it("leaves shell syntax alone", () => {
+    assert.equal(render("echo ${HOME} {}"), "echo ${HOME} {}");
+  });
+
+  it("renders literal templates as written", () => {
+    const text = "echo {name} {item}\nkeys: <enter>";
+    assert.equal(renderTemplate(literalTemplate(text), context), text);
+  });
+
+  it("reports which context values the template needs", () => {
+    const compiled = compileTemplate("kill {pid}");
+    assert.equal(compiled.usesPid, true);
+    assert.equal(compiled.usesCwd, false);
+  });
+
+  it("throws instead of rendering missing values", () => {
+    assert.throws(() => render("rm -rf {env:BUILD_DIR}/"), /\{env:BUILD_DIR\} has no value/);
+    assert.throws(() => render("kill {pid}", { pid: undefined }), /\{pid\} is unknown/);
+    assert.throws(() => render("cd {cwd}", { cwd: undefined }), /\{cwd\} is unknown/);
+    assert.throws(() => render("ssh {host}"), /needs a terminal opened from an SSH inventory/);
+    assert.throws(
+      () => render("{host:ansible_port}", { host: { name: "web1", vars: {} } }),
+      /host web1 does not set ansible_port/
+    );
+  });
+
+  it("resolves inventory host names and variables", () => {
+    const host = { name: "web1", vars: { ansible_host: "10.0.0.5" } };
+    assert.equal(render("{host} {host:ansible_host}", { host }), "web1 10.0.0.5");
+  });
+
+  it("rejects unknown placeholders, filters and arguments", () => {
+    assert.throws(() => compileTemplate("{nmae}"), /Unknown placeholder \{nmae\}/);
+    assert.throws(() => compileTemplate("{name|shout}"), /Unknown placeholder filter "shout"/);
+    assert.throws(() => compileTemplate("{index:x}"), /Invalid index padding/);
+    assert.throws(() => compileTemplate("{index:999999999999}"), /Invalid index padding/);
+    assert.throws(() => compileTemplate("{env}"), /Invalid environment variable/);
+    assert.throws(() => compileTemplate("{count:2}"), /does not take an argument/);
+  });
+});
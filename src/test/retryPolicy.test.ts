@@ -0,0 +1,80 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import * as vscode from "vscode";
+import { BroadcastTargetResult } from "../broadcastRuns";
+import {
+  compileRetryPolicy,
+  getRetryDelayMs,
+  isRetryEnabled,
+  RetryPolicy,
+  shouldRetryTarget
+} from "../retryPolicy";
+
+const basePolicy: RetryPolicy = {
+  maxAttempts: 3,
+  backoffMs: 1000,
+  backoffMultiplier: 2,
+  exitCodes: [],
+  outputPatterns: []
+};
+
+function policy(overrides: Partial<RetryPolicy> = {}) {
+  return compileRetryPolicy({ ...basePolicy, ...overrides });
+}
+
+function failedTarget(
+  exitCode: number,
+  overrides: Partial<BroadcastTargetResult> = {}
+): BroadcastTargetResult {
+  return {
+    terminal: {} as vscode.Terminal,
+    name: "web-1",
+    index: 1,
+    command: "deploy",
+    sentAt: 0,
+    status: "completed",
+    output: "",
+    outputTruncated: false,
+    expectedExecutions: 1,
+    executions: [{ commandLine: "deploy", startedAt: 0, endedAt: 10, exitCode }],
+    attempt: 1,
+    previousAttempts: [],
+    ...overrides
+  };
+}
+
+describe("retry policy", () => {
+  it("counts the first send towards the maximum attempts", () => {
+    assert.equal(isRetryEnabled(basePolicy), true);
+    assert.equal(isRetryEnabled({ ...basePolicy, maxAttempts: 1 }), false);
+    assert.equal(shouldRetryTarget(failedTarget(1, { attempt: 2 }), policy()), true);
+    assert.equal(shouldRetryTarget(failedTarget(1, { attempt: 3 }), policy()), false);
+  });
+
+  it("only retries failed targets", () => {
+    assert.equal(shouldRetryTarget(failedTarget(0), policy()), false);
+    assert.equal(shouldRetryTarget(failedTarget(1, { status: "running" }), policy()), false);
+  });
+
+  it("filters by exit code or output pattern once either is set", () => {
+    const filtered = policy({ exitCodes: [75], outputPatterns: ["^Connection reset"] });
+    assert.equal(shouldRetryTarget(failedTarget(75), filtered), true);
+    assert.equal(shouldRetryTarget(failedTarget(1), filtered), false);
+    assert.equal(
+      shouldRetryTarget(failedTarget(1, { output: "fetching\nConnection reset by peer" }), filtered),
+      true
+    );
+  });
+
+  it("grows the delay by the multiplier for each retry", () => {
+    const compiled = policy({ backoffMs: 500, backoffMultiplier: 1.5 });
+    assert.deepEqual(
+      [1, 2, 3].map((retry) => getRetryDelayMs(compiled, retry)),
+      [500, 750, 1125]
+    );
+  });
+
+  it("rejects invalid output patterns", () => {
+    assert.throws(() => policy({ outputPatterns: ["("] }), /Invalid retry output pattern "\("/);
+  });
+});
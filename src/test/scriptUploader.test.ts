@@ -0,0 +1,93 @@
+import * as assert from "node:assert/strict";
+import * as crypto from "node:crypto";
+import { describe, it } from "node:test";
+import { buildUploadPlan, UploadRequest } from "../scriptUploader";
+
+function request(content: string | Buffer, overrides: Partial<UploadRequest> = {}): UploadRequest {
+  return {
+    fileName: "deploy.sh",
+    content: typeof content === "string" ? Buffer.from(content, "utf8") : content,
+    remotePath: "/tmp/deploy.sh",
+    makeExecutable: true,
+    run: false,
+    args: "",
+    ...overrides
+  };
+}
+
+function checksumOf(upload: UploadRequest): string {
+  return crypto.createHash("sha256").update(upload.content).digest("hex");
+}
+
+describe("script upload plans", () => {
+  it("types small POSIX text files as a quoted heredoc", () => {
+    const script = Array.from({ length: 25 }, (_, line) => `echo ${line}`).join("\n");
+    const upload = request(`${script}\n`);
+    const checksum = checksumOf(upload);
+    const plan = buildUploadPlan("posix", upload, checksum);
+    const delimiter = `NEXUS_EOF_${checksum.slice(0, 12).toUpperCase()}`;
+
+    assert.equal(plan.method, "heredoc");
+    assert.equal(plan.chunks.length, 2);
+    assert.equal(plan.chunks[0].split("\n")[0], `cat > '/tmp/deploy.sh' <<'${delimiter}'`);
+    assert.equal(plan.chunks[0].split("\n").length, 20);
+    assert.equal(plan.chunks[1].split("\n").at(-1), delimiter);
+    assert.equal(plan.abort, `${delimiter}\nrm -f '/tmp/deploy.sh'`);
+  });
+
+  it("falls back to base64 for binary files, history expansion and other shells", () => {
+    const binary = request(Buffer.from([0, 1, 2, 255]));
+    assert.equal(buildUploadPlan("posix", binary, checksumOf(binary)).method, "base64");
+
+    const bang = request("echo hi!\n");
+    assert.equal(buildUploadPlan("posix", bang, checksumOf(bang)).method, "base64");
+
+    const text = request("echo hi\n");
+    assert.equal(buildUploadPlan("powershell", text, checksumOf(text)).method, "base64");
+    assert.equal(buildUploadPlan("fish", text, checksumOf(text)).abort, undefined);
+  });
+
+  it("splits base64 into short append commands between truncate and decode", () => {
+    const upload = request(crypto.randomBytes(2000));
+    const plan = buildUploadPlan("posix", upload, checksumOf(upload));
+    const encoded = Buffer.from(upload.content).toString("base64");
+
+    assert.equal(plan.chunks[0], "printf '' > '/tmp/deploy.sh.b64'");
+    assert.match(plan.chunks.at(-1) ?? "", /base64 -d < '\/tmp\/deploy\.sh\.b64'/);
+    const pieces = plan.chunks
+      .slice(1, -1)
+      .map((chunk) => /^printf '%s' '([^']*)' >> /.exec(chunk)?.[1] ?? "");
+    assert.equal(pieces.join(""), encoded);
+    assert.ok(pieces.every((piece) => piece.length <= 760));
+  });
+
+  it("fails the finalize command on a checksum mismatch in every shell", () => {
+    const upload = request("echo hi\n", { run: true, args: "--shard 1" });
+    const checksum = checksumOf(upload);
+    const finalize = (shellType: "posix" | "fish" | "powershell" | "cmd", run = true) =>
+      buildUploadPlan(shellType, { ...upload, run }, checksum).finalize;
+
+    assert.equal(
+      finalize("posix"),
+      `[ "$( (sha256sum '/tmp/deploy.sh' 2>/dev/null || shasum -a 256 '/tmp/deploy.sh') | cut -d ' ' -f 1)" = ${checksum} ]` +
+        " && echo 'nexus: checksum OK' || (echo 'nexus: checksum mismatch' >&2; exit 1)" +
+        " && chmod +x '/tmp/deploy.sh' && '/tmp/deploy.sh' --shard 1"
+    );
+    assert.match(
+      finalize("fish"),
+      /or begin; echo 'nexus: checksum mismatch' >&2; false; end; and chmod \+x '\/tmp\/deploy\.sh'; and '\/tmp\/deploy\.sh' --shard 1$/
+    );
+    assert.match(finalize("powershell"), /else \{ Write-Error 'nexus: checksum mismatch' \}$/);
+    assert.match(finalize("powershell"), /& '\/tmp\/deploy\.sh' --shard 1/);
+    assert.equal(
+      finalize("cmd"),
+      `certutil -hashfile "/tmp/deploy.sh" SHA256 | findstr /i ${checksum} >nul` +
+        " || (echo nexus: checksum mismatch& cmd /c exit 1)" +
+        ' && (echo nexus: checksum OK& "/tmp/deploy.sh" --shard 1)'
+    );
+    assert.match(
+      finalize("cmd", false),
+      /\|\| \(echo nexus: checksum mismatch& cmd \/c exit 1\) && echo nexus: checksum OK$/
+    );
+  });
+});
@@ -0,0 +1,139 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildSshArgs, Inventory, parseInventory } from "../sshInventory";
+
+function host(inventory: Inventory, name: string) {
+  const found = inventory.hosts.find((item) => item.name === name);
+  assert.ok(found, `host ${name}`);
+  return found;
+}
+
+describe("ssh inventory", () => {
+  it("parses INI hosts, ranges, children and vars with Ansible precedence", () => {
+    const inventory = parseInventory(
+      [
+        "bastion ansible_host=203.0.113.10",
+        "",
+        "[web]",
+        "web[01:02].internal ansible_user=deploy  # inline comment",
+        "",
+        "[db]",
+        'db-[a:b] ansible_port=2222 note="two words"',
+        "",
+        "[prod:children]",
+        "web",
+        "db",
+        "",
+        "[prod:vars]",
+        "ansible_user=admin",
+        "env=production",
+        "",
+        "[all:vars]",
+        "env=dev"
+      ].join("\n"),
+      "inventory.ini"
+    );
+
+    assert.deepEqual(
+      inventory.hosts.map((item) => item.name),
+      ["bastion", "web01.internal", "web02.internal", "db-a", "db-b"]
+    );
+    assert.deepEqual(inventory.groups, ["all", "db", "prod", "web"]);
+    assert.deepEqual(host(inventory, "web01.internal").groups, ["all", "prod", "web"]);
+    assert.deepEqual(host(inventory, "web01.internal").vars, {
+      ansible_user: "deploy",
+      env: "production"
+    });
+    assert.deepEqual(host(inventory, "db-b").vars, {
+      ansible_user: "admin",
+      env: "production",
+      ansible_port: "2222",
+      note: "two words"
+    });
+    assert.deepEqual(host(inventory, "bastion").groups, ["all", "ungrouped"]);
+  });
+
+  it("parses YAML inventories", () => {
+    const inventory = parseInventory(
+      [
+        "---",
+        "all:",
+        "  vars:",
+        "    ansible_user: root  # comment",
+        "  hosts:",
+        "    solo:",
+        "  children:",
+        "    app:",
+        "      hosts:",
+        "        app1:",
+        "          ansible_host: 192.168.1.10",
+        "          roles: [api, worker]",
+        '        "app2":',
+        "      vars:",
+        "        ansible_user: 'app'",
+        "    empty:",
+        "      hosts: {}"
+      ].join("\n"),
+      "hosts"
+    );
+
+    assert.deepEqual(inventory.groups, ["all", "app"]);
+    assert.deepEqual(host(inventory, "solo").vars, { ansible_user: "root" });
+    assert.deepEqual(host(inventory, "app1").vars, {
+      ansible_user: "app",
+      ansible_host: "192.168.1.10",
+      roles: "api,worker"
+    });
+    assert.deepEqual(host(inventory, "app2").groups, ["all", "app"]);
+  });
+
+  it("builds ssh arguments from connection variables", () => {
+    assert.deepEqual(
+      buildSshArgs({
+        name: "db-a",
+        groups: [],
+        vars: {
+          ansible_host: "10.0.2.11",
+          ansible_user: "ops",
+          ansible_port: "2222",
+          ansible_ssh_private_key_file: "~/.ssh/id_ops",
+          nexus_jump_host: "jump@203.0.113.10",
+          ansible_ssh_common_args: '-o StrictHostKeyChecking=no -o "UserKnownHostsFile /dev/null"'
+        }
+      }),
+      [
+        "-p",
+        "2222",
+        "-i",
+        "~/.ssh/id_ops",
+        "-J",
+        "jump@203.0.113.10",
+        "-o",
+        "StrictHostKeyChecking=no",
+        "-o",
+        "UserKnownHostsFile /dev/null",
+        "ops@10.0.2.11"
+      ]
+    );
+    assert.deepEqual(buildSshArgs({ name: "web01", groups: [], vars: {} }), ["web01"]);
+  });
+
+  it("rejects users and addresses that ssh would read as options", () => {
+    const build = (vars: Record<string, string>) => () =>
+      buildSshArgs({ name: "web01", groups: [], vars });
+    assert.throws(build({ ansible_host: "-oProxyCommand=touch /tmp/x" }), /cannot start with "-"/);
+    assert.throws(build({ ansible_user: "-oProxyCommand=id" }), /cannot start with "-"/);
+    assert.throws(build({ nexus_jump_host: "-V" }), /cannot start with "-"/);
+    assert.throws(() => buildSshArgs({ name: "-oFoo", groups: [], vars: {} }), /Host -oFoo/);
+  });
+
+  it("reports errors with the file and line", () => {
+    assert.throws(() => parseInventory("[web]\nweb1 port\n", "inventory.ini"), /inventory\.ini:2:/);
+    assert.throws(() => parseInventory("[web]\nweb[3:x]\n", "inventory.ini"), /invalid host range/);
+    assert.throws(() => parseInventory("all:\n\thosts:\n", "inventory.yml"), /inventory\.yml:2: tabs/);
+    assert.throws(
+      () => parseInventory("[a:children]\nb\n[b:children]\na\n", "inventory.ini"),
+      /its own ancestor/
+    );
+  });
+});
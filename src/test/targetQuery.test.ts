@@ -0,0 +1,93 @@
+import * as assert from "node:assert/strict";
+import * as os from "node:os";
+import { describe, it } from "node:test";
+import { compileTargetQuery, TargetFields } from "../targetQuery";
+import { TerminalState } from "../terminalStateManager";
+
+const terminals: TargetFields[] = [
+  {
+    name: "claude-1",
+    tags: ["api", "agents"],
+    state: TerminalState.CLI_WAITING,
+    cwd: "/srv/api",
+    group: "basic",
+    pid: 100,
+    exitCode: 0
+  },
+  {
+    name: "claude-2",
+    tags: ["web"],
+    state: TerminalState.CLI_THINKING,
+    cwd: `${os.homedir()}/web`,
+    group: "basic",
+    pid: 200,
+    exitCode: 1
+  },
+  {
+    name: "prod db",
+    tags: [],
+    state: TerminalState.RUNNING_PROGRAM,
+    group: "database"
+  }
+];
+
+function names(query: string): string[] {
+  const predicate = compileTargetQuery(query);
+  return terminals.filter(predicate).map((fields) => fields.name);
+}
+
+describe("target query", () => {
+  it("matches bare words and names by substring", () => {
+    assert.deepEqual(names("claude"), ["claude-1", "claude-2"]);
+    assert.deepEqual(names('name:"prod db"'), ["prod db"]);
+  });
+
+  it("matches tags and groups exactly, with globs", () => {
+    assert.deepEqual(names("tag:api"), ["claude-1"]);
+    assert.deepEqual(names("tag:ap"), []);
+    assert.deepEqual(names("tag:a*"), ["claude-1"]);
+    assert.deepEqual(names("group:data?ase"), ["prod db"]);
+  });
+
+  it("matches regular expressions", () => {
+    assert.deepEqual(names("name:/^CLAUDE-\\d$/i"), ["claude-1", "claude-2"]);
+  });
+
+  it("resolves state aliases", () => {
+    assert.deepEqual(names("state:ready"), ["claude-1"]);
+    assert.deepEqual(names("state:busy"), ["claude-2", "prod db"]);
+    assert.deepEqual(names("state:running_program"), ["prod db"]);
+  });
+
+  it("expands ~ in cwd and skips terminals without one", () => {
+    assert.deepEqual(names("cwd:~/web"), ["claude-2"]);
+    assert.deepEqual(names('cwd:"/srv"'), ["claude-1"]);
+    assert.deepEqual(names("cwd:*"), ["claude-1", "claude-2"]);
+  });
+
+  it("compares numbers only when they are known", () => {
+    assert.deepEqual(names("exit!=0"), ["claude-2"]);
+    assert.deepEqual(names("pid>=150"), ["claude-2"]);
+    assert.deepEqual(names("pid<150"), ["claude-1"]);
+  });
+
+  it("combines terms with and, or, not and parentheses", () => {
+    assert.deepEqual(names("claude tag:web"), ["claude-2"]);
+    assert.deepEqual(names("tag:api or group:database"), ["claude-1", "prod db"]);
+    assert.deepEqual(names("not (tag:api or tag:web)"), ["prod db"]);
+    assert.deepEqual(names("claude and not exit:0"), ["claude-2"]);
+  });
+
+  it("reports syntax errors with columns", () => {
+    assert.throws(() => compileTargetQuery(""), /empty/);
+    assert.throws(() => compileTargetQuery("colour:red"), /Unknown field "colour" at column 1/);
+    assert.throws(() => compileTargetQuery("(tag:api"), /Missing "\)"/);
+    assert.throws(() => compileTargetQuery("tag:api )"), /Unexpected "\)" at column 9/);
+    assert.throws(() => compileTargetQuery("state:sleepy"), /Unknown state/);
+    assert.throws(() => compileTargetQuery("pid>abc"), /whole number/);
+    assert.throws(() => compileTargetQuery("name>3"), /does not support ">"/);
+    assert.throws(() => compileTargetQuery("name:/(/"), /Invalid regex/);
+    assert.throws(() => compileTargetQuery("name:/claude/g"), /flag "g" at column 1/);
+    assert.throws(() => compileTargetQuery("tag:api name:/x/iy"), /flag "y" at column 9/);
+  });
+});
@@ -0,0 +1,48 @@
+import * as assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import * as vscode from "vscode";
+import { TerminalIdentityRegistry } from "../terminalIdentity";
+
+const openTerminals = vscode.window.terminals as vscode.Terminal[];
+const registries: TerminalIdentityRegistry[] = [];
+
+function terminal(name: string): vscode.Terminal {
+  const created = { name, processId: Promise.resolve(undefined) } as unknown as vscode.Terminal;
+  openTerminals.push(created);
+  return created;
+}
+
+function registry(records: unknown[]): TerminalIdentityRegistry {
+  const memento = {
+    get: () => records,
+    update: () => Promise.resolve()
+  } as unknown as vscode.Memento;
+  const created = new TerminalIdentityRegistry(memento);
+  registries.push(created);
+  return created;
+}
+
+describe("terminal identity", () => {
+  afterEach(() => {
+    registries.splice(0).forEach((item) => item.dispose());
+    openTerminals.splice(0);
+  });
+
+  it("lets terminals revived with the window claim their old ID by PID or name", () => {
+    const api = terminal("api");
+    const bash = terminal("bash");
+    const identities = registry([
+      { id: "t-api", name: "renamed", pid: 41 },
+      { id: "t-bash", name: "bash" }
+    ]);
+    assert.equal(identities.getId(api, 41), "t-api");
+    assert.equal(identities.getId(bash), "t-bash");
+  });
+
+  it("gives terminals opened later a new ID even when the name matches", () => {
+    const identities = registry([{ id: "t-bash", name: "bash", pid: 7 }]);
+    const id = identities.getId(terminal("bash"), 7);
+    assert.notEqual(id, "t-bash");
+    assert.match(id, /^t-[0-9a-f]{12}$/);
+  });
+});
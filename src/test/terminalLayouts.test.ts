@@ -0,0 +1,36 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import * as vscode from "vscode";
+import { snapshotTerminal } from "../terminalLayouts";
+
+function terminal(name: string, options: vscode.TerminalOptions): vscode.Terminal {
+  return { name, creationOptions: options } as unknown as vscode.Terminal;
+}
+
+describe("terminal layouts", () => {
+  it("saves only the env keys listed in layoutEnvKeys", () => {
+    const entry = snapshotTerminal(
+      terminal("api", {
+        cwd: "/srv/api",
+        env: { NODE_ENV: "staging", API_TOKEN: "secret", AWS_SECRET_ACCESS_KEY: "hunter2" }
+      }),
+      ["NODE_ENV", "REGION"]
+    );
+
+    assert.deepEqual(entry, { name: "api", cwd: "/srv/api", env: { NODE_ENV: "staging" } });
+  });
+
+  it("keeps env keys already committed for the terminal", () => {
+    const entry = snapshotTerminal(
+      terminal("worker", { env: { QUEUE: "jobs-2", API_TOKEN: "secret" } }),
+      [],
+      { name: "worker", env: { QUEUE: "jobs" }, startupCommands: ["npm run worker"] }
+    );
+
+    assert.deepEqual(entry, {
+      name: "worker",
+      env: { QUEUE: "jobs-2" },
+      startupCommands: ["npm run worker"]
+    });
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * The parts of the `vscode` module that source files touch when they load,
+ * so unit tests can run in plain Node. `scripts/test.js` aliases `vscode` here.
+ */
+export const l10n = {
+  t: (message: string, ...args: unknown[]): string =>
+    message.replace(/\{(\d+)\}/g, (match, index: string) =>
+      args[Number(index)] !== undefined ? String(args[Number(index)]) : match
+    )
+};
+
+export class EventEmitter<T> {
+  private readonly listeners = new Set<(value: T) => void>();
+
+  public readonly event = (listener: (value: T) => void) => {
+    this.listeners.add(listener);
+    return { dispose: () => this.listeners.delete(listener) };
+  };
+
+  public fire(value: T): void {
+    for (const listener of this.listeners) {
+      listener(value);
+    }
+  }
+
+  public dispose(): void {
+    this.listeners.clear();
+  }
+}
+
+export class ThemeIcon {
+  constructor(public readonly id: string) {}
+}
+
+const noEvent = () => ({ dispose: () => undefined });
+
+export const window = {
+  terminals: [],
+  onDidOpenTerminal: noEvent,
+  onDidCloseTerminal: noEvent,
+  onDidChangeActiveTerminal: noEvent,
+  onDidChangeTerminalShellIntegration: noEvent,
+  onDidStartTerminalShellExecution: noEvent,
+  onDidEndTerminalShellExecution: noEvent
+};
+
+export const workspace = {
+  isTrusted: true,
+  getConfiguration: () => ({
+    get: <T>(_key: string, defaultValue?: T) => defaultValue
+  })
+};